@@ -7,8 +7,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useReading } from '@/contexts/ReadingContext';
 import { useMessages } from '@/hooks/useMessages';
+import { useBookSections } from '@/hooks/useBookSections';
+import { findSectionAtPage } from '@/lib/bookSections';
+import { resolveContextScope } from '@/lib/contextScope';
+import { PageRange, SearchScope } from '@/types/scope';
 import { ChatTab } from './ai/ChatTab';
 import { QuizTab } from './ai/QuizTab';
+import { ReviewTab } from './ai/ReviewTab';
+import { NotesTab } from './ai/NotesTab';
+import { SummaryTab } from './ai/SummaryTab';
+import { ScopeSelector } from './ai/ScopeSelector';
 
 const variantOptions = {
   success: "default",
@@ -19,12 +27,18 @@ const variantOptions = {
 
 const AIAssistantPanel = () => {
   const { user } = useAuth();
-  const { currentBookId, currentPage, currentPageText } = useReading();
+  const { currentBookId, currentPage, currentPageText, totalPages } = useReading();
   const [activeTab, setActiveTab] = useState('chat');
   const [isBookProcessed, setIsBookProcessed] = useState<boolean | null>(null);
-  const [searchScope, setSearchScope] = useState<'page' | 'book'>('book');
+  const [scopeType, setScopeType] = useState<SearchScope>('book');
+  const [customRange, setCustomRange] = useState<PageRange | null>(null);
   
-  const { messages, addMessage, saveMessagesToDatabase } = useMessages(currentBookId);
+  const { messages, addMessage, updateMessage, saveMessagesToDatabase, conversationId } = useMessages(currentBookId);
+  const { sections } = useBookSections(currentBookId);
+
+  // Chapters are the top-level entries of the table of contents
+  const chapter = findSectionAtPage(sections, currentPage, 1);
+  const searchScope = resolveContextScope(scopeType, { currentPage, totalPages, chapter, customRange });
 
   // Check if the current book is processed
   useEffect(() => {
@@ -63,20 +77,36 @@ const AIAssistantPanel = () => {
     checkBookProcessingStatus();
   }, [currentBookId]);
 
-  // Function to toggle search scope that can be passed to child components
-  const toggleSearchScope = () => {
-    const newScope = searchScope === 'page' ? 'book' : 'page';
-    setSearchScope(newScope);
+  // Function to change the search scope used by the chat and quiz tabs
+  const changeSearchScope = (newScope: SearchScope) => {
+    setScopeType(newScope);
     console.log(`Search scope switched to: ${newScope}`);
     
+    // Start a page range from the current chapter, or the current page
+    let range = customRange;
+    if (newScope === 'range' && !range) {
+      range = chapter
+        ? { start: chapter.start_page, end: chapter.end_page ?? chapter.start_page }
+        : { start: currentPage, end: currentPage };
+      setCustomRange(range);
+    }
+    
+    const newLabel = resolveContextScope(newScope, { currentPage, totalPages, chapter, customRange: range }).label;
+    const descriptions: Record<SearchScope, string> = {
+      page: 'only the current page',
+      chapter: `the chapter "${newLabel}"`,
+      range: newLabel.toLowerCase(),
+      book: 'the entire book'
+    };
+    
     // Show toast to confirm search scope change
     toast({
-      title: `Context mode: ${newScope === 'page' ? 'Current Page Only' : 'Entire Book'}`,
-      description: `AI will now use ${newScope === 'page' ? 'only the current page' : 'the entire book'} for context.`,
+      title: `Context mode: ${newLabel}`,
+      description: `AI will now use ${descriptions[newScope]} for context.`,
     });
     
-    // If switching to book scope but book isn't processed, warn the user
-    if (newScope === 'book' && isBookProcessed === false) {
+    // If switching beyond the current page but the book isn't processed, warn the user
+    if (newScope !== 'page' && isBookProcessed === false) {
       toast({
         title: "Book not fully processed",
         description: "The book hasn't been fully processed yet, so the AI's knowledge of the entire book may be limited.",
@@ -85,13 +115,28 @@ const AIAssistantPanel = () => {
     }
   };
 
+  // Shared by the chat and summary tabs; only the active tab is rendered
+  const scopeSelector = (
+    <ScopeSelector
+      scope={searchScope}
+      selectedType={scopeType}
+      chapterTitle={chapter?.title ?? null}
+      totalPages={totalPages}
+      onTypeChange={changeSearchScope}
+      onRangeChange={setCustomRange}
+    />
+  );
+
   return (
     <Card className="h-full flex flex-col">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
         <div className="border-b p-2">
-          <TabsList className="grid grid-cols-2">
+          <TabsList className="grid grid-cols-5">
             <TabsTrigger value="chat">Chat</TabsTrigger>
             <TabsTrigger value="quiz">Quiz Me</TabsTrigger>
+            <TabsTrigger value="summary">Summary</TabsTrigger>
+            <TabsTrigger value="review">Review</TabsTrigger>
+            <TabsTrigger value="notes">Notes</TabsTrigger>
           </TabsList>
         </div>
 
@@ -99,21 +144,20 @@ const AIAssistantPanel = () => {
           <ChatTab 
             messages={messages}
             addMessage={addMessage}
+            updateMessage={updateMessage}
             saveMessagesToDatabase={saveMessagesToDatabase}
+            conversationId={conversationId}
             currentBookId={currentBookId}
             currentPage={currentPage}
             currentPageText={currentPageText}
             isBookProcessed={isBookProcessed}
             searchScope={searchScope}
-            toggleSearchScope={toggleSearchScope}
+            scopeSelector={scopeSelector}
           />
         </TabsContent>
 
         <TabsContent value="quiz" className="flex-grow flex flex-col p-0 m-0">
           <QuizTab 
-            messages={messages}
-            addMessage={addMessage}
-            saveMessagesToDatabase={saveMessagesToDatabase}
             currentBookId={currentBookId}
             currentPage={currentPage}
             currentPageText={currentPageText}
@@ -121,6 +165,24 @@ const AIAssistantPanel = () => {
             searchScope={searchScope}
           />
         </TabsContent>
+
+        <TabsContent value="summary" className="flex-grow flex flex-col p-0 m-0">
+          <SummaryTab
+            currentBookId={currentBookId}
+            currentPage={currentPage}
+            isBookProcessed={isBookProcessed}
+            searchScope={searchScope}
+            scopeSelector={scopeSelector}
+          />
+        </TabsContent>
+
+        <TabsContent value="review" className="flex-grow flex flex-col p-0 m-0">
+          <ReviewTab />
+        </TabsContent>
+
+        <TabsContent value="notes" className="flex-grow flex flex-col p-0 m-0">
+          <NotesTab />
+        </TabsContent>
       </Tabs>
     </Card>
   );
@@ -11,6 +11,7 @@ import { toast } from '@/components/ui/use-toast';
 import { v4 as uuidv4 } from 'uuid';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { BOOK_MIME_TYPES, detectBookFormat } from '@/lib/bookFormat';
 
 const BookUploader = ({ onUploadSuccess }: { onUploadSuccess?: () => void }) => {
   const [file, setFile] = useState<File | null>(null);
@@ -36,10 +37,10 @@ const BookUploader = ({ onUploadSuccess }: { onUploadSuccess?: () => void }) =>
       return;
     }
 
-    if (selectedFile.type !== "application/pdf") {
+    if (!detectBookFormat(selectedFile.type, selectedFile.name)) {
       toast({
         title: "Invalid file type",
-        description: "Please select a PDF file",
+        description: "Please select a PDF or EPUB file",
         variant: "destructive",
       });
       return;
@@ -137,7 +138,7 @@ const BookUploader = ({ onUploadSuccess }: { onUploadSuccess?: () => void }) =>
               title: metadata.title,
               author: metadata.author || null,
               file_path: filePath,
-              file_type: file.type,
+              file_type: BOOK_MIME_TYPES[detectBookFormat(file.type, file.name)],
               user_id: user.id,
               is_processed: false,
               processing_status: 'Queued for processing'
@@ -180,77 +181,31 @@ const BookUploader = ({ onUploadSuccess }: { onUploadSuccess?: () => void }) =>
       });
       
       try {
-        // Add improved retry logic for more robust processing
-        let retryCount = 0;
-        const maxRetries = 3;
-        let processingError;
-        
-        while (retryCount <= maxRetries) {
-          try {
-            console.log(`Attempting to process book (attempt ${retryCount + 1}/${maxRetries + 1})`);
-            
-            // Add a short delay before the first attempt to ensure database consistency
-            if (retryCount === 0) {
-              await new Promise(resolve => setTimeout(resolve, 1000));
-            }
-            
-            // Prepare all required params explicitly
-            const processingParams = {
-              book_id: bookId,
-              user_id: user.id,
-              file_path: filePath,
-              endpoint: 'extract-pdf-text' 
-            };
-            
-            console.log("Sending processing request with params:", processingParams);
-            
-            // Call the extract-pdf-text endpoint with all required parameters
-            const response = await supabase.functions.invoke('ai-assistant', {
-              body: processingParams
-            });
-            
-            if (response.error) {
-              throw new Error(response.error.message || "Function invocation failed");
-            }
-            
-            // Check for success field in the response data
-            if (!response.data || response.data.success === false) {
-              const errorMessage = response.data?.message || response.data?.error || "Unknown processing error";
-              console.error('Processing error from Edge Function:', errorMessage);
-              throw new Error(errorMessage);
-            }
-            
-            console.log('Book processing initiated successfully:', response.data);
-            processingError = null;
-            break; // Success, exit retry loop
-          } catch (error: any) {
-            processingError = error;
-            console.error(`Error triggering PDF processing (attempt ${retryCount + 1}):`, error);
-            retryCount++;
-            
-            if (retryCount <= maxRetries) {
-              // Wait with exponential backoff before retrying (2s, 4s, 8s)
-              await new Promise(resolve => setTimeout(resolve, 2000 * Math.pow(2, retryCount - 1)));
-            }
+        // Queue the book for processing; the edge function processes it in the background
+        const response = await supabase.functions.invoke('ai-assistant', {
+          body: {
+            book_id: bookId,
+            user_id: user.id,
+            file_path: filePath,
+            endpoint: 'extract-pdf-text'
           }
+        });
+        
+        if (response.error) {
+          throw new Error(response.error.message || "Function invocation failed");
         }
         
+        if (!response.data || response.data.success === false) {
+          throw new Error(response.data?.error || "Unknown processing error");
+        }
+        
+        console.log('Book queued for processing, job:', response.data.job_id);
         setUploadProgress(100);
         
-        if (processingError) {
-          console.error("All processing attempts failed:", processingError);
-          // Don't throw here, as the book was already uploaded successfully
-          toast({
-            title: "Processing started with warnings",
-            description: "Your book was uploaded but processing may be delayed. You can try manual processing from the library.",
-            variant: "destructive",
-          });
-        } else {
-          toast({
-            title: "Processing initiated",
-            description: "Book processing has started. This may take several minutes depending on the book size.",
-          });
-        }
+        toast({
+          title: "Processing initiated",
+          description: "Book processing has started. This may take several minutes depending on the book size.",
+        });
       } catch (processingError: any) {
         console.error("Error in PDF processing:", processingError);
         toast({
@@ -284,12 +239,12 @@ const BookUploader = ({ onUploadSuccess }: { onUploadSuccess?: () => void }) =>
       <CardContent className="pt-6">
         <div className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="file">Upload PDF Book (max 50MB)</Label>
+            <Label htmlFor="file">Upload PDF or EPUB Book (max 50MB)</Label>
             <div className="flex items-center gap-4">
               <Input
                 id="file-upload"
                 type="file"
-                accept=".pdf"
+                accept=".pdf,.epub,application/pdf,application/epub+zip"
                 onChange={handleFileChange}
                 className="hidden"
               />
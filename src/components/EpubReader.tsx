@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ePub, { Book, Contents, Location, Rendition } from 'epubjs';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReading } from '@/contexts/ReadingContext';
+import { useSelection } from '@/contexts/SelectionContext';
+import { useBookHighlights } from '@/hooks/useBookHighlights';
+import { useBookNotes } from '@/hooks/useBookNotes';
+import { createEpubAnchor } from '@/lib/highlightAnchors';
+import { highlightFill } from '@/lib/highlightColors';
+
+type ReaderTheme = 'light' | 'dark' | 'classic';
+
+interface EpubReaderProps {
+  bookId: string;
+  filePath: string;
+  initialLocation: string | null; // CFI saved in books.last_read_position
+  theme: ReaderTheme;
+}
+
+// Styles applied inside the EPUB's frame for each reading theme
+const EPUB_THEMES: Record<ReaderTheme, object> = {
+  light: { body: { color: '#111827', background: '#ffffff' } },
+  dark: { body: { color: '#f3f4f6', background: '#111827' }, a: { color: '#93c5fd' } },
+  classic: { body: { color: '#111827', background: '#f8f2e4', 'font-family': 'Georgia, serif' } },
+};
+
+/**
+ * Reflowable EPUB reader. A location in the book is a section of its spine, reported to
+ * ReadingContext as a page number (the first section is page 1), which is how sections are
+ * numbered in book_pages - so chat, quiz, the table of contents and highlights work as they
+ * do for PDFs. The exact reading position is saved as a CFI, and so are selections: highlights
+ * and notes are anchored by their CFI range and drawn with the rendition's annotations.
+ */
+const EpubReader: React.FC<EpubReaderProps> = ({ bookId, filePath, initialLocation, theme }) => {
+  const {
+    currentPage, setCurrentPage,
+    totalPages, setTotalPages,
+    setCurrentPageText, setIsLoadingText,
+    pendingScrollPage, clearPendingScroll
+  } = useReading();
+  const {
+    setSelectedText, setSelectionAnchor, setSelectionPosition, setPageNumber,
+    setIsSelectionToolbarVisible, clearSelection
+  } = useSelection();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { highlights } = useBookHighlights(bookId);
+  const { notes } = useBookNotes(bookId);
+
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const renditionRef = useRef<Rendition | null>(null);
+  const themeRef = useRef(theme);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Download, open and render the book
+  useEffect(() => {
+    let epub: Book | null = null;
+    let cancelled = false;
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const saveLocation = async (cfi: string) => {
+      if (!userId) return;
+      try {
+        await supabase
+          .from('books')
+          .update({ last_read_position: cfi })
+          .eq('id', bookId)
+          .eq('user_id', userId);
+      } catch (error) {
+        console.error('Error saving reading position:', error);
+      }
+    };
+
+    // Show the selection toolbar over text selected inside the book's frame
+    const showSelectionToolbar = (cfiRange: string, contents: Contents) => {
+      const selection = contents.window.getSelection();
+      const text = selection?.toString().trim();
+      if (!selection || !text || selection.rangeCount === 0) return;
+
+      const rect = selection.getRangeAt(0).getBoundingClientRect();
+      const frame = contents.window.frameElement?.getBoundingClientRect();
+
+      setSelectedText(text);
+      setSelectionAnchor(createEpubAnchor(text, cfiRange));
+      setPageNumber(contents.sectionIndex + 1);
+      setSelectionPosition({
+        x: (frame?.left ?? 0) + rect.left + rect.width / 2,
+        y: (frame?.top ?? 0) + rect.top,
+        width: rect.width,
+        height: rect.height
+      });
+      setIsSelectionToolbarVisible(true);
+    };
+
+    const openBook = async () => {
+      setIsReady(false);
+      setError(null);
+      setIsLoadingText(true);
+
+      try {
+        const { data, error } = await supabase.storage.from('books').download(filePath);
+        if (error) throw error;
+
+        const buffer = await data.arrayBuffer();
+        if (cancelled || !viewerRef.current) return;
+
+        epub = ePub(buffer);
+        await epub.ready;
+        if (cancelled || !viewerRef.current) return;
+
+        setTotalPages(epub.spine.last().index + 1);
+
+        const rendition = epub.renderTo(viewerRef.current, {
+          width: '100%',
+          height: '100%',
+          flow: 'scrolled-doc',
+          allowScriptedContent: false
+        });
+        renditionRef.current = rendition;
+
+        Object.entries(EPUB_THEMES).forEach(([name, styles]) => rendition.themes.register(name, styles));
+        rendition.themes.select(themeRef.current);
+
+        rendition.on('relocated', (location: Location) => {
+          setCurrentPage(location.start.index + 1);
+
+          // Debounce saving position
+          clearTimeout(saveTimer);
+          saveTimer = setTimeout(() => saveLocation(location.start.cfi), 1000);
+        });
+
+        // The text of the displayed section is the "page" text sent to the assistant
+        rendition.on('rendered', (_section: unknown, view: { contents?: Contents }) => {
+          const text = view.contents?.document.body?.innerText?.trim();
+          setCurrentPageText(text || `[Section ${(view.contents?.sectionIndex ?? 0) + 1} contains no text]`);
+          setIsLoadingText(false);
+        });
+
+        rendition.on('selected', (cfiRange: string, contents: Contents) => showSelectionToolbar(cfiRange, contents));
+
+        rendition.on('click', (_event: MouseEvent, contents: Contents) => {
+          if (contents.window.getSelection()?.isCollapsed) {
+            clearSelection();
+          }
+        });
+
+        await rendition.display(initialLocation?.startsWith('epubcfi(') ? initialLocation : undefined);
+        if (!cancelled) setIsReady(true);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error loading EPUB:', error);
+        setError('Failed to load the EPUB. Please try again later.');
+        setIsLoadingText(false);
+        toast({
+          title: "Error loading book",
+          description: error.message || "Could not load the EPUB",
+          variant: "destructive",
+        });
+      }
+    };
+
+    openBook();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(saveTimer);
+      renditionRef.current = null;
+      epub?.destroy();
+    };
+  }, [
+    bookId, filePath, initialLocation, userId, reloadCount,
+    setCurrentPage, setTotalPages, setCurrentPageText, setIsLoadingText,
+    setSelectedText, setSelectionAnchor, setSelectionPosition, setPageNumber,
+    setIsSelectionToolbarVisible, clearSelection
+  ]);
+
+  // Follow the reader's theme
+  useEffect(() => {
+    themeRef.current = theme;
+    renditionRef.current?.themes.select(theme);
+  }, [theme]);
+
+  // Draw saved highlights, and underline the text of saved notes, in their colors. Ones saved
+  // without a CFI range (imported, or made before EPUB anchors) can't be placed and are skipped.
+  useEffect(() => {
+    const rendition = renditionRef.current;
+    if (!isReady || !rendition) return;
+
+    const blendMode = theme === 'dark' ? 'screen' : 'multiply';
+    const drawn: { cfi: string; type: 'highlight' | 'underline' }[] = [];
+
+    for (const highlight of highlights) {
+      const cfi = highlight.anchor?.cfi;
+      if (!cfi) continue;
+      rendition.annotations.highlight(cfi, { id: highlight.id }, undefined, 'epub-highlight', {
+        fill: highlightFill(highlight.color),
+        'fill-opacity': '0.6',
+        'mix-blend-mode': blendMode
+      });
+      drawn.push({ cfi, type: 'highlight' });
+    }
+
+    for (const note of notes) {
+      const cfi = note.anchor?.cfi;
+      if (!cfi) continue;
+      rendition.annotations.underline(cfi, { id: note.id }, undefined, 'epub-note', {
+        stroke: highlightFill(note.color),
+        'stroke-opacity': '1',
+        'mix-blend-mode': blendMode
+      });
+      drawn.push({ cfi, type: 'underline' });
+    }
+
+    return () => {
+      // Nothing to remove once the book has been closed
+      if (renditionRef.current !== rendition) return;
+      drawn.forEach(({ cfi, type }) => rendition.annotations.remove(cfi, type));
+    };
+  }, [highlights, notes, isReady, theme]);
+
+  // Go to sections requested from other panels (e.g. citation links in chat)
+  useEffect(() => {
+    if (pendingScrollPage === null || !isReady || !renditionRef.current) return;
+    renditionRef.current.display(pendingScrollPage - 1);
+    clearPendingScroll();
+  }, [pendingScrollPage, isReady, clearPendingScroll]);
+
+  if (error) {
+    return (
+      <div className="text-center p-8 mt-8">
+        <div className="bg-red-100 dark:bg-red-900/30 rounded-lg p-4 max-w-md mx-auto">
+          <p className="text-red-600 dark:text-red-400 font-medium">{error}</p>
+          <Button variant="outline" className="mt-4" onClick={() => setReloadCount(count => count + 1)}>
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {!isReady && (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      )}
+
+      <div ref={viewerRef} className={`flex-1 min-h-0 max-w-3xl w-full mx-auto ${isReady ? '' : 'invisible'}`} />
+
+      {isReady && (
+        <div className="flex items-center justify-center gap-3 pt-3">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => renditionRef.current?.prev()}
+            disabled={currentPage <= 1}
+            title="Previous section"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Section {currentPage} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => renditionRef.current?.next()}
+            disabled={currentPage >= totalPages}
+            title="Next section"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpubReader;
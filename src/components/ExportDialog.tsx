@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAnnotationExport } from '@/hooks/useAnnotationExport';
+import { ExportFormat } from '@/types/export';
+
+interface ExportDialogProps {
+  book: { id: string; title: string } | null; // Null exports the whole library
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'One document, grouped by chapter or page, with quotes as blockquotes' },
+  { value: 'obsidian', label: 'Obsidian', description: 'A zipped folder with one note per book and frontmatter' },
+  { value: 'readwise', label: 'Readwise CSV', description: "For Readwise's CSV import; tags are kept as .tags in the note" },
+  { value: 'json', label: 'JSON', description: 'Everything, including anchors and tags, for backups and other tools' },
+];
+
+// Pick a format and download a book's or the library's highlights and notes
+const ExportDialog: React.FC<ExportDialogProps> = ({ book, open, onOpenChange }) => {
+  const { isExporting, exportAnnotations } = useAnnotationExport();
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+
+  const handleExport = async () => {
+    if (await exportAnnotations(book?.id ?? null, format)) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{book ? `Export "${book.title}"` : 'Export library'}</DialogTitle>
+          <DialogDescription>
+            Highlights and notes {book ? 'from this book' : 'from all your books'}, with their tags.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="py-2">
+          {EXPORT_FORMATS.map((option) => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`export-${option.value}`} className="mt-1" />
+              <Label htmlFor={`export-${option.value}`} className="font-normal">
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent mr-2" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -1,77 +1,63 @@
-import React from 'react';
-import { useReading } from '@/contexts/ReadingContext';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { useQuery } from '@tanstack/react-query';
+import React, { useEffect, useRef, useState } from 'react';
+import { createQuoteAnchor, locateQuote } from '@/lib/highlightAnchors';
+import { getTextLayer, measureRects, offsetsToRange, textLayerText } from '@/lib/textLayer';
+import { Highlight, NormalizedRect } from '@/types/highlight';
 
-// Interface for highlight data
-interface Highlight {
-  id: string;
-  user_id: string;
-  book_id: string;
-  page_number: number;
-  text: string; // The field name in the database
-  color: string;
-  created_at: string;
+interface HighlightedTextProps {
+  highlights: Highlight[]; // The page's highlights
+  textLayerVersion: number; // Changes each time the page's text layer is rendered
 }
 
-const HighlightedText = () => {
-  const { currentBookId, currentPage } = useReading();
-  const { user } = useAuth();
+// Draws a page's highlights over its canvas. Rendered as a child of react-pdf's Page, so the
+// overlay covers the page and rects stored as fractions of its size fit at any zoom.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ highlights, textLayerVersion }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [anchoredRects, setAnchoredRects] = useState<Record<string, NormalizedRect[]>>({});
 
-  // Fetch highlights for the current page
-  const { data: highlights = [] } = useQuery({
-    queryKey: ['highlights', currentBookId, currentPage],
-    queryFn: async () => {
-      if (!currentBookId || !user || !currentPage) {
-        return [];
-      }
-      
-      try {
-        // Query highlights directly
-        const { data, error } = await supabase
-          .from('highlights')
-          .select('*')
-          .eq('book_id', currentBookId)
-          .eq('user_id', user.id)
-          .eq('page_number', currentPage)
-          .order('created_at', { ascending: false });
-          
-        if (error) throw error;
-        
-        return data || [];
-      } catch (error) {
-        console.error('Error fetching highlights:', error);
-        return [];
+  // Once the text layer is rendered, find each highlight in it again: the stored offsets if
+  // they still hold the quote, otherwise a search for the quote
+  useEffect(() => {
+    const pageElement = overlayRef.current?.parentElement;
+    const layer = pageElement && getTextLayer(pageElement);
+    if (!layer || !textLayerVersion) return;
+
+    const pageText = textLayerText(layer);
+    const rects: Record<string, NormalizedRect[]> = {};
+
+    for (const highlight of highlights) {
+      const position = locateQuote(pageText, highlight.anchor ?? createQuoteAnchor(highlight.text));
+      const range = position && offsetsToRange(layer, position);
+      if (range) {
+        rects[highlight.id] = measureRects(range, pageElement);
       }
-    },
-    enabled: !!currentBookId && !!user && !!currentPage,
-  });
+    }
+
+    setAnchoredRects(rects);
+  }, [highlights, textLayerVersion]);
 
   if (!highlights.length) {
     return null;
   }
 
   return (
-    <div className="highlights-container">
-      {highlights.map((highlight) => (
-        <div
-          key={highlight.id}
-          className="highlight-marker"
-          style={{
-            backgroundColor: highlight.color,
-            // We'd need to calculate positions based on text ranges
-            // This is placeholder - actual implementation would need text rects
-            top: '0',
-            left: '0',
-            width: '100%',
-            height: '20px'
-          }}
-          title={highlight.text}
-        />
-      ))}
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none z-[1]" aria-hidden="true">
+      {highlights.flatMap((highlight) =>
+        // Until the text layer is ready (or if the quote can't be found) use the rects saved with the highlight
+        (anchoredRects[highlight.id] ?? highlight.anchor?.rects ?? []).map((rect, index) => (
+          <div
+            key={`${highlight.id}_${index}`}
+            className={`absolute rounded-sm mix-blend-multiply dark:mix-blend-screen opacity-60 ${highlight.color || 'bg-yellow-200'}`}
+            style={{
+              left: `${rect.x * 100}%`,
+              top: `${rect.y * 100}%`,
+              width: `${rect.width * 100}%`,
+              height: `${rect.height * 100}%`
+            }}
+          />
+        ))
+      )}
     </div>
   );
 };
 
-export default HighlightedText; 
\ No newline at end of file
+export default HighlightedText;
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { AlertCircle, FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ClippingsFile, useAnnotationImport } from '@/hooks/useAnnotationImport';
+import { IMPORT_SOURCE_LABELS } from '@/lib/annotationImport';
+import { ClippingGroup, ImportResult } from '@/types/import';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for exported books that shouldn't be imported
+const SKIP_BOOK = 'skip';
+
+/**
+ * Import highlights from Kindle, Apple Books or KOReader. After the file is read, each book in
+ * it is shown with the library book it was matched to, so wrong matches can be fixed and
+ * unmatched books assigned or skipped before anything is saved.
+ */
+const ImportDialog: React.FC<ImportDialogProps> = ({ open, onOpenChange }) => {
+  const { isReading, isImporting, readClippingsFile, importClippings } = useAnnotationImport();
+  const [file, setFile] = useState<ClippingsFile | null>(null);
+  const [groups, setGroups] = useState<ClippingGroup[]>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setGroups([]);
+    setResult(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const read = await readClippingsFile(selected);
+    if (read) {
+      setFile(read);
+      setGroups(read.groups);
+    }
+  };
+
+  const assignBook = (key: string, bookId: string) => {
+    setGroups(current => current.map(group =>
+      group.key === key ? { ...group, book_id: bookId === SKIP_BOOK ? null : bookId } : group
+    ));
+  };
+
+  const handleImport = async () => {
+    const imported = await importClippings(groups);
+    if (imported) setResult(imported);
+  };
+
+  const assignedCount = groups.filter(group => group.book_id).reduce((sum, group) => sum + group.clippings.length, 0);
+  const unmatchedCount = groups.filter(group => !group.book_id).length;
+
+  const renderChooseFile = () => (
+    <div className="space-y-4 py-2">
+      <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+        <li><span className="font-medium text-foreground">Kindle</span>: the "My Clippings.txt" file in the Kindle's documents folder</li>
+        <li><span className="font-medium text-foreground">Apple Books</span>: a text file of passages copied from Apple Books, each ending with "Excerpt From"</li>
+        <li><span className="font-medium text-foreground">KOReader</span>: a JSON file from the export highlights menu</li>
+      </ul>
+      <label className="flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-6 cursor-pointer hover:bg-muted/50">
+        {isReading ? (
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+        ) : (
+          <FileUp className="h-6 w-6 text-muted-foreground" />
+        )}
+        <span className="text-sm">{isReading ? 'Reading file...' : 'Choose a file'}</span>
+        <Input
+          type="file"
+          accept=".txt,.json,text/plain,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+          disabled={isReading}
+        />
+      </label>
+    </div>
+  );
+
+  const renderReview = () => (
+    <>
+      <p className="text-sm text-muted-foreground">
+        {file.groups.reduce((sum, group) => sum + group.clippings.length, 0)} highlights from {groups.length} book{groups.length === 1 ? '' : 's'} in
+        the {IMPORT_SOURCE_LABELS[file.source]} export{file.skipped ? `; ${file.skipped} bookmarks, repeats and notes without a highlight were left out` : ''}.
+        {unmatchedCount > 0 && ` ${unmatchedCount} book${unmatchedCount === 1 ? " wasn't" : "s weren't"} found in your library - pick a book or leave them out.`}
+      </p>
+      <div className="max-h-[50vh] overflow-y-auto pr-2">
+        <div className="space-y-2">
+          {groups.map((group) => (
+            <div key={group.key} className={`rounded-md border p-3 space-y-2 ${group.book_id ? '' : 'border-amber-300 dark:border-amber-700'}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{group.book_title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {group.book_author ? `${group.book_author} · ` : ''}{group.clippings.length} highlight{group.clippings.length === 1 ? '' : 's'}
+                  </p>
+                </div>
+                {!group.book_id && <Badge variant="outline" className="flex-shrink-0">Not matched</Badge>}
+              </div>
+              <p className="text-xs italic text-muted-foreground line-clamp-2">{group.clippings[0].text}</p>
+              <Select value={group.book_id ?? SKIP_BOOK} onValueChange={(value) => assignBook(group.key, value)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SKIP_BOOK}>Don't import</SelectItem>
+                  {file.books.map((book) => (
+                    <SelectItem key={book.id} value={book.id}>
+                      {book.title}{book.author ? ` - ${book.author}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+
+  const renderResult = () => (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Imported {result.imported} highlight{result.imported === 1 ? '' : 's'}
+        {result.duplicates ? `; ${result.duplicates} were already in your library` : ''}.
+      </p>
+      {result.unplaced.length > 0 && (
+        <>
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <AlertCircle className="h-4 w-4 text-amber-500" />
+            {result.unplaced.length} couldn't be found in the book's text and were saved without a page:
+          </p>
+          <div className="max-h-[40vh] overflow-y-auto pr-2">
+            <div className="space-y-2">
+              {result.unplaced.map((clipping, index) => (
+                <div key={index} className="rounded-md border p-2">
+                  <p className="text-xs text-muted-foreground">
+                    {clipping.book_title}{clipping.location ? ` · ${clipping.location}` : clipping.page ? ` · p. ${clipping.page}` : ''}
+                  </p>
+                  <p className="text-xs italic line-clamp-3">{clipping.text}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import highlights</DialogTitle>
+          <DialogDescription>
+            {result ? 'Import finished.' : file ? 'Check which book each set of highlights goes to.' : 'Bring in highlights from another reader.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? renderResult() : file ? renderReview() : renderChooseFile()}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : file ? (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || assignedCount === 0}>
+                {isImporting && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-foreground border-t-transparent mr-2" />
+                )}
+                Import {assignedCount} highlight{assignedCount === 1 ? '' : 's'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
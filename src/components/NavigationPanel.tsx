@@ -2,9 +2,14 @@ import React, { useEffect, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { Plus, Book, LogOut, AlertCircle, CheckCircle2, Loader2, MoreVertical, Zap } from 'lucide-react';
+import { Plus, Book, LogOut, AlertCircle, CheckCircle2, Loader2, MoreVertical, Zap, GraduationCap, RotateCcw, DatabaseZap, TriangleAlert, Tags, Download, FileUp } from 'lucide-react';
 import BookUploader from './BookUploader';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import TableOfContents from './TableOfContents';
+import TagBrowser from './TagBrowser';
+import ExportDialog from './ExportDialog';
+import ImportDialog from './ImportDialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
@@ -24,6 +29,10 @@ type Book = {
   cover_image: string | null;
   is_processed?: boolean;
   processing_status?: string | null;
+  total_pages?: number | null;
+  comprehension_percent?: number | null;
+  missing_embeddings?: number;
+  embedding_models?: string[];
 };
 
 const NavigationPanel = () => {
@@ -34,6 +43,14 @@ const NavigationPanel = () => {
   const { user, signOut } = useAuth();
   const [isProcessingBook, setIsProcessingBook] = useState(false);
   const [bookDetails, setBookDetails] = useState<Book | null>(null);
+  const [reprocessBook, setReprocessBook] = useState<Book | null>(null);
+  const [reprocessFromPage, setReprocessFromPage] = useState('1');
+  const [embeddingModel, setEmbeddingModel] = useState<string | null>(null);
+  const [queryEmbeddingModels, setQueryEmbeddingModels] = useState<string[]>([]);
+  const [tagsOpen, setTagsOpen] = useState(false);
+  // The book whose annotations are being exported; 'library' exports every book
+  const [exportTarget, setExportTarget] = useState<Book | 'library' | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Declare fetchBooks outside of useEffect
   const fetchBooks = useCallback(async () => {
@@ -44,12 +61,36 @@ const NavigationPanel = () => {
       // First, try to get books with minimal fields we know exist
         const { data, error } = await supabase
           .from('books')
-          .select('id, title, author, cover_image')
+          .select('id, title, author, cover_image, total_pages')
           .eq('user_id', user.id)
           .order('created_at', { ascending: false });
         
         if (error) throw error;
         
+      // Load per-book quiz scores; a failure here shouldn't hide the library
+      const { data: scoreData, error: scoreError } = await supabase
+        .from('book_quiz_scores')
+        .select('book_id, score_percent')
+        .eq('user_id', user.id);
+      
+      if (scoreError) {
+        console.error('Error fetching quiz scores:', scoreError);
+      }
+      
+      const scoresByBook = new Map((scoreData || []).map(score => [score.book_id, score.score_percent]));
+      
+      // Count chunks still waiting for an embedding, so they can be backfilled
+      const { data: embeddingData, error: embeddingError } = await supabase
+        .from('book_embedding_status')
+        .select('book_id, missing_embeddings, embedding_models')
+        .eq('user_id', user.id);
+      
+      if (embeddingError) {
+        console.error('Error fetching embedding status:', embeddingError);
+      }
+      
+      const embeddingByBook = new Map((embeddingData || []).map(status => [status.book_id, status]));
+        
       // Map the returned data to our Book type, adding processing fields if they exist
       const mappedBooks = (data || []).map(book => {
         return {
@@ -57,9 +98,13 @@ const NavigationPanel = () => {
           title: book.title,
           author: book.author,
           cover_image: book.cover_image,
+          total_pages: book.total_pages,
           // Cast to any to access potential fields that might not be in the type definition
           is_processed: (book as any).is_processed,
-          processing_status: (book as any).processing_status
+          processing_status: (book as any).processing_status,
+          comprehension_percent: scoresByBook.get(book.id) ?? null,
+          missing_embeddings: embeddingByBook.get(book.id)?.missing_embeddings ?? 0,
+          embedding_models: embeddingByBook.get(book.id)?.embedding_models ?? []
         } as Book;
       });
       
@@ -85,6 +130,20 @@ const NavigationPanel = () => {
       }
   }, [user]);
 
+  // Look up the embedding model new embeddings use, to spot books embedded with a different one,
+  // and the models searches can still embed queries with
+  useEffect(() => {
+    if (!user) return;
+    
+    supabase.functions.invoke('ai-assistant', { body: { endpoint: 'embedding-config' } })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        setEmbeddingModel(data?.embedding_model || null);
+        setQueryEmbeddingModels(data?.query_embedding_models || []);
+      })
+      .catch(error => console.error('Error fetching embedding config:', error));
+  }, [user]);
+
   // Use the fetchBooks function in useEffect
   useEffect(() => {
     fetchBooks();
@@ -166,6 +225,9 @@ const NavigationPanel = () => {
             </TooltipTrigger>
             <TooltipContent>
               <p>Book is processed with AI capabilities</p>
+              {!!book.missing_embeddings && (
+                <p>{book.missing_embeddings} passages are still missing embeddings</p>
+              )}
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
@@ -230,8 +292,67 @@ const NavigationPanel = () => {
     );
   };
 
+  // Models of a book's chunks other than the current one
+  const staleEmbeddingModels = (book: Book) =>
+    embeddingModel ? (book.embedding_models || []).filter(model => model !== embeddingModel) : [];
+
+  // A book is stale when some of its chunks were embedded with another model
+  const hasStaleEmbeddings = (book: Book) => staleEmbeddingModels(book).length > 0;
+
+  // Stale chunks keep vector search while the function can still embed queries with their model
+  const isStaleStillSearchable = (book: Book) =>
+    staleEmbeddingModels(book).every(model => queryEmbeddingModels.includes(model));
+
+  // Function to render a warning for books whose embeddings need re-embedding
+  const renderEmbeddingWarning = (book: Book) => {
+    if (!hasStaleEmbeddings(book)) {
+      return null;
+    }
+    
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger>
+            <TriangleAlert className="h-4 w-4 text-amber-500" />
+          </TooltipTrigger>
+          <TooltipContent>
+            {isStaleStillSearchable(book) ? (
+              <p>Embedded with {staleEmbeddingModels(book).join(', ')}, which searches keep using for now.</p>
+            ) : (
+              <p>Embedded with {staleEmbeddingModels(book).join(', ')}, which searches can no longer use; only full-text search finds those passages.</p>
+            )}
+            <p>Re-embed the book from its menu to move it to {embeddingModel}.</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+  };
+
+  // Function to render the comprehension score from answered quiz questions
+  const renderComprehension = (book: Book) => {
+    if (book.comprehension_percent === undefined || book.comprehension_percent === null) {
+      return null;
+    }
+    
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="flex items-center text-xs text-muted-foreground">
+              <GraduationCap className="h-3 w-3 mr-1" />
+              {book.comprehension_percent}%
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Comprehension score from your quiz answers</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+  };
+
   // Add a new function to manually process a book
-  const processBook = async (bookId: string) => {
+  const processBook = async (bookId: string, fromPage = 1) => {
     try {
       setIsProcessingBook(true);
       
@@ -244,93 +365,27 @@ const NavigationPanel = () => {
       
       if (bookError) throw bookError;
       
-      // Update status to indicate processing is starting
-      await supabase
-        .from('books')
-        .update({ 
-          is_processed: false,
-          processing_status: 'Queued for processing' 
-        })
-        .eq('id', bookId);
-      
-      // Add improved retry logic for more reliable processing
-      let retryCount = 0;
-      const maxRetries = 3;
-      let processingError;
-      
-      while (retryCount <= maxRetries) {
-        try {
-          console.log(`Attempting to process book (attempt ${retryCount + 1}/${maxRetries + 1})`);
-          
-          // Small delay to ensure DB consistency
-          if (retryCount === 0) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-          
-          // Trigger processing function with the endpoint parameter
-          const response = await supabase.functions.invoke('ai-assistant', {
-            body: {
-              book_id: bookId,
-              user_id: user?.id,
-              file_path: book.file_path,
-              endpoint: 'extract-pdf-text' // Include endpoint in body for extraction
-            }
-          });
-          
-          if (response.error) {
-            throw new Error(response.error.message || "Function invocation failed");
-          }
-          
-          // Check for success field in the response data
-          if (!response.data || response.data.success === false) {
-            const errorMessage = response.data?.message || response.data?.error || "Unknown processing error";
-            console.error('Processing error from Edge Function:', errorMessage);
-            throw new Error(errorMessage);
-          }
-          
-          console.log('Processing initiated successfully:', response.data);
-          processingError = null;
-          break; // Success, exit retry loop
-        } catch (error: any) {
-          processingError = error;
-          console.error(`Error triggering PDF processing (attempt ${retryCount + 1}):`, error);
-          
-          // Check for specific error that might indicate a PDF parsing issue
-          if (error.message && (
-            error.message.includes("PDF parsing failed") || 
-            error.message.includes("PDF processing failed"))
-          ) {
-            console.error("PDF parsing error detected, may need different approach:", error);
-            retryCount += 2; // Skip ahead in retries since this is likely a content issue
-          } else {
-            retryCount++;
-          }
-          
-          if (retryCount <= maxRetries) {
-            // Wait before retrying with exponential backoff (2s, 4s, 8s)
-            const backoffDelay = 2000 * Math.pow(2, retryCount - 1);
-            console.log(`Waiting ${backoffDelay}ms before next attempt...`);
-            await new Promise(resolve => setTimeout(resolve, backoffDelay));
-          }
+      // Queue the book for processing; asking again while a job is queued or running reuses that job
+      const response = await supabase.functions.invoke('ai-assistant', {
+        body: {
+          book_id: bookId,
+          user_id: user?.id,
+          file_path: book.file_path,
+          from_page: fromPage,
+          endpoint: 'extract-pdf-text'
         }
+      });
+      
+      if (response.error) {
+        throw new Error(response.error.message || "Function invocation failed");
       }
       
-      if (processingError) {
-        // Try to get more detailed error from the book status
-        const { data: updatedBook } = await supabase
-          .from('books')
-          .select('processing_status')
-          .eq('id', bookId)
-          .single();
-        
-        let errorMessage = processingError.message || "Unknown error";
-        if (updatedBook?.processing_status?.includes("Error:")) {
-          errorMessage = updatedBook.processing_status;
-        }
-        
-        throw new Error(errorMessage);
+      if (!response.data || response.data.success === false) {
+        throw new Error(response.data?.error || "Unknown processing error");
       }
       
+      console.log('Book queued for processing, job:', response.data.job_id);
+      
       toast({
         title: "Processing Started",
         description: "Book processing has been initiated. This may take a few minutes.",
@@ -371,6 +426,92 @@ const NavigationPanel = () => {
     }
   };
 
+  // Ask the edge function to embed chunks that were stored without an embedding
+  const backfillEmbeddings = async (book: Book) => {
+    try {
+      const response = await supabase.functions.invoke('ai-assistant', {
+        body: {
+          book_id: book.id,
+          endpoint: 'backfill-embeddings'
+        }
+      });
+      
+      if (response.error) {
+        throw new Error(response.error.message || "Function invocation failed");
+      }
+      
+      toast({
+        title: "Filling in embeddings",
+        description: `${response.data?.missing_embeddings ?? book.missing_embeddings} passages are being embedded in the background.`,
+      });
+    } catch (error) {
+      console.error('Error starting embedding backfill:', error);
+      toast({
+        title: "Backfill Failed",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Queue a job that moves the book's embeddings to the current model; the book stays usable meanwhile
+  const reembedBook = async (book: Book) => {
+    try {
+      const { data: bookData, error: bookError } = await supabase
+        .from('books')
+        .select('file_path')
+        .eq('id', book.id)
+        .single();
+      
+      if (bookError) throw bookError;
+      
+      const response = await supabase.functions.invoke('ai-assistant', {
+        body: {
+          book_id: book.id,
+          user_id: user?.id,
+          file_path: bookData.file_path,
+          endpoint: 'reembed'
+        }
+      });
+      
+      if (response.error) {
+        throw new Error(response.error.message || "Function invocation failed");
+      }
+      
+      if (!response.data || response.data.success === false) {
+        throw new Error(response.data?.error || "Unknown re-embedding error");
+      }
+      
+      toast({
+        title: response.data.job_type === 'reembed' ? "Re-embedding Started" : "Book Is Busy",
+        description: response.data.job_type === 'reembed'
+          ? `"${book.title}" is being re-embedded with ${embeddingModel}. ${isStaleStillSearchable(book)
+            ? `Searches keep using ${staleEmbeddingModels(book).join(', ')} until the new embeddings are all ready.`
+            : 'Until it finishes, only full-text search finds passages embedded with the old model.'}`
+          : "The book is still being processed. Try re-embedding once it finishes.",
+      });
+    } catch (error) {
+      console.error('Error starting re-embedding:', error);
+      toast({
+        title: "Re-embedding Failed",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Re-run processing from the chosen page; unchanged pages are skipped by the edge function
+  const handleReprocessSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reprocessBook) return;
+
+    const fromPage = parseInt(reprocessFromPage, 10);
+    if (!fromPage || fromPage < 1) return;
+
+    processBook(reprocessBook.id, fromPage);
+    setReprocessBook(null);
+  };
+
   return (
     <div className="h-full flex flex-col bg-card">
       <div className="p-4 flex items-center justify-between border-b">
@@ -405,7 +546,8 @@ const NavigationPanel = () => {
         ) : (
           <div className="space-y-2">
             {books.map((book) => (
-              <div key={book.id} className="flex items-center">
+              <div key={book.id}>
+              <div className="flex items-center">
               <Button
                 variant={selectedBookId === book.id ? "secondary" : "ghost"}
                 className="w-full justify-start font-normal h-auto py-2 px-3"
@@ -421,7 +563,9 @@ const NavigationPanel = () => {
                   )}
                 </div>
                     
-                    <div className="ml-2 flex-shrink-0">
+                    <div className="ml-2 flex-shrink-0 flex items-center space-x-2">
+                      {renderComprehension(book)}
+                      {renderEmbeddingWarning(book)}
                       {renderProcessingStatus(book)}
                     </div>
                   </div>
@@ -445,16 +589,110 @@ const NavigationPanel = () => {
                         Process Book Content
                       </DropdownMenuItem>
                     )}
+                    <DropdownMenuItem
+                      onClick={() => {
+                        setReprocessFromPage('1');
+                        setReprocessBook(book);
+                      }}
+                      disabled={isProcessingBook}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Reprocess from page...
+                    </DropdownMenuItem>
+                    {!!book.missing_embeddings && (
+                      <DropdownMenuItem onClick={() => backfillEmbeddings(book)}>
+                        <DatabaseZap className="mr-2 h-4 w-4" />
+                        Fill {book.missing_embeddings} missing embeddings
+                      </DropdownMenuItem>
+                    )}
+                    {hasStaleEmbeddings(book) && (
+                      <DropdownMenuItem onClick={() => reembedBook(book)}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Re-embed with {embeddingModel}
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => setExportTarget(book)}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export highlights & notes...
+                    </DropdownMenuItem>
                     {/* Add additional menu items here */}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
+              
+              {selectedBookId === book.id && (
+                <TableOfContents bookId={book.id} isProcessed={book.is_processed} />
+              )}
+              </div>
             ))}
           </div>
         )}
       </ScrollArea>
       
-      <div className="p-4 border-t mt-auto">
+      <Dialog open={!!reprocessBook} onOpenChange={(open) => !open && setReprocessBook(null)}>
+        <DialogContent>
+          <form onSubmit={handleReprocessSubmit}>
+            <DialogHeader>
+              <DialogTitle>Reprocess "{reprocessBook?.title}"</DialogTitle>
+              <DialogDescription>
+                Text and embeddings are rebuilt from this page onwards. Pages whose text hasn't changed are skipped.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4">
+              <Input
+                type="number"
+                min={1}
+                max={reprocessBook?.total_pages || undefined}
+                value={reprocessFromPage}
+                onChange={(e) => setReprocessFromPage(e.target.value)}
+                aria-label="Start page"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReprocessBook(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!parseInt(reprocessFromPage, 10)}>
+                Reprocess
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+      
+      <ExportDialog
+        book={exportTarget === 'library' ? null : exportTarget}
+        open={exportTarget !== null}
+        onOpenChange={(open) => !open && setExportTarget(null)}
+      />
+      <ImportDialog open={importOpen} onOpenChange={setImportOpen} />
+      
+      <div className="p-4 border-t mt-auto space-y-2">
+        <Dialog open={tagsOpen} onOpenChange={setTagsOpen}>
+          <DialogTrigger asChild>
+            <Button variant="ghost" className="w-full">
+              <Tags className="h-4 w-4 mr-2" />
+              Tags
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Tags</DialogTitle>
+              <DialogDescription>
+                Highlights and notes from all your books, by tag.
+              </DialogDescription>
+            </DialogHeader>
+            <TagBrowser onNavigate={() => setTagsOpen(false)} />
+          </DialogContent>
+        </Dialog>
+        <Button variant="ghost" className="w-full" onClick={() => setExportTarget('library')}>
+          <Download className="h-4 w-4 mr-2" />
+          Export library
+        </Button>
+        <Button variant="ghost" className="w-full" onClick={() => setImportOpen(true)}>
+          <FileUp className="h-4 w-4 mr-2" />
+          Import highlights
+        </Button>
         <Button 
           variant="outline" 
           className="w-full"
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { ChevronLeft, ChevronRight, Sun, Moon, BookOpen } from 'lucide-react';
@@ -11,7 +11,15 @@ import { toast } from '@/components/ui/use-toast';
 import { useReading } from '@/contexts/ReadingContext';
 import { useSelection } from '@/contexts/SelectionContext';
 import SelectionToolbar from './SelectionToolbar';
+import EpubReader from './EpubReader';
+import HighlightedText from './HighlightedText';
 import { usePdfWorker } from '@/hooks/usePdfWorker';
+import { needsOcr, readScannedPageOnce, recognizePage } from '@/lib/pageOcr';
+import { bookFormat } from '@/lib/bookFormat';
+import { useBookHighlights } from '@/hooks/useBookHighlights';
+import { Highlight } from '@/types/highlight';
+
+const NO_HIGHLIGHTS: Highlight[] = [];
 
 const ReadingPanel = () => {
   // Use the ReadingContext
@@ -22,7 +30,8 @@ const ReadingPanel = () => {
     isLoadingText, setIsLoadingText,
     currentBookId, setCurrentBookId,
     currentBookTitle, setCurrentBookTitle,
-    workerInitialized
+    workerInitialized,
+    pendingScrollPage, clearPendingScroll
   } = useReading();
 
   // Initialize PDF worker
@@ -47,6 +56,18 @@ const ReadingPanel = () => {
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [retryCount, setRetryCount] = useState(0);
+  const [textLayerVersions, setTextLayerVersions] = useState<Record<number, number>>({});
+  const { highlights } = useBookHighlights(currentBookId);
+
+  // Highlights drawn over each page
+  const highlightsByPage = useMemo(() => {
+    const byPage: Record<number, Highlight[]> = {};
+    for (const highlight of highlights) {
+      if (!highlight.page_number) continue;
+      byPage[highlight.page_number] = [...(byPage[highlight.page_number] || []), highlight];
+    }
+    return byPage;
+  }, [highlights]);
 
   // Reference to the container for additional event listeners
   const containerRef = useRef<HTMLDivElement>(null);
@@ -124,7 +145,9 @@ const ReadingPanel = () => {
     fetchCurrentBook();
   }, [user, setCurrentPage, setCurrentBookId, setCurrentBookTitle, workerInitialized]);
 
-  // Save reading position when changing pages
+  const isEpub = selectedBook ? bookFormat(selectedBook) === 'epub' : false;
+
+  // Save reading position when changing pages (EpubReader saves its own position)
   useEffect(() => {
     const saveReadingPosition = async () => {
       if (selectedBook && user) {
@@ -142,13 +165,13 @@ const ReadingPanel = () => {
 
     // Debounce saving position
     const timer = setTimeout(() => {
-      if (currentPage > 0 && selectedBook) {
+      if (currentPage > 0 && selectedBook && !isEpub) {
         saveReadingPosition();
       }
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [currentPage, selectedBook, user]);
+  }, [currentPage, selectedBook, isEpub, user]);
 
   // Update selection context with current page when page changes
   useEffect(() => {
@@ -176,6 +199,9 @@ const ReadingPanel = () => {
   const loadBook = async (book: any) => {
     if (!book || !book.file_path) return;
     
+    // EPUBs are downloaded and rendered by EpubReader
+    if (bookFormat(book) === 'epub') return;
+    
     // Reset states
     setIsLoadingText(true);
     setCurrentPageText('');
@@ -298,7 +324,7 @@ const ReadingPanel = () => {
   }, [totalPages, pdfUrl, currentPage, setCurrentPage, isSelectionToolbarVisible, isDocumentLoaded]);
 
   // Scroll to the selected page
-  const scrollToPage = (pageNum: number) => {
+  const scrollToPage = useCallback((pageNum: number) => {
     const pageElement = document.getElementById(`page_${pageNum}`);
     if (pageElement) {
       isProgrammaticScroll.current = true;
@@ -307,7 +333,7 @@ const ReadingPanel = () => {
         isProgrammaticScroll.current = false;
       }, 700); // Allow time for scroll to finish
     }
-  };
+  }, []);
 
   // On initial load, scroll to last viewed page
   useEffect(() => {
@@ -319,6 +345,13 @@ const ReadingPanel = () => {
     }
   }, [pdfUrl, isDocumentLoaded]);
 
+  // Scroll to pages requested from other panels (e.g. citation links in chat)
+  useEffect(() => {
+    if (pendingScrollPage === null || !isDocumentLoaded) return;
+    scrollToPage(pendingScrollPage);
+    clearPendingScroll();
+  }, [pendingScrollPage, isDocumentLoaded, scrollToPage, clearPendingScroll]);
+
   // Update handlePageChange to use scrollToPage
   const handlePageChange = (newPage: number) => {
     if (newPage >= 1 && newPage <= totalPages) {
@@ -327,6 +360,62 @@ const ReadingPanel = () => {
     }
   };
 
+  // Counts text extractions so a slow OCR result for a page the reader has left is dropped
+  const textRequestRef = useRef(0);
+
+  // OCR a scanned page, preferring the text stored when the book was processed. Text read
+  // here is stored in book_pages so chat, quiz and search can use the page too.
+  const recognizeScannedPage = async (bookId: string, page) => {
+    const { data: storedPage, error: storedError } = await supabase
+      .from('book_pages')
+      .select('content')
+      .eq('book_id', bookId)
+      .eq('page_number', page.pageNumber)
+      .maybeSingle();
+
+    if (storedError) {
+      console.error('Error loading stored page text:', storedError);
+    } else if (storedPage?.content && !needsOcr(storedPage.content)) {
+      return storedPage.content;
+    }
+
+    const ocr = await recognizePage(page);
+    console.log(`OCR read page ${page.pageNumber} with ${Math.round(ocr.confidence)}% confidence`);
+
+    if (ocr.text) {
+      supabase.functions.invoke('ai-assistant', {
+        body: {
+          endpoint: 'store-page-ocr',
+          bookId,
+          pageNumber: page.pageNumber,
+          text: ocr.text,
+          confidence: ocr.confidence
+        }
+      }).then(({ error }) => {
+        if (error) console.error('Error storing OCR text for page:', error);
+      });
+    }
+
+    return ocr.text;
+  };
+
+  // Read a page's text layer, falling back to OCR when the page is a scanned image
+  const readPageText = async (page) => {
+    const textContent = await page.getTextContent();
+    const text = textContent.items.map((item: any) => item.str).join(' ');
+    if (!needsOcr(text)) return text;
+
+    try {
+      const ocrText = currentBookId
+        ? await readScannedPageOnce(currentBookId, page.pageNumber, () => recognizeScannedPage(currentBookId, page))
+        : (await recognizePage(page)).text;
+      return ocrText || text;
+    } catch (error) {
+      console.error('Error running OCR on page:', error);
+      return text;
+    }
+  };
+
   const extractTextFromPage = async () => {
     if (!pdfUrl || !isDocumentLoaded) {
       setCurrentPageText('');
@@ -334,6 +423,7 @@ const ReadingPanel = () => {
       return;
     }
     
+    const requestId = ++textRequestRef.current;
     setIsLoadingText(true);
     
     try {
@@ -361,8 +451,8 @@ const ReadingPanel = () => {
           }
           
           const page = await pdf.getPage(currentPage);
-          const textContent = await page.getTextContent();
-          const text = textContent.items.map((item: any) => item.str).join(' ');
+          const text = await readPageText(page);
+          if (requestId !== textRequestRef.current) return;
           setCurrentPageText(text || `[Page ${currentPage} contains no extractable text]`);
         } catch (error) {
           console.error('Error loading PDF or getting page text:', error);
@@ -376,8 +466,8 @@ const ReadingPanel = () => {
           }
           
           const page = await pdfDocument.getPage(currentPage);
-          const textContent = await page.getTextContent();
-          const text = textContent.items.map((item: any) => item.str).join(' ');
+          const text = await readPageText(page);
+          if (requestId !== textRequestRef.current) return;
           setCurrentPageText(text || `[Page ${currentPage} contains no extractable text]`);
         } catch (error) {
           console.error('Error getting page text:', error);
@@ -393,7 +483,9 @@ const ReadingPanel = () => {
         variant: "destructive",
       });
     } finally {
-      setIsLoadingText(false);
+      if (requestId === textRequestRef.current) {
+        setIsLoadingText(false);
+      }
     }
   };
 
@@ -470,9 +562,16 @@ const ReadingPanel = () => {
           <div className="flex justify-center items-center h-full">
             <div className="text-center">
               <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary mx-auto mb-4"></div>
-              <p>Initializing PDF reader...</p>
+              <p>Initializing reader...</p>
             </div>
           </div>
+        ) : selectedBook && isEpub ? (
+          <EpubReader
+            bookId={selectedBook.id}
+            filePath={selectedBook.file_path}
+            initialLocation={selectedBook.last_read_position}
+            theme={theme}
+          />
         ) : selectedBook && pdfUrl ? (
           <div id="pdf-container" className="flex justify-center">
             {isDocumentLoading && !isDocumentLoaded && !pdfError && (
@@ -545,6 +644,9 @@ const ReadingPanel = () => {
                         onRenderError={(error) => {
                           console.error(`Error rendering page ${index + 1}:`, error);
                         }}
+                        onRenderTextLayerSuccess={() => {
+                          setTextLayerVersions(versions => ({ ...versions, [index + 1]: (versions[index + 1] || 0) + 1 }));
+                        }}
                         width={Math.min(window.innerWidth * 0.9, 800)}
                         height={null}
                         data-page-number={index + 1}
@@ -553,7 +655,12 @@ const ReadingPanel = () => {
                             <p>Error loading page {index + 1}</p>
                           </div>
                         }
-                      />
+                      >
+                        <HighlightedText
+                          highlights={highlightsByPage[index + 1] || NO_HIGHLIGHTS}
+                          textLayerVersion={textLayerVersions[index + 1] || 0}
+                        />
+                      </Page>
                     </div>
                   </div>
                 ))}
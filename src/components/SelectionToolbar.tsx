@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
 import { Lightbulb, PenTool, Highlighter, X, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useSelection } from '@/contexts/SelectionContext';
@@ -10,19 +12,19 @@ import { Input } from '@/components/ui/input';
 import { toast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-
-// Define highlight color options
-const HIGHLIGHT_COLORS = [
-  { name: 'Yellow', value: 'bg-yellow-200 dark:bg-yellow-800/50', class: 'bg-yellow-200 dark:bg-yellow-800' },
-  { name: 'Green', value: 'bg-green-200 dark:bg-green-800/50', class: 'bg-green-200 dark:bg-green-800' },
-  { name: 'Blue', value: 'bg-blue-200 dark:bg-blue-800/50', class: 'bg-blue-200 dark:bg-blue-800' },
-  { name: 'Purple', value: 'bg-purple-200 dark:bg-purple-800/50', class: 'bg-purple-200 dark:bg-purple-800' },
-  { name: 'Pink', value: 'bg-pink-200 dark:bg-pink-800/50', class: 'bg-pink-200 dark:bg-pink-800' },
-];
+import { useQueryClient } from '@tanstack/react-query';
+import { highlightsQueryKey } from '@/hooks/useBookHighlights';
+import { createQuoteAnchor, serializeHighlightAnchor } from '@/lib/highlightAnchors';
+import { HIGHLIGHT_COLORS } from '@/lib/highlightColors';
+import { notesQueryKey } from '@/hooks/useBookNotes';
+import { useTags } from '@/hooks/useTags';
+import TagPicker from '@/components/TagPicker';
+import { Tag } from '@/types/tag';
 
 const SelectionToolbar = () => {
   const { 
     selectedText, 
+    selectionAnchor,
     selectionPosition, 
     isSelectionToolbarVisible, 
     clearSelection,
@@ -30,6 +32,8 @@ const SelectionToolbar = () => {
   } = useSelection();
   const { currentBookId, currentPage } = useReading();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { setHighlightTags, setNoteTags } = useTags();
   
   // States for each feature
   const [isExplainDialogOpen, setIsExplainDialogOpen] = useState(false);
@@ -42,6 +46,7 @@ const SelectionToolbar = () => {
   const [isSavingNote, setIsSavingNote] = useState(false);
   const [selectedColor, setSelectedColor] = useState(HIGHLIGHT_COLORS[0].value);
   const [isSavingHighlight, setIsSavingHighlight] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<Tag[]>([]);
 
   // Hide toolbar if no selection
   if (!isSelectionToolbarVisible || !selectionPosition) {
@@ -74,7 +79,7 @@ const SelectionToolbar = () => {
           mode: "explainSelection",
           user: user,
           bookId: currentBookId,
-          pageNumber: currentPage,
+          pageNumber: pageNumber || currentPage,
           selectedText: selectedText
         }
       });
@@ -107,6 +112,7 @@ const SelectionToolbar = () => {
     setIsNoteDialogOpen(true);
     setNoteTitle('');
     setNoteContent('');
+    setSelectedTags([]);
   };
 
   // Save note to database
@@ -123,46 +129,28 @@ const SelectionToolbar = () => {
     setIsSavingNote(true);
     
     try {
-      // First create a conversation if it doesn't exist
-      const { data: conversation, error: convError } = await supabase
-        .from('ai_conversations')
-        .select('id')
-        .eq('user_id', user.id)
-        .eq('book_id', currentBookId)
-        .single();
-
-      if (convError && convError.code !== 'PGRST116') { // PGRST116 is "no rows returned"
-        throw convError;
-      }
-
-      let conversationId = conversation?.id;
-      
-      if (!conversationId) {
-        // Create new conversation
-        const { data: newConv, error: createError } = await supabase
-          .from('ai_conversations')
+      const { data: note, error } = await supabase
+        .from('notes')
         .insert({
           user_id: user.id,
           book_id: currentBookId,
-            title: noteTitle
-          })
-          .select('id')
-          .single();
-
-        if (createError) throw createError;
-        conversationId = newConv.id;
-      }
-
-      // Create the note as an AI message
-      const { error: msgError } = await supabase
-        .from('ai_messages')
-        .insert({
-          conversation_id: conversationId,
-          role: 'user',
-          content: `${noteTitle}\n\n${noteContent}\n\nSelected text: ${selectedText}`
-        });
+          page_number: pageNumber || currentPage,
+          selected_text: selectedText,
+          title: noteTitle,
+          content: noteContent || null,
+          color: selectedColor,
+          position: serializeHighlightAnchor(selectionAnchor ?? createQuoteAnchor(selectedText))
+        })
+        .select('id')
+        .single();
         
-      if (msgError) throw msgError;
+      if (error) throw error;
+      
+      if (selectedTags.length > 0) {
+        await setNoteTags(note.id, selectedTags.map(tag => tag.id));
+      }
+      
+      queryClient.invalidateQueries({ queryKey: notesQueryKey(currentBookId) });
       
       toast({
         title: "Note saved",
@@ -187,6 +175,7 @@ const SelectionToolbar = () => {
 
   // Handle highlight button click
   const handleHighlight = () => {
+    setSelectedTags([]);
     setIsHighlightPopoverOpen(true);
   };
 
@@ -198,18 +187,27 @@ const SelectionToolbar = () => {
     
     try {
       // Create new highlight record directly
-      const { error } = await supabase
+      const { data: highlight, error } = await supabase
         .from('highlights')
         .insert({
           user_id: user.id,
           book_id: currentBookId,
-          page_number: currentPage,
+          page_number: pageNumber || currentPage,
           text: selectedText, // Match the database column name
-          color: color
-        });
+          color: color,
+          position: serializeHighlightAnchor(selectionAnchor ?? createQuoteAnchor(selectedText))
+        })
+        .select('id')
+        .single();
         
       if (error) throw error;
       
+      if (selectedTags.length > 0) {
+        await setHighlightTags(highlight.id, selectedTags.map(tag => tag.id));
+      }
+      
+      queryClient.invalidateQueries({ queryKey: highlightsQueryKey(currentBookId) });
+      
       toast({
         title: "Text highlighted",
         description: "Highlight saved successfully.",
@@ -276,8 +274,10 @@ const SelectionToolbar = () => {
               <Highlighter className="h-4 w-4" />
             </Button>
           </PopoverTrigger>
-          <PopoverContent className="w-56 p-2" align="center">
+          <PopoverContent className="w-72 p-2" align="center">
             <div className="space-y-2">
+              <p className="text-sm font-medium">Tags</p>
+              <TagPicker selectedTags={selectedTags} onChange={setSelectedTags} />
               <p className="text-sm font-medium">Select highlight color</p>
               <div className="flex flex-wrap gap-2">
                 {HIGHLIGHT_COLORS.map((color) => (
@@ -313,7 +313,7 @@ const SelectionToolbar = () => {
                   <p className="italic">{selectedText}</p>
                 </div>
                 <div className="prose prose-sm dark:prose-invert">
-                  {explanation}
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{explanation}</ReactMarkdown>
                 </div>
               </div>
             )}
@@ -363,6 +363,10 @@ const SelectionToolbar = () => {
                 rows={4}
               />
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Tags</label>
+              <TagPicker selectedTags={selectedTags} onChange={setSelectedTags} />
+            </div>
             <div className="space-y-2">
               <label className="text-sm font-medium">Color</label>
               <div className="flex flex-wrap gap-2">
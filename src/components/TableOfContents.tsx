@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, ListTree } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useReading } from '@/contexts/ReadingContext';
+import { useBookSections } from '@/hooks/useBookSections';
+import { buildSectionTree, findSectionAtPage } from '@/lib/bookSections';
+import { BookSectionNode } from '@/types/section';
+
+interface TableOfContentsProps {
+  bookId: string;
+  isProcessed?: boolean;
+}
+
+const TableOfContents: React.FC<TableOfContentsProps> = ({ bookId, isProcessed }) => {
+  const { sections, isLoading, refresh } = useBookSections(bookId);
+  const { currentPage, jumpToPage } = useReading();
+  const [isOpen, setIsOpen] = useState(true);
+
+  // Sections are written while the book is processed; reload them once it finishes
+  useEffect(() => {
+    if (isProcessed) refresh();
+  }, [isProcessed, refresh]);
+
+  const tree = useMemo(() => buildSectionTree(sections), [sections]);
+  const currentSection = findSectionAtPage(sections, currentPage);
+
+  if (isLoading && sections.length === 0) {
+    return null;
+  }
+
+  if (sections.length === 0) {
+    return (
+      <p className="pl-4 py-1 text-xs text-muted-foreground">
+        No table of contents{isProcessed ? '' : ' yet - it is built while the book is processed'}
+      </p>
+    );
+  }
+
+  const renderNode = (node: BookSectionNode) => {
+    const { section, children } = node;
+    const isCurrent = currentSection?.id === section.id;
+    const entry = (
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-auto min-h-7 flex-1 justify-between py-1 px-2 text-xs font-normal text-left whitespace-normal ${isCurrent ? 'bg-accent font-medium' : ''}`}
+        onClick={() => jumpToPage(section.start_page)}
+        title={section.end_page && section.end_page !== section.start_page
+          ? `Pages ${section.start_page}-${section.end_page}`
+          : `Page ${section.start_page}`}
+      >
+        <span className="line-clamp-2">{section.title}</span>
+        <span className="ml-2 flex-shrink-0 text-muted-foreground">{section.start_page}</span>
+      </Button>
+    );
+
+    if (children.length === 0) {
+      return (
+        <li key={section.id} className="flex items-start pl-5">
+          {entry}
+        </li>
+      );
+    }
+
+    return (
+      <li key={section.id}>
+        <Collapsible defaultOpen={false}>
+          <div className="flex items-start">
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 w-5 p-0 group" aria-label={`Toggle ${section.title}`}>
+                <ChevronRight className="h-3 w-3 group-data-[state=open]:hidden" />
+                <ChevronDown className="h-3 w-3 group-data-[state=closed]:hidden" />
+              </Button>
+            </CollapsibleTrigger>
+            {entry}
+          </div>
+          <CollapsibleContent>
+            <ul className="pl-3">
+              {children.map(renderNode)}
+            </ul>
+          </CollapsibleContent>
+        </Collapsible>
+      </li>
+    );
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="pl-2 pb-1">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+          {isOpen ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+          <ListTree className="h-3 w-3 mr-1" />
+          Contents
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="space-y-0.5">
+          {tree.map(renderNode)}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default TableOfContents;
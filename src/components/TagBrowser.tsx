@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { BookOpen, Highlighter, NotebookPen, Pencil, Tags, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useReading } from '@/contexts/ReadingContext';
+import { useTags } from '@/hooks/useTags';
+import { useTaggedItems } from '@/hooks/useTaggedItems';
+import { HIGHLIGHT_COLORS } from '@/lib/highlightColors';
+import { TaggedItem, TagUsage } from '@/types/tag';
+
+interface TagBrowserProps {
+  onNavigate?: () => void; // Called after jumping to an item, e.g. to close the dialog
+}
+
+// Merging and deleting change many items at once, so both are confirmed first
+type PendingAction = { type: 'merge'; target: TagUsage } | { type: 'delete' };
+
+// Every tag with its counts, and everything carrying the selected tag across all books
+const TagBrowser: React.FC<TagBrowserProps> = ({ onNavigate }) => {
+  const { tags, isLoading, renameTag, setTagColor, mergeTags, deleteTag } = useTags();
+  const { currentBookId, jumpToPage } = useReading();
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const selectedTag = tags.find(tag => tag.id === selectedTagId) ?? null;
+  const { books, isLoading: isLoadingItems } = useTaggedItems(selectedTag?.id ?? null);
+
+  const selectTag = (tag: TagUsage) => {
+    setSelectedTagId(tag.id);
+    setIsRenaming(false);
+  };
+
+  const startRenaming = () => {
+    if (!selectedTag) return;
+    setNewName(selectedTag.name);
+    setIsRenaming(true);
+  };
+
+  const handleRenameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTag) return;
+    if (await renameTag(selectedTag, newName)) {
+      setIsRenaming(false);
+    }
+  };
+
+  const confirmPendingAction = async () => {
+    if (!selectedTag || !pendingAction) return;
+
+    if (pendingAction.type === 'merge') {
+      if (await mergeTags(selectedTag, pendingAction.target)) {
+        setSelectedTagId(pendingAction.target.id);
+      }
+    } else if (await deleteTag(selectedTag)) {
+      setSelectedTagId(null);
+    }
+    setPendingAction(null);
+  };
+
+  // Items in the open book scroll the reader; other books are opened first, as from the library
+  const openItem = (item: TaggedItem) => {
+    if (item.book_id === currentBookId) {
+      if (item.page_number) jumpToPage(item.page_number);
+      onNavigate?.();
+      return;
+    }
+
+    localStorage.setItem('currentBookId', item.book_id);
+    window.location.reload();
+  };
+
+  if (!isLoading && tags.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Tags className="h-12 w-12 mx-auto mb-2 opacity-20" />
+        <p className="text-sm">No tags yet</p>
+        <p className="text-xs mt-1">Add tags when you highlight text or save a note.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-[12rem_1fr] gap-4 h-[60vh]">
+        <ScrollArea className="border-r pr-2">
+          <div className="space-y-1">
+            {tags.map((tag) => (
+              <Button
+                key={tag.id}
+                variant={tag.id === selectedTagId ? 'secondary' : 'ghost'}
+                size="sm"
+                className="w-full justify-between font-normal"
+                onClick={() => selectTag(tag)}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className={`h-2.5 w-2.5 flex-shrink-0 rounded-full border ${tag.color || 'bg-muted'}`} />
+                  <span className="truncate">{tag.name}</span>
+                </span>
+                <span className="ml-2 text-xs text-muted-foreground">{tag.highlight_count + tag.note_count}</span>
+              </Button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex flex-col min-h-0">
+          {!selectedTag ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              Choose a tag to see everything tagged with it.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2 border-b pb-3">
+                {isRenaming ? (
+                  <form onSubmit={handleRenameSubmit} className="flex gap-2">
+                    <Input value={newName} onChange={(e) => setNewName(e.target.value)} className="h-8" autoFocus />
+                    <Button type="submit" size="sm" disabled={!newName.trim()}>Save</Button>
+                    <Button type="button" size="sm" variant="outline" onClick={() => setIsRenaming(false)}>Cancel</Button>
+                  </form>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{selectedTag.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {selectedTag.highlight_count} highlight{selectedTag.highlight_count === 1 ? '' : 's'},{' '}
+                        {selectedTag.note_count} note{selectedTag.note_count === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={startRenaming}>
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Rename
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs text-muted-foreground"
+                        onClick={() => setPendingAction({ type: 'delete' })}
+                        aria-label="Delete tag"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex gap-1">
+                    {HIGHLIGHT_COLORS.map((color) => (
+                      <button
+                        key={color.name}
+                        onClick={() => setTagColor(selectedTag, color.value)}
+                        className={`h-5 w-5 rounded-full border ${color.class} ${
+                          selectedTag.color === color.value ? 'ring-2 ring-primary ring-offset-1' : ''
+                        }`}
+                        title={color.name}
+                      />
+                    ))}
+                  </div>
+                  {tags.length > 1 && (
+                    <Select
+                      value=""
+                      onValueChange={(targetId) => {
+                        const target = tags.find(tag => tag.id === targetId);
+                        if (target) setPendingAction({ type: 'merge', target });
+                      }}
+                    >
+                      <SelectTrigger className="h-7 w-40 text-xs">
+                        <SelectValue placeholder="Merge into..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tags.filter(tag => tag.id !== selectedTag.id).map((tag) => (
+                          <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+
+              <ScrollArea className="flex-1 pt-3">
+                {isLoadingItems ? (
+                  <div className="flex justify-center p-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+                  </div>
+                ) : books.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">Nothing is tagged with this yet.</p>
+                ) : (
+                  <div className="space-y-4 pr-2">
+                    {books.map((book) => (
+                      <div key={book.book_id} className="space-y-2">
+                        <p className="flex items-center gap-1 text-sm font-medium">
+                          <BookOpen className="h-3.5 w-3.5" />
+                          {book.book_title}
+                        </p>
+                        {book.items.map((item) => (
+                          <div key={`${item.kind}_${item.id}`} className="rounded-md border p-2 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="flex items-center gap-1 text-xs text-muted-foreground min-w-0">
+                                {item.kind === 'note'
+                                  ? <NotebookPen className="h-3 w-3 flex-shrink-0" />
+                                  : <Highlighter className="h-3 w-3 flex-shrink-0" />}
+                                <span className="truncate">{item.title || (item.kind === 'note' ? 'Note' : 'Highlight')}</span>
+                              </span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs flex-shrink-0"
+                                onClick={() => openItem(item)}
+                              >
+                                {item.book_id !== currentBookId ? 'Open book' :
+                                  item.page_number ? `p. ${item.page_number}` : 'No page'}
+                              </Button>
+                            </div>
+                            <blockquote className={`rounded-sm px-2 py-1 text-xs italic line-clamp-3 ${item.color || ''}`}>
+                              {item.text}
+                            </blockquote>
+                            {item.content && (
+                              <p className="text-xs whitespace-pre-wrap">{item.content}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === 'merge'
+                ? `Merge "${selectedTag?.name}" into "${pendingAction.target.name}"?`
+                : `Delete "${selectedTag?.name}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === 'merge'
+                ? `Everything tagged "${selectedTag?.name}" will be tagged "${pendingAction.target.name}" instead, and "${selectedTag?.name}" will be removed.`
+                : 'The tag is removed from every highlight and note. The highlights and notes themselves are kept.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPendingAction}>
+              {pendingAction?.type === 'merge' ? 'Merge' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default TagBrowser;
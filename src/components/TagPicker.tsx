@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useTags } from '@/hooks/useTags';
+import { HIGHLIGHT_COLORS } from '@/lib/highlightColors';
+import { findTagByName, normalizeTagName, suggestTags } from '@/lib/tags';
+import { Tag } from '@/types/tag';
+
+interface TagPickerProps {
+  selectedTags: Tag[];
+  onChange: (tags: Tag[]) => void;
+}
+
+// Chips for the chosen tags and an input that autocompletes existing tags or creates new ones
+const TagPicker: React.FC<TagPickerProps> = ({ selectedTags, onChange }) => {
+  const { tags, createTag } = useTags();
+  const [query, setQuery] = useState('');
+  const [newTagColor, setNewTagColor] = useState(HIGHLIGHT_COLORS[0].value);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedIds = selectedTags.map(tag => tag.id);
+  const suggestions = suggestTags(tags, query, selectedIds);
+  const tagName = normalizeTagName(query);
+  const canCreate = !!tagName && !findTagByName(tags, tagName);
+
+  const addTag = (tag: Tag) => {
+    if (!selectedIds.includes(tag.id)) {
+      onChange([...selectedTags, tag]);
+    }
+    setQuery('');
+  };
+
+  const removeTag = (tag: Tag) => onChange(selectedTags.filter(selected => selected.id !== tag.id));
+
+  const createAndAdd = async () => {
+    if (isCreating) return;
+    setIsCreating(true);
+    const tag = await createTag(tagName, newTagColor);
+    setIsCreating(false);
+    if (tag) addTag(tag);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      const existing = findTagByName(tags, tagName);
+      if (existing) addTag(existing);
+      else if (canCreate) createAndAdd();
+    } else if (e.key === 'Backspace' && !query && selectedTags.length > 0) {
+      removeTag(selectedTags[selectedTags.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedTags.map((tag) => (
+            <span
+              key={tag.id}
+              className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${tag.color || 'bg-muted'}`}
+            >
+              {tag.name}
+              <button onClick={() => removeTag(tag)} aria-label={`Remove tag ${tag.name}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        placeholder="Add tags..."
+        className="h-8 text-sm"
+      />
+
+      {/* Suggestions keep the input focused when clicked, so they stay open */}
+      {isFocused && (suggestions.length > 0 || canCreate) && (
+        <div className="rounded-md border bg-popover p-1 space-y-0.5">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1 text-left text-sm hover:bg-accent"
+            >
+              <span className={`h-2.5 w-2.5 rounded-full border ${tag.color || 'bg-muted'}`} />
+              {tag.name}
+            </button>
+          ))}
+
+          {canCreate && (
+            <div className="flex items-center justify-between gap-2 px-2 py-1">
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={createAndAdd}
+                disabled={isCreating}
+                className="flex items-center gap-1 text-sm truncate hover:underline"
+              >
+                <Plus className="h-3 w-3 flex-shrink-0" />
+                Create "{tagName}"
+              </button>
+              <div className="flex gap-1 flex-shrink-0">
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <button
+                    key={color.name}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => setNewTagColor(color.value)}
+                    className={`h-4 w-4 rounded-full border ${color.class} ${
+                      newTagColor === color.value ? 'ring-2 ring-primary ring-offset-1' : ''
+                    }`}
+                    title={color.name}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
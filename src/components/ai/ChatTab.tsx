@@ -1,42 +1,50 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { BookOpen, BookOpenCheck, Send } from 'lucide-react';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Send, Square } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { v4 as uuidv4 } from 'uuid';
 import { Message } from '@/types/message';
+import { ContextScope } from '@/types/scope';
+import { readChatStream } from '@/lib/chatStream';
 import { MessageList } from './MessageList';
 
 interface ChatTabProps {
   messages: Message[];
   addMessage: (message: Message) => void;
+  updateMessage: (id: string, updates: Partial<Message>) => void;
   saveMessagesToDatabase: (messages: Message[]) => Promise<void>;
+  conversationId: string | null;
   currentBookId: string | null;
   currentPage: number;
   currentPageText: string | null;
   isBookProcessed: boolean | null;
-  searchScope: 'page' | 'book';
-  toggleSearchScope: () => void;
+  searchScope: ContextScope;
+  scopeSelector: React.ReactNode;
 }
 
 export const ChatTab: React.FC<ChatTabProps> = ({
   messages,
   addMessage,
+  updateMessage,
   saveMessagesToDatabase,
+  conversationId,
   currentBookId,
   currentPage,
   currentPageText,
   isBookProcessed,
   searchScope,
-  toggleSearchScope
+  scopeSelector
 }) => {
   const [message, setMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Reader for the answer currently being streamed, cancelled by the Stop button
+  const streamReaderRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
 
   const handleAskQuestion = async () => {
     if (!message.trim() || isSubmitting) return;
@@ -66,9 +74,9 @@ export const ChatTab: React.FC<ChatTabProps> = ({
       }
 
       // Log the search scope to verify it's being used correctly
-      console.log(`Asking question with search scope: ${searchScope}`);
+      console.log(`Asking question with search scope: ${searchScope.type}`, searchScope.pageRange);
 
-      // Call the AI assistant function
+      // Call the AI assistant function, asking for a streamed answer
       const response = await supabase.functions.invoke('ai-assistant', {
         body: {
           userQuestion: userMessage.content,
@@ -76,7 +84,10 @@ export const ChatTab: React.FC<ChatTabProps> = ({
           pageNumber: currentPage,
           bookContent: currentPageText,
           mode: 'chat',
-          searchScope: searchScope
+          searchScope: searchScope.type,
+          pageRange: searchScope.pageRange,
+          conversationId: conversationId,
+          stream: true
         }
       });
 
@@ -84,18 +95,67 @@ export const ChatTab: React.FC<ChatTabProps> = ({
         throw new Error(response.error.message || "Error processing request");
       }
 
-      // Add AI response to message history
+      // Non-streamed responses (e.g. errors reported as JSON) are handled as before
+      if (!(response.data instanceof Response) || !response.data.body) {
+        const aiResponse: Message = {
+          id: uuidv4(),
+          role: 'assistant',
+          content: response.data?.response || "Sorry, I couldn't process your request",
+          timestamp: new Date().toISOString(),
+          context_used: response.data?.context_used || false,
+          sources: response.data?.sources
+        };
+
+        addMessage(aiResponse);
+        await saveMessagesToDatabase([userMessage, aiResponse]);
+        return;
+      }
+
+      // Show the assistant's message straight away and fill it in as tokens arrive
       const aiResponse: Message = {
         id: uuidv4(),
         role: 'assistant',
-        content: response.data.response || "Sorry, I couldn't process your request",
+        content: '',
         timestamp: new Date().toISOString(),
-        context_used: response.data.context_used || false
+        isStreaming: true
       };
-
       addMessage(aiResponse);
-      
-      // Save conversation to database
+      setIsStreaming(true);
+
+      let streamError: string | null = null;
+      try {
+        await readChatStream(response.data.body, (event) => {
+          if (event.type === 'token') {
+            aiResponse.content += event.text;
+            updateMessage(aiResponse.id, { content: aiResponse.content });
+          } else if (event.type === 'done') {
+            aiResponse.context_used = event.context_used || false;
+            aiResponse.sources = event.sources;
+          } else if (event.type === 'error') {
+            streamError = event.error;
+          }
+        }, (reader) => {
+          streamReaderRef.current = reader;
+        });
+      } finally {
+        streamReaderRef.current = null;
+        setIsStreaming(false);
+      }
+
+      if (!aiResponse.content) {
+        aiResponse.content = streamError
+          ? "I'm sorry, I encountered an error while processing your question."
+          : "Sorry, I couldn't process your request";
+      }
+      aiResponse.isStreaming = false;
+      updateMessage(aiResponse.id, {
+        content: aiResponse.content,
+        context_used: aiResponse.context_used,
+        sources: aiResponse.sources,
+        isStreaming: false
+      });
+
+      // Save conversation to database, including a partial answer if generation was stopped
       await saveMessagesToDatabase([userMessage, aiResponse]);
       
     } catch (error: any) {
@@ -110,6 +170,11 @@ export const ChatTab: React.FC<ChatTabProps> = ({
     }
   };
 
+  // Stop generation; the partial answer is kept and saved
+  const handleStop = () => {
+    streamReaderRef.current?.cancel();
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setMessage(e.target.value);
   };
@@ -129,40 +194,10 @@ export const ChatTab: React.FC<ChatTabProps> = ({
       </CardContent>
       
       <div className="p-4 border-t">
-        <div className="flex items-center justify-between mb-2">
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={toggleSearchScope}
-                  className="text-xs"
-                >
-                  {searchScope === 'page' ? (
-                    <>
-                      <BookOpen className="h-3 w-3 mr-1" />
-                      Current Page Only
-                    </>
-                  ) : (
-                    <>
-                      <BookOpenCheck className="h-3 w-3 mr-1" />
-                      Entire Book Context
-                    </>
-                  )}
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                {searchScope === 'page'
-                  ? "AI will only use the current page for context"
-                  : isBookProcessed === false 
-                    ? "Book content may not be fully processed yet, limiting AI's knowledge"
-                    : "AI will use the entire book for context"}
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          {scopeSelector}
           
-          {isBookProcessed === false && searchScope === 'book' && (
+          {isBookProcessed === false && searchScope.type !== 'page' && (
             <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-200 text-[10px]">
               Book processing incomplete
             </Badge>
@@ -177,10 +212,17 @@ export const ChatTab: React.FC<ChatTabProps> = ({
             onChange={handleInputChange}
             disabled={isSubmitting}
           />
-          <Button type="submit" disabled={isSubmitting}>
-            <Send className="h-4 w-4 mr-2" />
-            Ask
-          </Button>
+          {isStreaming ? (
+            <Button type="button" variant="outline" onClick={handleStop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button type="submit" disabled={isSubmitting}>
+              <Send className="h-4 w-4 mr-2" />
+              Ask
+            </Button>
+          )}
         </form>
       </div>
     </>
@@ -1,9 +1,13 @@
 
 import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Message } from '@/types/message';
+import { Message, MessageSource } from '@/types/message';
+import { useReading } from '@/contexts/ReadingContext';
+import { citationPage, linkCitations } from '@/lib/citations';
 
 interface MessageListProps {
   messages: Message[];
@@ -18,8 +22,31 @@ export const MessageList: React.FC<MessageListProps> = ({
   isBookProcessed,
   activeTab
 }) => {
+  const { jumpToPage } = useReading();
   const messagesToDisplay = filter ? messages.filter(filter) : messages;
 
+  // Citation links jump the reader to the cited page; the source snippet is shown on hover
+  const markdownComponents = (sources?: MessageSource[]): Components => ({
+    a: ({ href, children }) => {
+      const page = citationPage(href);
+      if (page === null) {
+        return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+      }
+
+      const source = sources?.find(s => s.page_number === page);
+      return (
+        <button
+          type="button"
+          className="text-primary font-medium underline-offset-2 hover:underline"
+          title={source ? source.snippet : `Go to page ${page}`}
+          onClick={() => jumpToPage(page)}
+        >
+          {children}
+        </button>
+      );
+    }
+  });
+
   return (
     <ScrollArea className="flex-grow">
       <div className="space-y-4">
@@ -27,10 +54,21 @@ export const MessageList: React.FC<MessageListProps> = ({
           <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className="flex flex-col max-w-[75%]">
               <div className={`rounded-lg p-3 text-sm ${msg.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground'}`}>
-                {msg.content}
+                {msg.role === 'assistant' ? (
+                  <div className="prose prose-sm dark:prose-invert max-w-none">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents(msg.sources)}>
+                      {linkCitations(msg.content)}
+                    </ReactMarkdown>
+                  </div>
+                ) : (
+                  msg.content
+                )}
+                {msg.isStreaming && (
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+                )}
               </div>
               <div className="text-xs text-muted-foreground mt-1 flex items-center">
-                {msg.role === 'assistant' && msg.context_used !== undefined && (
+                {msg.role === 'assistant' && !msg.isStreaming && msg.context_used !== undefined && (
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
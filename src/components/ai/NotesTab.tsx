@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { NotebookPen, Pencil, Trash2 } from 'lucide-react';
+import { CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useReading } from '@/contexts/ReadingContext';
+import { useBookNotes } from '@/hooks/useBookNotes';
+import { useTags } from '@/hooks/useTags';
+import { HIGHLIGHT_COLORS } from '@/lib/highlightColors';
+import TagPicker from '@/components/TagPicker';
+import { Note } from '@/types/note';
+import { Tag } from '@/types/tag';
+
+// Lists the current book's notes in page order, with edit, delete and jump to page
+export const NotesTab: React.FC = () => {
+  const { currentBookId, currentPage, jumpToPage } = useReading();
+  const { notes, isLoading, updateNote, deleteNote } = useBookNotes(currentBookId);
+  const { setNoteTags } = useTags();
+
+  const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [color, setColor] = useState(HIGHLIGHT_COLORS[0].value);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (note: Note) => {
+    setEditingNote(note);
+    setTitle(note.title);
+    setContent(note.content || '');
+    setColor(note.color || HIGHLIGHT_COLORS[0].value);
+    setTags(note.tags);
+  };
+
+  const saveEdit = async () => {
+    if (!editingNote || !title) return;
+
+    setIsSaving(true);
+    const saved = await updateNote(editingNote, { title, content: content || null, color }) &&
+      await setNoteTags(editingNote.id, tags.map(tag => tag.id));
+    setIsSaving(false);
+
+    if (saved) setEditingNote(null);
+  };
+
+  return (
+    <>
+      <CardContent className="flex-grow flex flex-col p-4">
+        <ScrollArea className="flex-grow">
+          {notes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <NotebookPen className="h-12 w-12 mx-auto mb-2 opacity-20" />
+              <p className="text-sm">
+                {!currentBookId ? 'Select a book to see its notes' :
+                  isLoading ? 'Loading notes...' : 'No notes yet'}
+              </p>
+              {currentBookId && !isLoading && (
+                <p className="text-xs mt-1">Select text in the book and choose Add Note.</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {notes.map((note) => (
+                <div
+                  key={note.id}
+                  className={`rounded-md border p-3 space-y-2 ${note.page_number === currentPage ? 'border-primary/50' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-start gap-2 min-w-0">
+                      <span className={`mt-1 h-3 w-3 flex-shrink-0 rounded-full border ${note.color || HIGHLIGHT_COLORS[0].value}`} />
+                      <p className="text-sm font-medium break-words">{note.title}</p>
+                    </div>
+                    {note.page_number ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs flex-shrink-0"
+                        onClick={() => jumpToPage(note.page_number)}
+                        title={`Go to page ${note.page_number}`}
+                      >
+                        p. {note.page_number}
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground flex-shrink-0">No page</span>
+                    )}
+                  </div>
+
+                  <blockquote className="border-l-2 pl-2 text-xs italic text-muted-foreground line-clamp-3">
+                    {note.selected_text}
+                  </blockquote>
+
+                  {note.content && (
+                    <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                  )}
+
+                  {note.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {note.tags.map((tag) => (
+                        <span key={tag.id} className={`rounded-full border px-2 py-0.5 text-[10px] ${tag.color || 'bg-muted'}`}>
+                          {tag.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-muted-foreground">
+                      {note.updated_at && new Date(note.updated_at).toLocaleDateString()}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => startEditing(note)}>
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs text-muted-foreground"
+                        onClick={() => deleteNote(note)}
+                        aria-label="Delete note"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+
+      {/* Edit Note Dialog */}
+      <Dialog open={editingNote !== null} onOpenChange={(open) => !open && setEditingNote(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Note</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="bg-muted p-3 rounded-md text-sm">
+              <p className="font-medium">Selected text:</p>
+              <p className="italic">{editingNote?.selected_text}</p>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="edit-note-title" className="text-sm font-medium">
+                Title
+              </label>
+              <Input
+                id="edit-note-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Enter a title for your note"
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="edit-note-content" className="text-sm font-medium">
+                Note (optional)
+              </label>
+              <Textarea
+                id="edit-note-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="Add your thoughts..."
+                rows={4}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Tags</label>
+              <TagPicker selectedTags={tags} onChange={setTags} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Color</label>
+              <div className="flex flex-wrap gap-2">
+                {HIGHLIGHT_COLORS.map((option) => (
+                  <button
+                    key={option.name}
+                    onClick={() => setColor(option.value)}
+                    className={`w-8 h-8 rounded-full ${option.class} border hover:scale-110 transition-transform ${
+                      color === option.value ? 'ring-2 ring-primary ring-offset-2' : ''
+                    }`}
+                    title={option.name}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingNote(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveEdit} disabled={isSaving || !title}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CheckCircle2, XCircle, RefreshCcw } from 'lucide-react';
+import { QuizQuestion, QuizAnswer } from '@/types/quiz';
+
+interface QuizQuestionCardProps {
+  question: QuizQuestion;
+  questionNumber: number;
+  answer?: QuizAnswer;
+  onAnswer: (selectedIndex: number) => void;
+}
+
+const OPTION_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export const QuizQuestionCard: React.FC<QuizQuestionCardProps> = ({
+  question,
+  questionNumber,
+  answer,
+  onAnswer
+}) => {
+  const isAnswered = answer !== undefined;
+  // The right answer is shown once the assistant has marked the reader's choice
+  const isMarked = isAnswered && answer.isCorrect !== null;
+
+  // Pick the styling for an option once the question has been answered
+  const getOptionClass = (index: number) => {
+    if (!isAnswered) {
+      return 'border-border hover:bg-muted';
+    }
+    if (!isMarked) {
+      return index === answer.selectedIndex ? 'border-primary bg-muted' : 'border-border opacity-60';
+    }
+    if (index === question.correctIndex) {
+      return 'border-green-500 bg-green-50 text-green-900 dark:bg-green-900/30 dark:text-green-100';
+    }
+    if (index === answer.selectedIndex) {
+      return 'border-red-500 bg-red-50 text-red-900 dark:bg-red-900/30 dark:text-red-100';
+    }
+    return 'border-border opacity-60';
+  };
+
+  return (
+    <div className="rounded-lg border bg-secondary/40 p-3 text-sm space-y-3">
+      <p className="font-medium">
+        {questionNumber}. {question.question}
+      </p>
+
+      <div className="space-y-2">
+        {question.options.map((option, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onAnswer(index)}
+            disabled={isAnswered}
+            className={`w-full flex items-start text-left rounded-md border px-3 py-2 transition-colors ${getOptionClass(index)}`}
+          >
+            <span className="font-semibold mr-2">{OPTION_LABELS[index] || index + 1})</span>
+            <span className="flex-1">{option}</span>
+            {isMarked && index === question.correctIndex && (
+              <CheckCircle2 className="h-4 w-4 ml-2 text-green-600 flex-shrink-0" />
+            )}
+            {isMarked && index === answer.selectedIndex && !answer.isCorrect && (
+              <XCircle className="h-4 w-4 ml-2 text-red-600 flex-shrink-0" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {isAnswered && (
+        <div className="border-t pt-3">
+          {answer.feedback === null ? (
+            <div className="flex items-center text-muted-foreground">
+              <RefreshCcw className="h-3 w-3 mr-2 animate-spin" />
+              Evaluating your answer...
+            </div>
+          ) : (
+            <div className="prose prose-sm dark:prose-invert max-w-none">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{answer.feedback}</ReactMarkdown>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,29 +2,27 @@
 import React, { useState } from 'react';
 import { CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { RefreshCcw } from 'lucide-react';
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCcw, GraduationCap, History } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { v4 as uuidv4 } from 'uuid';
-import { Message } from '@/types/message';
-import { MessageList } from './MessageList';
+import { Quiz, QuizAnswer, QuizQuestion } from '@/types/quiz';
+import { ContextScope } from '@/types/scope';
+import { useQuizHistory } from '@/hooks/useQuizHistory';
+import { QuizQuestionCard } from './QuizQuestionCard';
 
 interface QuizTabProps {
-  messages: Message[];
-  addMessage: (message: Message) => void;
-  saveMessagesToDatabase: (messages: Message[]) => Promise<void>;
   currentBookId: string | null;
   currentPage: number;
   currentPageText: string | null;
   isBookProcessed: boolean | null;
-  searchScope: 'page' | 'book';
+  searchScope: ContextScope;
 }
 
 export const QuizTab: React.FC<QuizTabProps> = ({
-  messages,
-  addMessage,
-  saveMessagesToDatabase,
   currentBookId,
   currentPage,
   currentPageText,
@@ -32,9 +30,11 @@ export const QuizTab: React.FC<QuizTabProps> = ({
   searchScope
 }) => {
   const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
-
-  // Filter for quiz-related messages
-  const quizFilter = (msg: Message) => msg.role === 'assistant' && msg.content.includes('Q:');
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  // Answers keyed by `${quizId}:${questionIndex}`
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [showHistory, setShowHistory] = useState(false);
+  const { history, score, saveQuiz, saveAttempt } = useQuizHistory(currentBookId);
 
   // Generate quiz based on current page content
   const handleGenerateQuiz = async () => {
@@ -44,7 +44,7 @@ export const QuizTab: React.FC<QuizTabProps> = ({
       setIsGeneratingQuiz(true);
 
       // Log the search scope to verify it's being used correctly
-      console.log(`Generating quiz with search scope: ${searchScope}`);
+      console.log(`Generating quiz with search scope: ${searchScope.type}`, searchScope.pageRange);
 
       const response = await supabase.functions.invoke('ai-assistant', {
         body: {
@@ -52,7 +52,8 @@ export const QuizTab: React.FC<QuizTabProps> = ({
           pageNumber: currentPage,
           bookContent: currentPageText,
           mode: 'quiz',
-          searchScope: searchScope
+          searchScope: searchScope.type,
+          pageRange: searchScope.pageRange
         }
       });
 
@@ -60,20 +61,28 @@ export const QuizTab: React.FC<QuizTabProps> = ({
         throw new Error(response.error.message || "Error generating quiz");
       }
 
-      // Add quiz to message history
-      const quizMessage: Message = {
+      const questions: QuizQuestion[] = response.data.quiz || [];
+      if (questions.length === 0) {
+        throw new Error(response.data.response || "Sorry, I couldn't generate a quiz");
+      }
+
+      const quiz = await saveQuiz({
         id: uuidv4(),
-        role: 'assistant',
-        content: response.data.quiz || "Sorry, I couldn't generate a quiz",
+        questions,
+        sourceContent: response.data.source_content || currentPageText || '',
         timestamp: new Date().toISOString(),
         context_used: response.data.context_used || false
-      };
+      }, currentPage, searchScope.type);
 
-      addMessage(quizMessage);
-
-      // Save to conversation history
-      await saveMessagesToDatabase([quizMessage]);
+      setQuizzes(prev => [quiz, ...prev]);
 
+      if (!quiz.saved) {
+        toast({
+          title: "Quiz Not Saved",
+          description: "You can still answer it, but your answers won't count towards your score.",
+          variant: "destructive",
+        });
+      }
     } catch (error: any) {
       console.error("Error generating quiz:", error);
       toast({
@@ -86,14 +95,162 @@ export const QuizTab: React.FC<QuizTabProps> = ({
     }
   };
 
+  // Record the reader's choice and ask the AI to evaluate it. The assistant decides whether
+  // the answer is correct; the attempt is only saved once it has and the quiz was stored.
+  const handleAnswer = async (quiz: Quiz, questionIndex: number, selectedIndex: number) => {
+    const key = `${quiz.id}:${questionIndex}`;
+    if (answers[key]) return;
+
+    const question = quiz.questions[questionIndex];
+
+    setAnswers(prev => ({
+      ...prev,
+      [key]: { selectedIndex, isCorrect: null, feedback: null }
+    }));
+
+    let isCorrect: boolean;
+    let feedback: string;
+    try {
+      const response = await supabase.functions.invoke('ai-assistant', {
+        body: {
+          bookId: currentBookId,
+          pageNumber: currentPage,
+          bookContent: quiz.sourceContent,
+          mode: 'quizEval',
+          question: question.question,
+          options: question.options,
+          correctIndex: question.correctIndex,
+          userAnswerIndex: selectedIndex
+        }
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || "Error evaluating answer");
+      }
+
+      if (typeof response.data?.is_correct !== 'boolean') {
+        throw new Error("The evaluation did not say whether the answer was correct");
+      }
+
+      isCorrect = response.data.is_correct;
+      feedback = response.data.response;
+    } catch (error) {
+      console.error("Error evaluating quiz answer:", error);
+      // Let the reader answer again once the assistant can be reached
+      setAnswers(prev => {
+        const { [key]: _, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Answer Not Checked",
+        description: error instanceof Error ? error.message : "Failed to evaluate your answer",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAnswers(prev => ({
+      ...prev,
+      [key]: { selectedIndex, isCorrect, feedback }
+    }));
+
+    if (quiz.saved && question.id) {
+      await saveAttempt(question.id, selectedIndex, isCorrect, feedback);
+    }
+  };
+
+  // Count correct answers for a quiz's score badge
+  const getQuizScore = (quiz: Quiz) => {
+    const answered = quiz.questions
+      .map((_, index) => answers[`${quiz.id}:${index}`])
+      .filter(Boolean);
+    return {
+      answered: answered.length,
+      correct: answered.filter(answer => answer.isCorrect).length
+    };
+  };
+
   return (
     <>
       <CardContent className="flex-grow flex flex-col p-4">
-        <MessageList 
-          messages={messages}
-          filter={quizFilter}
-          isBookProcessed={isBookProcessed}
-        />
+        {(score || history.length > 0) && (
+          <div className="mb-3 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">
+                {score
+                  ? `Comprehension: ${score.score_percent}% (${score.correct}/${score.attempts} correct)`
+                  : 'No answers recorded yet'}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setShowHistory(!showHistory)}
+              >
+                <History className="h-3 w-3 mr-1" />
+                {showHistory ? 'Hide history' : 'History'}
+              </Button>
+            </div>
+            {showHistory && (
+              <div className="rounded-md border divide-y text-xs max-h-40 overflow-y-auto">
+                {history.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between px-3 py-2">
+                    <span>
+                      {new Date(entry.created_at).toLocaleDateString()}
+                      <span className="text-muted-foreground ml-2">
+                        {entry.search_scope === 'page' && entry.page_number
+                          ? `Page ${entry.page_number}`
+                          : entry.search_scope === 'chapter'
+                            ? 'Chapter'
+                            : entry.search_scope === 'range'
+                              ? 'Page range'
+                              : 'Entire book'}
+                      </span>
+                    </span>
+                    <span className={entry.answered === 0 ? 'text-muted-foreground' : ''}>
+                      {entry.answered === 0 ? 'Not answered' : `${entry.correct}/${entry.total}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <ScrollArea className="flex-grow">
+          {quizzes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <GraduationCap className="h-12 w-12 mx-auto mb-2 opacity-20" />
+              <p className="text-sm">Generate a quiz to test your understanding</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {quizzes.map((quiz) => {
+                const score = getQuizScore(quiz);
+                return (
+                  <div key={quiz.id} className="space-y-3">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{new Date(quiz.timestamp).toLocaleTimeString()}</span>
+                      <Badge variant="outline" className="text-[10px] h-5">
+                        {score.correct}/{quiz.questions.length} correct
+                        {score.answered < quiz.questions.length && ` (${score.answered} answered)`}
+                      </Badge>
+                    </div>
+                    {quiz.questions.map((question, index) => (
+                      <QuizQuestionCard
+                        key={index}
+                        question={question}
+                        questionNumber={index + 1}
+                        answer={answers[`${quiz.id}:${index}`]}
+                        onAnswer={(selectedIndex) => handleAnswer(quiz, index, selectedIndex)}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
       </CardContent>
       
       <div className="p-4 border-t">
@@ -111,16 +268,18 @@ export const QuizTab: React.FC<QuizTabProps> = ({
                     Generating quiz...
                   </>
                 ) : (
-                  <>Generate Quiz from {searchScope === 'page' ? 'Current Page' : 'Entire Book'}</>
+                  <>Generate Quiz from {searchScope.type === 'page' ? 'Current Page' : searchScope.type === 'book' ? 'Entire Book' : searchScope.label}</>
                 )}
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              {searchScope === 'page'
+              {searchScope.type === 'page'
                 ? "Generate quiz questions based on the current page"
                 : isBookProcessed === false 
                   ? "Book content may not be fully processed yet, limiting quiz coverage"
-                  : "Generate quiz questions based on the entire book"}
+                  : searchScope.pageRange
+                    ? `Generate quiz questions based on pages ${searchScope.pageRange.start}-${searchScope.pageRange.end}`
+                    : "Generate quiz questions based on the entire book"}
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
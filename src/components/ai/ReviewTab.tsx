@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from "@/components/ui/badge";
+import { RefreshCcw, Layers, CheckCircle2 } from 'lucide-react';
+import { useReviewQueue } from '@/hooks/useReviewQueue';
+import { REVIEW_GRADES, ReviewGrade, previewIntervals, formatInterval } from '@/lib/spacedRepetition';
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+const GRADE_CLASSES: Record<ReviewGrade, string> = {
+  again: 'border-red-300 text-red-700 hover:bg-red-50',
+  hard: 'border-amber-300 text-amber-700 hover:bg-amber-50',
+  good: 'border-green-300 text-green-700 hover:bg-green-50',
+  easy: 'border-blue-300 text-blue-700 hover:bg-blue-50',
+};
+
+export const ReviewTab: React.FC = () => {
+  const { dueCards, isLoading, gradeCard, refresh } = useReviewQueue();
+  const [isAnswerVisible, setIsAnswerVisible] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const currentCard = dueCards[0];
+
+  // Hide the answer whenever a new card comes up
+  useEffect(() => {
+    setIsAnswerVisible(false);
+  }, [currentCard?.id]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    setReviewedCount(prev => prev + 1);
+    await gradeCard(currentCard, grade);
+  };
+
+  const intervals = currentCard
+    ? previewIntervals({
+        easeFactor: currentCard.ease_factor,
+        intervalDays: currentCard.interval_days,
+        repetitions: currentCard.repetitions,
+        lapses: currentCard.lapses,
+      })
+    : null;
+
+  return (
+    <>
+      <CardContent className="flex-grow flex flex-col p-4">
+        <div className="flex items-center justify-between text-xs text-muted-foreground mb-3">
+          <span>
+            {dueCards.length} due{reviewedCount > 0 && ` · ${reviewedCount} reviewed`}
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={refresh} disabled={isLoading}>
+            <RefreshCcw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading && !currentCard ? (
+          <div className="flex justify-center p-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary"></div>
+          </div>
+        ) : !currentCard ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {reviewedCount > 0 ? (
+              <CheckCircle2 className="h-12 w-12 mx-auto mb-2 text-green-500 opacity-60" />
+            ) : (
+              <Layers className="h-12 w-12 mx-auto mb-2 opacity-20" />
+            )}
+            <p className="text-sm">
+              {reviewedCount > 0 ? "You're all caught up!" : 'No cards are due for review'}
+            </p>
+            <p className="text-xs mt-1">
+              Missed quiz questions and highlights come back here for review.
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-lg border bg-secondary/40 p-4 text-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge variant="outline" className="text-[10px] h-5">
+                {currentCard.source_type === 'quiz' ? 'Missed quiz question' : 'Highlight'}
+              </Badge>
+              <span className="text-xs text-muted-foreground truncate ml-2">
+                {currentCard.book_title}
+                {currentCard.page_number && ` · p. ${currentCard.page_number}`}
+              </span>
+            </div>
+
+            {currentCard.source_type === 'highlight' && (
+              <p className="text-xs text-muted-foreground">What does this passage mean, and why did you highlight it?</p>
+            )}
+            <p className={currentCard.source_type === 'highlight' ? 'italic' : 'font-medium'}>
+              {currentCard.front}
+            </p>
+
+            {isAnswerVisible ? (
+              <div className="border-t pt-3">
+                {currentCard.back ? (
+                  <p>{currentCard.back}</p>
+                ) : (
+                  <p className="text-muted-foreground">
+                    No note saved{currentCard.page_number ? ` — revisit page ${currentCard.page_number}` : ''}.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => setIsAnswerVisible(true)}>
+                Show answer
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {currentCard && isAnswerVisible && intervals && (
+        <div className="p-4 border-t grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map((grade) => (
+            <Button
+              key={grade}
+              variant="outline"
+              className={`flex flex-col h-auto py-2 ${GRADE_CLASSES[grade]}`}
+              onClick={() => handleGrade(grade)}
+            >
+              <span className="text-sm">{GRADE_LABELS[grade]}</span>
+              <span className="text-[10px] opacity-70">{formatInterval(intervals[grade])}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { BookOpen, BookOpenCheck, BookMarked, Files } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContextScope, PageRange, SearchScope } from '@/types/scope';
+
+interface ScopeSelectorProps {
+  scope: ContextScope;
+  selectedType: SearchScope; // May differ from scope.type when there is no chapter to narrow to
+  chapterTitle: string | null;
+  totalPages: number;
+  onTypeChange: (type: SearchScope) => void;
+  onRangeChange: (range: PageRange) => void;
+}
+
+const SCOPE_ICONS: Record<SearchScope, React.ElementType> = {
+  page: BookOpen,
+  chapter: BookMarked,
+  range: Files,
+  book: BookOpenCheck,
+};
+
+export const ScopeSelector: React.FC<ScopeSelectorProps> = ({
+  scope,
+  selectedType,
+  chapterTitle,
+  totalPages,
+  onTypeChange,
+  onRangeChange
+}) => {
+  const Icon = SCOPE_ICONS[scope.type];
+
+  const handleRangeInput = (end: 'start' | 'end', value: string) => {
+    const page = parseInt(value, 10);
+    if (!page || !scope.pageRange) return;
+    onRangeChange({ ...scope.pageRange, [end]: page });
+  };
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <Select value={selectedType} onValueChange={(value) => onTypeChange(value as SearchScope)}>
+        <SelectTrigger className="h-8 text-xs w-auto max-w-[220px]" aria-label="Context scope">
+          <Icon className="h-3 w-3 mr-1 flex-shrink-0" />
+          <SelectValue>
+            <span className="truncate">{scope.type === 'chapter' ? `Chapter: ${scope.label}` : scope.label}</span>
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="page" className="text-xs">Current page</SelectItem>
+          <SelectItem value="chapter" className="text-xs" disabled={!chapterTitle}>
+            {chapterTitle ? `Chapter: ${chapterTitle}` : 'Current chapter (no contents)'}
+          </SelectItem>
+          <SelectItem value="range" className="text-xs">Page range...</SelectItem>
+          <SelectItem value="book" className="text-xs">Entire book</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {scope.type === 'range' && scope.pageRange && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Input
+            type="number"
+            min={1}
+            max={totalPages || undefined}
+            value={scope.pageRange.start}
+            onChange={(e) => handleRangeInput('start', e.target.value)}
+            className="h-8 w-16 text-xs"
+            aria-label="First page"
+          />
+          <span>to</span>
+          <Input
+            type="number"
+            min={1}
+            max={totalPages || undefined}
+            value={scope.pageRange.end}
+            onChange={(e) => handleRangeInput('end', e.target.value)}
+            className="h-8 w-16 text-xs"
+            aria-label="Last page"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
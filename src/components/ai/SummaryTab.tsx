@@ -0,0 +1,169 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileText, RefreshCcw, Trash2 } from 'lucide-react';
+import { useReading } from '@/contexts/ReadingContext';
+import { useBookSummaries } from '@/hooks/useBookSummaries';
+import { citationPage, linkCitations } from '@/lib/citations';
+import { downloadTextFile, safeFileName } from '@/lib/download';
+import { formatPageRange } from '@/lib/contextScope';
+import { ContextScope } from '@/types/scope';
+import { BookSummary } from '@/types/summary';
+
+interface SummaryTabProps {
+  currentBookId: string | null;
+  currentPage: number;
+  isBookProcessed: boolean | null;
+  searchScope: ContextScope;
+  scopeSelector: React.ReactNode;
+}
+
+export const SummaryTab: React.FC<SummaryTabProps> = ({
+  currentBookId,
+  currentPage,
+  isBookProcessed,
+  searchScope,
+  scopeSelector
+}) => {
+  const { currentBookTitle, jumpToPage } = useReading();
+  const { summaries, isLoading, generatingId, summarize, regenerate, deleteSummary } = useBookSummaries(currentBookId);
+
+  // Citation links jump the reader to the cited page
+  const markdownComponents: Components = {
+    a: ({ href, children }) => {
+      const page = citationPage(href);
+      if (page === null) {
+        return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+      }
+
+      return (
+        <button
+          type="button"
+          className="text-primary font-medium underline-offset-2 hover:underline"
+          title={`Go to page ${page}`}
+          onClick={() => jumpToPage(page)}
+        >
+          {children}
+        </button>
+      );
+    }
+  };
+
+  const summaryTitle = (summary: BookSummary) =>
+    summary.scope === 'book' ? 'Whole book' : summary.title || formatPageRange({ start: summary.start_page, end: summary.end_page });
+
+  // Save a summary as a Markdown file
+  const exportSummary = (summary: BookSummary) => {
+    const title = summaryTitle(summary);
+    const heading = currentBookTitle ? `${currentBookTitle}: ${title}` : title;
+    const content = [
+      `# ${heading}`,
+      '',
+      `_${formatPageRange({ start: summary.start_page, end: summary.end_page })} · summarized by ${summary.model}_`,
+      '',
+      summary.summary,
+      ''
+    ].join('\n');
+
+    downloadTextFile(`${safeFileName(heading)}.md`, content, 'text/markdown');
+  };
+
+  const scopeName = searchScope.type === 'page' ? `Page ${currentPage}` : searchScope.label;
+
+  return (
+    <>
+      <CardContent className="flex-grow flex flex-col p-4 space-y-3">
+        <ScrollArea className="flex-grow">
+          {summaries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-2 opacity-20" />
+              <p className="text-sm">
+                {isLoading ? 'Loading summaries...' : 'Summarize a chapter, a range of pages or the whole book'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {summaries.map((summary) => (
+                <div key={summary.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{summaryTitle(summary)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatPageRange({ start: summary.start_page, end: summary.end_page })}
+                        {summary.updated_at && ` · ${new Date(summary.updated_at).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className="text-[10px] h-5 flex-shrink-0">{summary.model}</Badge>
+                  </div>
+
+                  <div className="prose prose-sm dark:prose-invert max-w-none">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                      {linkCitations(summary.summary)}
+                    </ReactMarkdown>
+                  </div>
+
+                  <div className="flex items-center justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => regenerate(summary)}
+                      disabled={generatingId !== null}
+                    >
+                      <RefreshCcw className={`h-3 w-3 mr-1 ${generatingId === summary.id ? 'animate-spin' : ''}`} />
+                      Regenerate
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => exportSummary(summary)}>
+                      <Download className="h-3 w-3 mr-1" />
+                      Export
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground"
+                      onClick={() => deleteSummary(summary)}
+                      aria-label="Delete summary"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+
+      <div className="p-4 border-t space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          {scopeSelector}
+
+          {isBookProcessed === false && (
+            <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-200 text-[10px]">
+              Book processing incomplete
+            </Badge>
+          )}
+        </div>
+
+        <Button
+          onClick={() => summarize(searchScope, currentPage)}
+          disabled={generatingId !== null || !currentBookId}
+          className="w-full"
+        >
+          {generatingId === 'new' ? (
+            <>
+              <RefreshCcw className="h-4 w-4 mr-2 animate-spin" />
+              Summarizing...
+            </>
+          ) : (
+            <>Summarize {searchScope.type === 'book' ? 'Entire Book' : scopeName}</>
+          )}
+        </Button>
+      </div>
+    </>
+  );
+};
@@ -1,5 +1,5 @@
 
-import React, { createContext, useState, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useCallback, ReactNode } from 'react';
 
 // Interface for the context values
 interface ReadingContextType {
@@ -17,6 +17,9 @@ interface ReadingContextType {
   setCurrentBookTitle: (title: string | null) => void;
   workerInitialized: boolean;
   setWorkerInitialized: (initialized: boolean) => void;
+  pendingScrollPage: number | null;
+  jumpToPage: (page: number) => void;
+  clearPendingScroll: () => void;
 }
 
 // Create the context with undefined initial value
@@ -31,6 +34,15 @@ export const ReadingProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [currentBookId, setCurrentBookId] = useState<string | null>(null);
   const [currentBookTitle, setCurrentBookTitle] = useState<string | null>(null);
   const [workerInitialized, setWorkerInitialized] = useState<boolean>(false);
+  const [pendingScrollPage, setPendingScrollPage] = useState<number | null>(null);
+
+  // Move to a page from outside the reader; ReadingPanel scrolls to it and clears the request
+  const jumpToPage = useCallback((page: number) => {
+    setCurrentPage(page);
+    setPendingScrollPage(page);
+  }, []);
+
+  const clearPendingScroll = useCallback(() => setPendingScrollPage(null), []);
 
   // The value provided to consuming components
   const value = {
@@ -47,7 +59,10 @@ export const ReadingProvider: React.FC<{ children: ReactNode }> = ({ children })
     currentBookTitle,
     setCurrentBookTitle,
     workerInitialized,
-    setWorkerInitialized
+    setWorkerInitialized,
+    pendingScrollPage,
+    jumpToPage,
+    clearPendingScroll
   };
 
   return (
@@ -1,4 +1,6 @@
 import React, { createContext, useState, useContext, ReactNode, useCallback } from 'react';
+import { anchorSelection } from '@/lib/textLayer';
+import { HighlightAnchor } from '@/types/highlight';
 
 // Interface for selection position
 interface SelectionPosition {
@@ -12,6 +14,8 @@ interface SelectionPosition {
 interface SelectionContextType {
   selectedText: string;
   setSelectedText: (text: string) => void;
+  selectionAnchor: HighlightAnchor | null; // Where the selection sits on the PDF page's text layer or in the EPUB
+  setSelectionAnchor: (anchor: HighlightAnchor | null) => void;
   selectionPosition: SelectionPosition | null;
   setSelectionPosition: (position: SelectionPosition | null) => void;
   pageNumber: number;
@@ -29,6 +33,7 @@ const SelectionContext = createContext<SelectionContextType | undefined>(undefin
 // Selection context provider component
 export const SelectionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [selectedText, setSelectedText] = useState<string>('');
+  const [selectionAnchor, setSelectionAnchor] = useState<HighlightAnchor | null>(null);
   const [selectionPosition, setSelectionPosition] = useState<SelectionPosition | null>(null);
   const [pageNumber, setPageNumber] = useState<number>(0);
   const [isSelectionToolbarVisible, setIsSelectionToolbarVisible] = useState<boolean>(false);
@@ -75,6 +80,7 @@ export const SelectionProvider: React.FC<{ children: ReactNode }> = ({ children
       // Get the page number from the data attribute
       const pageNumber = parseInt(pdfPage.getAttribute('data-page-number') || '0');
       setPageNumber(pageNumber);
+      setSelectionAnchor(anchorSelection(range, pdfPage));
       
       // Calculate position relative to the viewport
       const viewportRect = pdfPage.getBoundingClientRect();
@@ -102,6 +108,7 @@ export const SelectionProvider: React.FC<{ children: ReactNode }> = ({ children
   // Clear selection
   const clearSelection = useCallback(() => {
     setSelectedText('');
+    setSelectionAnchor(null);
     setSelectionPosition(null);
     setIsSelectionToolbarVisible(false);
   }, []);
@@ -110,6 +117,8 @@ export const SelectionProvider: React.FC<{ children: ReactNode }> = ({ children
   const value: SelectionContextType = {
     selectedText,
     setSelectedText,
+    selectionAnchor,
+    setSelectionAnchor,
     selectionPosition,
     setSelectionPosition,
     pageNumber,
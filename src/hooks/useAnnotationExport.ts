@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ANNOTATION_EXPORT_VERSION, toJson, toMarkdown, toObsidianFiles, toReadwiseCsv } from '@/lib/annotationExport';
+import { preferOutlineSections } from '@/lib/bookSections';
+import { downloadBlob, downloadTextFile, safeFileName } from '@/lib/download';
+import { fetchAllRows } from '@/lib/supabaseRows';
+import { AnnotationExport, ExportFormat } from '@/types/export';
+import { BookSection } from '@/types/section';
+
+export function useAnnotationExport() {
+  const { user } = useAuth();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Load one book's highlights, notes and tags, or the whole library's when bookId is null
+  const loadExport = async (bookId: string | null): Promise<AnnotationExport> => {
+    let bookQuery = supabase
+      .from('books')
+      .select('id, title, author, file_type')
+      .eq('user_id', user.id);
+    if (bookId) bookQuery = bookQuery.eq('id', bookId);
+
+    const { data: books, error: booksError } = await bookQuery.order('title', { ascending: true });
+    if (booksError) throw booksError;
+
+    const bookIds = (books || []).map(book => book.id);
+
+    const [highlights, notes, sections, tagResult] = await Promise.all([
+      fetchAllRows((from, to) => {
+        let query = supabase
+          .from('highlights')
+          .select('id, book_id, page_number, text, color, note, position, created_at, highlight_tags(tag_id)')
+          .eq('user_id', user.id);
+        if (bookId) query = query.eq('book_id', bookId);
+        return query.order('created_at', { ascending: true }).range(from, to);
+      }),
+      fetchAllRows((from, to) => {
+        let query = supabase
+          .from('notes')
+          .select('id, book_id, page_number, selected_text, title, content, color, position, created_at, updated_at, note_tags(tag_id)')
+          .eq('user_id', user.id);
+        if (bookId) query = query.eq('book_id', bookId);
+        return query.order('created_at', { ascending: true }).range(from, to);
+      }),
+      fetchAllRows((from, to) => supabase
+        .from('book_sections')
+        .select('id, book_id, title, level, start_page, end_page, source')
+        .in('book_id', bookIds)
+        .order('start_page', { ascending: true })
+        .order('position', { ascending: true })
+        .range(from, to)),
+      supabase
+        .from('tags')
+        .select('id, name, color')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true }),
+    ]);
+
+    if (tagResult.error) throw tagResult.error;
+
+    return {
+      version: ANNOTATION_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      tags: tagResult.data || [],
+      books: (books || []).map(book => ({
+        ...book,
+        sections: preferOutlineSections(sections
+          .filter(section => section.book_id === book.id)
+          .map(({ book_id, ...section }) => ({ ...section, source: section.source as BookSection['source'] }))),
+        highlights: highlights
+          .filter(highlight => highlight.book_id === book.id)
+          .map(({ book_id, highlight_tags, ...highlight }) => ({
+            ...highlight,
+            tag_ids: (highlight_tags || []).map(link => link.tag_id),
+          })),
+        notes: notes
+          .filter(note => note.book_id === book.id)
+          .map(({ book_id, note_tags, ...note }) => ({
+            ...note,
+            tag_ids: (note_tags || []).map(link => link.tag_id),
+          })),
+      })),
+    };
+  };
+
+  // Export one book, or the whole library when bookId is null, and download the file
+  const exportAnnotations = async (bookId: string | null, format: ExportFormat) => {
+    if (!user) return false;
+
+    setIsExporting(true);
+    try {
+      const data = await loadExport(bookId);
+      const baseName = bookId && data.books[0] ? `${safeFileName(data.books[0].title)} annotations` : 'Library annotations';
+
+      switch (format) {
+        case 'markdown':
+          downloadTextFile(`${baseName}.md`, toMarkdown(data), 'text/markdown');
+          break;
+        case 'obsidian': {
+          const zip = new JSZip();
+          toObsidianFiles(data).forEach(file => zip.file(file.path, file.content));
+          downloadBlob(`${baseName}.zip`, await zip.generateAsync({ type: 'blob' }));
+          break;
+        }
+        case 'readwise':
+          downloadTextFile(`${baseName}.csv`, toReadwiseCsv(data), 'text/csv');
+          break;
+        case 'json':
+          downloadTextFile(`${baseName}.json`, toJson(data), 'application/json');
+          break;
+      }
+
+      const highlightCount = data.books.reduce((sum, book) => sum + book.highlights.length, 0);
+      const noteCount = data.books.reduce((sum, book) => sum + book.notes.length, 0);
+      toast({
+        title: "Export ready",
+        description: `Exported ${highlightCount} highlights and ${noteCount} notes.`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error exporting annotations:", error);
+      toast({
+        title: "Export failed",
+        description: error.message || "Could not export your highlights and notes",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return {
+    isExporting,
+    exportAnnotations
+  };
+}
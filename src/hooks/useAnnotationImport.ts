@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { highlightsQueryKey } from '@/hooks/useBookHighlights';
+import { findQuotePage, groupClippings, normalizeForMatch, parseClippingsFile, prepareSearchablePages } from '@/lib/annotationImport';
+import { createQuoteAnchor, serializeHighlightAnchor } from '@/lib/highlightAnchors';
+import { HIGHLIGHT_COLORS } from '@/lib/highlightColors';
+import { fetchAllRows } from '@/lib/supabaseRows';
+import { ClippingGroup, ImportedClipping, ImportResult, ImportSource, LibraryBook } from '@/types/import';
+
+// Highlights inserted per request
+const INSERT_BATCH_SIZE = 500;
+
+export interface ClippingsFile {
+  source: ImportSource;
+  books: LibraryBook[];
+  groups: ClippingGroup[];
+  skipped: number;
+}
+
+export function useAnnotationImport() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Parse an export and match its books to the library, for the review screen
+  const readClippingsFile = async (file: File): Promise<ClippingsFile | null> => {
+    if (!user) return null;
+
+    setIsReading(true);
+    try {
+      const parsed = parseClippingsFile(file.name, await file.text());
+      if (parsed.clippings.length === 0) {
+        throw new Error("No highlights were found in the file");
+      }
+
+      const { data, error } = await supabase
+        .from('books')
+        .select('id, title, author')
+        .eq('user_id', user.id)
+        .order('title', { ascending: true });
+
+      if (error) throw error;
+
+      const books = data || [];
+      return {
+        source: parsed.source,
+        books,
+        groups: groupClippings(parsed.clippings, books),
+        skipped: parsed.skipped,
+      };
+    } catch (error) {
+      console.error("Error reading clippings:", error);
+      toast({
+        title: "Could not read the file",
+        description: error.message || "The file couldn't be parsed",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Find each clipping's page and save it as a highlight, skipping quotes the book already has
+  const importBook = async (bookId: string, clippings: ImportedClipping[], result: ImportResult) => {
+    const [pages, existing] = await Promise.all([
+      fetchAllRows((from, to) => supabase
+        .from('book_pages')
+        .select('page_number, content')
+        .eq('book_id', bookId)
+        .order('page_number', { ascending: true })
+        .range(from, to)),
+      fetchAllRows((from, to) => supabase
+        .from('highlights')
+        .select('text')
+        .eq('book_id', bookId)
+        .eq('user_id', user.id)
+        .range(from, to)),
+    ]);
+
+    const searchable = prepareSearchablePages(pages);
+    const seen = new Set(existing.map(highlight => normalizeForMatch(highlight.text)));
+    const rows = [];
+
+    for (const clipping of clippings) {
+      const key = normalizeForMatch(clipping.text);
+      if (seen.has(key)) {
+        result.duplicates++;
+        continue;
+      }
+      seen.add(key);
+
+      const pageNumber = findQuotePage(clipping.text, searchable, clipping.page);
+      if (pageNumber === null) result.unplaced.push(clipping);
+
+      rows.push({
+        user_id: user.id,
+        book_id: bookId,
+        page_number: pageNumber,
+        text: clipping.text,
+        note: clipping.note,
+        color: HIGHLIGHT_COLORS[0].value,
+        position: serializeHighlightAnchor(createQuoteAnchor(clipping.text)),
+        imported_from: clipping.source,
+        ...(clipping.created_at ? { created_at: clipping.created_at } : {}),
+      });
+    }
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const { error } = await supabase.from('highlights').insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+      if (error) throw error;
+      result.imported += Math.min(INSERT_BATCH_SIZE, rows.length - start);
+    }
+
+    queryClient.invalidateQueries({ queryKey: highlightsQueryKey(bookId) });
+  };
+
+  // Import every group that has a book; groups left without one are skipped
+  const importClippings = async (groups: ClippingGroup[]): Promise<ImportResult | null> => {
+    if (!user) return null;
+
+    setIsImporting(true);
+    const result: ImportResult = { imported: 0, duplicates: 0, unplaced: [] };
+    try {
+      // Several exported books can be matched to the same library book
+      const byBook = new Map<string, ImportedClipping[]>();
+      for (const group of groups) {
+        if (group.book_id) {
+          byBook.set(group.book_id, [...(byBook.get(group.book_id) || []), ...group.clippings]);
+        }
+      }
+
+      for (const [bookId, clippings] of byBook) {
+        await importBook(bookId, clippings, result);
+      }
+
+      toast({
+        title: "Import complete",
+        description: `Imported ${result.imported} highlights${result.duplicates ? `, skipped ${result.duplicates} already in your library` : ''}.`,
+      });
+      return result;
+    } catch (error) {
+      console.error("Error importing highlights:", error);
+      toast({
+        title: "Import failed",
+        description: `${error.message || "An unexpected error occurred"}. ${result.imported} highlights were imported before it stopped.`,
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return {
+    isReading,
+    isImporting,
+    readClippingsFile,
+    importClippings
+  };
+}
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { parseHighlightAnchor } from '@/lib/highlightAnchors';
+import { Highlight } from '@/types/highlight';
+
+// Query key for a book's highlights; invalidate it after adding or removing one
+export const highlightsQueryKey = (bookId: string | null) => ['highlights', bookId];
+
+export function useBookHighlights(bookId: string | null) {
+  const { user } = useAuth();
+
+  const { data: highlights = [], isLoading, refetch } = useQuery({
+    queryKey: highlightsQueryKey(bookId),
+    queryFn: async (): Promise<Highlight[]> => {
+      try {
+        const { data, error } = await supabase
+          .from('highlights')
+          .select('id, book_id, page_number, text, color, note, position, created_at')
+          .eq('book_id', bookId)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        return (data || []).map(({ position, ...highlight }) => ({
+          ...highlight,
+          anchor: parseHighlightAnchor(position),
+        }));
+      } catch (error) {
+        console.error('Error fetching highlights:', error);
+        return [];
+      }
+    },
+    enabled: !!bookId && !!user,
+  });
+
+  return {
+    highlights,
+    isLoading,
+    refresh: refetch
+  };
+}
@@ -0,0 +1,91 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { parseHighlightAnchor } from '@/lib/highlightAnchors';
+import { Note, NoteChanges } from '@/types/note';
+
+// Query key for a book's notes; invalidate it after adding, editing or removing one
+export const notesQueryKey = (bookId: string | null) => ['notes', bookId];
+
+export function useBookNotes(bookId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // The book's notes in reading order; notes without a page come last
+  const { data: notes = [], isLoading, refetch } = useQuery({
+    queryKey: notesQueryKey(bookId),
+    queryFn: async (): Promise<Note[]> => {
+      try {
+        const { data, error } = await supabase
+          .from('notes')
+          .select('id, book_id, page_number, selected_text, title, content, color, position, created_at, updated_at, note_tags(tags(id, name, color))')
+          .eq('book_id', bookId)
+          .eq('user_id', user.id)
+          .order('page_number', { ascending: true, nullsFirst: false })
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        return (data || []).map(({ position, note_tags, ...note }) => ({
+          ...note,
+          anchor: parseHighlightAnchor(position),
+          tags: (note_tags || []).map(link => link.tags).filter(Boolean),
+        }));
+      } catch (error) {
+        console.error("Error loading notes:", error);
+        return [];
+      }
+    },
+    enabled: !!bookId && !!user,
+  });
+
+  const refreshNotes = () => queryClient.invalidateQueries({ queryKey: notesQueryKey(bookId) });
+
+  const updateNote = async (note: Note, changes: NoteChanges) => {
+    const { error } = await supabase
+      .from('notes')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', note.id);
+
+    if (error) {
+      console.error("Error updating note:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the note",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    refreshNotes();
+    return true;
+  };
+
+  const deleteNote = async (note: Note) => {
+    queryClient.setQueryData<Note[]>(notesQueryKey(bookId), prev => (prev || []).filter(n => n.id !== note.id));
+
+    const { error } = await supabase
+      .from('notes')
+      .delete()
+      .eq('id', note.id);
+
+    if (error) {
+      console.error("Error deleting note:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the note",
+        variant: "destructive",
+      });
+      refreshNotes();
+    }
+  };
+
+  return {
+    notes,
+    isLoading,
+    updateNote,
+    deleteNote,
+    refresh: refetch
+  };
+}
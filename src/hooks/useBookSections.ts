@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { preferOutlineSections } from '@/lib/bookSections';
+import { BookSection } from '@/types/section';
+
+export function useBookSections(bookId: string | null) {
+  const [sections, setSections] = useState<BookSection[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the book's sections in reading order; outline entries win over detected headings
+  const loadSections = useCallback(async () => {
+    if (!bookId) {
+      setSections([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('book_sections')
+        .select('id, title, level, start_page, end_page, source')
+        .eq('book_id', bookId)
+        .order('start_page', { ascending: true })
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+
+      const loaded = (data || []).map(section => ({
+        ...section,
+        source: section.source as BookSection['source'],
+      }));
+      setSections(preferOutlineSections(loaded));
+    } catch (error) {
+      console.error("Error loading book sections:", error);
+      setSections([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookId]);
+
+  useEffect(() => {
+    loadSections();
+  }, [loadSections]);
+
+  return {
+    sections,
+    isLoading,
+    refresh: loadSections
+  };
+}
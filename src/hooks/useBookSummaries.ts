@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { BookSummary, SummaryStatus } from '@/types/summary';
+import { ContextScope, SearchScope } from '@/types/scope';
+
+interface SummaryRequest {
+  scope: SearchScope;
+  pageRange: { start: number; end: number } | null;
+  pageNumber: number;
+  title?: string;
+  regenerate: boolean;
+}
+
+const SUMMARY_COLUMNS = 'id, scope, title, start_page, end_page, model, summary, status, error, created_at, updated_at';
+
+// How often to check on a summary being written in the background, and how long it may take
+// before its worker is taken to have stopped (matching the edge function's limit)
+const SUMMARY_POLL_INTERVAL_MS = 3000;
+const SUMMARY_STALE_MS = 10 * 60 * 1000;
+
+type SummaryRow = Omit<BookSummary, 'scope' | 'status'> & { scope: string; status: string };
+
+const toBookSummary = (row: SummaryRow): BookSummary => ({
+  ...row,
+  scope: row.scope as SearchScope,
+  status: row.status as SummaryStatus,
+});
+
+export function useBookSummaries(bookId: string | null) {
+  const [summaries, setSummaries] = useState<BookSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Id of the summary being regenerated, or 'new' while summarizing the current scope
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  // The book shown now, so polling for a summary of another book stops
+  const bookIdRef = useRef(bookId);
+  bookIdRef.current = bookId;
+
+  // Put a summary in the list in place of any stored summary of the same pages from the same model
+  const storeSummary = useCallback((summary: BookSummary) => {
+    setSummaries(prev => [
+      summary,
+      ...prev.filter(s => s.id !== summary.id &&
+        !(s.start_page === summary.start_page && s.end_page === summary.end_page && s.model === summary.model))
+    ]);
+  }, []);
+
+  // Poll a summary being written until it is ready or failed. Resolves to null once the
+  // reader has moved to another book.
+  const waitForSummary = useCallback(async (id: string): Promise<BookSummary | null> => {
+    const watchedBookId = bookIdRef.current;
+
+    while (bookIdRef.current === watchedBookId) {
+      await new Promise(resolve => setTimeout(resolve, SUMMARY_POLL_INTERVAL_MS));
+
+      const { data, error } = await supabase
+        .from('book_summaries')
+        .select(SUMMARY_COLUMNS)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error("The summary was dropped because the book's pages changed");
+
+      const summary = toBookSummary(data);
+      if (summary.status !== 'pending') return summary;
+      if (summary.updated_at && Date.now() - new Date(summary.updated_at).getTime() > SUMMARY_STALE_MS) {
+        return { ...summary, status: 'failed', error: "Summarizing took too long. Please try again." };
+      }
+    }
+
+    return null;
+  }, []);
+
+  // Follow a summary until it is written, showing it when ready and the reason when it failed
+  const followSummary = useCallback(async (summary: BookSummary, requestId: string): Promise<BookSummary | null> => {
+    try {
+      setGeneratingId(requestId);
+      storeSummary(summary);
+
+      const written = summary.status === 'pending' ? await waitForSummary(summary.id) : summary;
+      if (!written) return null;
+
+      storeSummary(written);
+      if (written.status === 'failed') {
+        throw new Error(written.error || "Sorry, I couldn't summarize these pages");
+      }
+
+      return written;
+    } catch (error) {
+      console.error("Error generating summary:", error);
+      toast({
+        title: "Summary Failed",
+        description: error.message || "Failed to generate summary",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setGeneratingId(null);
+    }
+  }, [storeSummary, waitForSummary]);
+
+  // Load the book's stored summaries, most recently written first
+  const loadSummaries = useCallback(async () => {
+    if (!bookId) {
+      setSummaries([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('book_summaries')
+        .select(SUMMARY_COLUMNS)
+        .eq('book_id', bookId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      const loaded = (data || []).map(toBookSummary);
+      setSummaries(loaded);
+
+      // Carry on waiting for a summary requested before the panel was last opened
+      const pending = loaded.find(summary => summary.status === 'pending');
+      if (pending) {
+        followSummary(pending, pending.summary ? pending.id : 'new');
+      }
+    } catch (error) {
+      console.error("Error loading summaries:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookId, followSummary]);
+
+  useEffect(() => {
+    loadSummaries();
+  }, [loadSummaries]);
+
+  const requestSummary = async (request: SummaryRequest, requestId: string): Promise<BookSummary | null> => {
+    if (!bookId) return null;
+
+    try {
+      setGeneratingId(requestId);
+      const response = await supabase.functions.invoke('ai-assistant', {
+        body: {
+          mode: 'summarize',
+          bookId,
+          searchScope: request.scope,
+          pageRange: request.pageRange,
+          pageNumber: request.pageNumber,
+          title: request.title,
+          regenerate: request.regenerate
+        }
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || "Error generating summary");
+      }
+
+      if (!response.data?.summary) {
+        throw new Error(response.data?.error || "Sorry, I couldn't summarize these pages");
+      }
+
+      if (response.data.cached) {
+        toast({
+          title: "Saved summary",
+          description: "These pages were summarized before. Use Regenerate for a fresh summary.",
+        });
+      }
+
+      // The summary is written in the background; wait for it here
+      return followSummary(toBookSummary(response.data.summary), requestId);
+    } catch (error) {
+      console.error("Error generating summary:", error);
+      toast({
+        title: "Summary Failed",
+        description: error.message || "Failed to generate summary",
+        variant: "destructive",
+      });
+      setGeneratingId(null);
+      return null;
+    }
+  };
+
+  // Summarize the pages a scope covers, reusing a stored summary when there is one
+  const summarize = (scope: ContextScope, currentPage: number) =>
+    requestSummary({
+      scope: scope.type,
+      pageRange: scope.pageRange,
+      pageNumber: currentPage,
+      title: scope.type === 'page' ? `Page ${currentPage}` : scope.type === 'book' ? undefined : scope.label,
+      regenerate: false
+    }, 'new');
+
+  // Write a stored summary again from scratch
+  const regenerate = (summary: BookSummary) =>
+    requestSummary({
+      scope: summary.scope,
+      pageRange: { start: summary.start_page, end: summary.end_page },
+      pageNumber: summary.start_page,
+      title: summary.title ?? undefined,
+      regenerate: true
+    }, summary.id);
+
+  const deleteSummary = async (summary: BookSummary) => {
+    setSummaries(prev => prev.filter(s => s.id !== summary.id));
+
+    const { error } = await supabase
+      .from('book_summaries')
+      .delete()
+      .eq('id', summary.id);
+
+    if (error) {
+      console.error("Error deleting summary:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the summary",
+        variant: "destructive",
+      });
+      loadSummaries();
+    }
+  };
+
+  return {
+    // Summaries with text to show; a new one joins the list once it has been written
+    summaries: summaries.filter(summary => summary.summary !== null),
+    isLoading,
+    generatingId,
+    summarize,
+    regenerate,
+    deleteSummary,
+    refresh: loadSummaries
+  };
+}
@@ -3,9 +3,12 @@ import { useState, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
-import { Message } from '@/types/message';
+import { useAuth } from '@/contexts/AuthContext';
+import { Json } from '@/integrations/supabase/types';
+import { Message, MessageSource } from '@/types/message';
 
 export function useMessages(bookId: string | null) {
+  const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
   const [conversationId, setConversationId] = useState<string | null>(null);
 
@@ -47,6 +50,7 @@ export function useMessages(bookId: string | null) {
         role: msg.role as 'user' | 'assistant',
         content: msg.content,
         timestamp: new Date(msg.created_at).toISOString(),
+        sources: (msg.sources as unknown as MessageSource[] | null) ?? undefined,
       }));
 
       setMessages(formattedMessages);
@@ -64,17 +68,36 @@ export function useMessages(bookId: string | null) {
     setMessages(prev => [...prev, message]);
   };
 
+  const updateMessage = (id: string, updates: Partial<Message>) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...updates } : msg));
+  };
+
   const saveMessagesToDatabase = async (messages: Message[]) => {
     if (!conversationId) return;
     
     try {
+      // The conversation id is created client-side, so make sure its row exists
+      if (user && bookId) {
+        const { error: conversationError } = await supabase
+          .from('ai_conversations')
+          .upsert({
+            id: conversationId,
+            user_id: user.id,
+            book_id: bookId
+          }, { onConflict: 'id', ignoreDuplicates: true });
+        
+        if (conversationError) throw conversationError;
+      }
+      
       const messagesToSave = messages.map(msg => ({
         conversation_id: conversationId,
         role: msg.role,
-        content: msg.content
+        content: msg.content,
+        sources: (msg.sources ?? null) as unknown as Json
       }));
       
-      await supabase.from('ai_messages').insert(messagesToSave);
+      const { error } = await supabase.from('ai_messages').insert(messagesToSave);
+      if (error) throw error;
     } catch (error) {
       console.error("Error saving messages:", error);
     }
@@ -83,6 +106,7 @@ export function useMessages(bookId: string | null) {
   return {
     messages,
     addMessage,
+    updateMessage,
     saveMessagesToDatabase,
     conversationId
   };
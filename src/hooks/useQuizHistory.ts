@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Quiz, QuizHistoryEntry, BookQuizScore } from '@/types/quiz';
+
+export function useQuizHistory(bookId: string | null) {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<QuizHistoryEntry[]>([]);
+  const [score, setScore] = useState<BookQuizScore | null>(null);
+
+  // Load past quizzes for the book with their answered/correct counts
+  const loadHistory = useCallback(async () => {
+    if (!bookId || !user) {
+      setHistory([]);
+      setScore(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('quizzes')
+        .select('id, created_at, page_number, search_scope, quiz_questions(id, quiz_attempts(is_correct))')
+        .eq('book_id', bookId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+
+      setHistory((data || []).map(quiz => {
+        const questions = quiz.quiz_questions || [];
+        const answeredQuestions = questions.filter(q => q.quiz_attempts && q.quiz_attempts.length > 0);
+        return {
+          id: quiz.id,
+          created_at: quiz.created_at,
+          page_number: quiz.page_number,
+          search_scope: quiz.search_scope,
+          total: questions.length,
+          answered: answeredQuestions.length,
+          correct: answeredQuestions.filter(q => q.quiz_attempts.some(attempt => attempt.is_correct)).length
+        };
+      }));
+
+      const { data: scoreData, error: scoreError } = await supabase
+        .from('book_quiz_scores')
+        .select('book_id, attempts, correct, score_percent')
+        .eq('book_id', bookId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (scoreError) throw scoreError;
+
+      setScore(scoreData as BookQuizScore | null);
+    } catch (error) {
+      console.error("Error loading quiz history:", error);
+    }
+  }, [bookId, user]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Save a generated quiz and its questions, returning the quiz with question ids filled in
+  // and marked saved only when every row was stored
+  const saveQuiz = async (quiz: Quiz, pageNumber: number, searchScope: string): Promise<Quiz> => {
+    const savedQuiz: Quiz = {
+      ...quiz,
+      questions: quiz.questions.map(question => ({ ...question, id: question.id || uuidv4() })),
+      saved: false
+    };
+
+    if (!bookId || !user) return savedQuiz;
+
+    try {
+      // Link page-scoped quizzes to the page they were generated from
+      let pageId: string | null = null;
+      if (searchScope === 'page') {
+        const { data: pageData } = await supabase
+          .from('book_pages')
+          .select('id')
+          .eq('book_id', bookId)
+          .eq('page_number', pageNumber)
+          .limit(1)
+          .maybeSingle();
+        pageId = pageData?.id || null;
+      }
+
+      const { error: quizError } = await supabase
+        .from('quizzes')
+        .insert({
+          id: savedQuiz.id,
+          user_id: user.id,
+          book_id: bookId,
+          page_id: pageId,
+          page_number: pageNumber,
+          search_scope: searchScope,
+          source_content: savedQuiz.sourceContent
+        });
+
+      if (quizError) throw quizError;
+
+      const { error: questionsError } = await supabase
+        .from('quiz_questions')
+        .insert(savedQuiz.questions.map((question, index) => ({
+          id: question.id,
+          quiz_id: savedQuiz.id,
+          user_id: user.id,
+          question_index: index,
+          question: question.question,
+          options: question.options,
+          correct_index: question.correctIndex
+        })));
+
+      if (questionsError) throw questionsError;
+
+      savedQuiz.saved = true;
+      await loadHistory();
+    } catch (error) {
+      console.error("Error saving quiz:", error);
+    }
+
+    return savedQuiz;
+  };
+
+  // Record the reader's answer to a question along with the AI's evaluation
+  const saveAttempt = async (questionId: string, selectedIndex: number, isCorrect: boolean, evaluation: string) => {
+    if (!bookId || !user) return;
+
+    try {
+      const { error } = await supabase
+        .from('quiz_attempts')
+        .insert({
+          question_id: questionId,
+          user_id: user.id,
+          book_id: bookId,
+          selected_index: selectedIndex,
+          is_correct: isCorrect,
+          evaluation
+        });
+
+      if (error) throw error;
+
+      await loadHistory();
+    } catch (error) {
+      console.error("Error saving quiz attempt:", error);
+    }
+  };
+
+  return {
+    history,
+    score,
+    saveQuiz,
+    saveAttempt
+  };
+}
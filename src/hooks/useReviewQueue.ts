@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReviewCard } from '@/types/review';
+import { ReviewGrade, scheduleReview } from '@/lib/spacedRepetition';
+
+const MAX_CARDS_PER_SESSION = 50;
+
+export function useReviewQueue() {
+  const { user } = useAuth();
+  const [dueCards, setDueCards] = useState<ReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load cards that are due now, across all books
+  const loadDueCards = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('review_cards')
+        .select('id, book_id, source_type, page_number, front, back, ease_factor, interval_days, repetitions, lapses, due_at, books(title)')
+        .eq('user_id', user.id)
+        .lte('due_at', new Date().toISOString())
+        .order('due_at', { ascending: true })
+        .limit(MAX_CARDS_PER_SESSION);
+
+      if (error) throw error;
+
+      setDueCards((data || []).map(card => ({
+        id: card.id,
+        book_id: card.book_id,
+        book_title: card.books?.title ?? null,
+        source_type: card.source_type as ReviewCard['source_type'],
+        page_number: card.page_number,
+        front: card.front,
+        back: card.back,
+        ease_factor: Number(card.ease_factor),
+        interval_days: card.interval_days,
+        repetitions: card.repetitions,
+        lapses: card.lapses,
+        due_at: card.due_at,
+      })));
+    } catch (error) {
+      console.error("Error loading review cards:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load review cards",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadDueCards();
+  }, [loadDueCards]);
+
+  // Reschedule a card from the reader's grade and drop it from the current queue
+  const gradeCard = async (card: ReviewCard, grade: ReviewGrade) => {
+    const next = scheduleReview({
+      easeFactor: card.ease_factor,
+      intervalDays: card.interval_days,
+      repetitions: card.repetitions,
+      lapses: card.lapses,
+    }, grade);
+
+    setDueCards(prev => prev.filter(c => c.id !== card.id));
+
+    try {
+      const { error } = await supabase
+        .from('review_cards')
+        .update({
+          ease_factor: next.easeFactor,
+          interval_days: next.intervalDays,
+          repetitions: next.repetitions,
+          lapses: next.lapses,
+          due_at: next.dueAt.toISOString(),
+          last_reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', card.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving review:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your review",
+        variant: "destructive",
+      });
+      // Put the card back so the review isn't lost
+      setDueCards(prev => [card, ...prev]);
+    }
+
+    return next;
+  };
+
+  return {
+    dueCards,
+    isLoading,
+    gradeCard,
+    refresh: loadDueCards
+  };
+}
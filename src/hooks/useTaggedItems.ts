@@ -0,0 +1,84 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { taggedItemsQueryKey } from '@/hooks/useTags';
+import { groupTaggedItemsByBook } from '@/lib/tags';
+import { TaggedBook, TaggedItem } from '@/types/tag';
+
+// Everything carrying a tag, from all of the user's books, grouped by book
+export function useTaggedItems(tagId: string | null) {
+  const { user } = useAuth();
+
+  const { data: books = [], isLoading } = useQuery({
+    queryKey: taggedItemsQueryKey(tagId),
+    queryFn: async (): Promise<TaggedBook[]> => {
+      try {
+        const [highlightLinks, noteLinks, bookList] = await Promise.all([
+          supabase
+            .from('highlight_tags')
+            .select('highlights(id, book_id, page_number, text, color, note, created_at)')
+            .eq('tag_id', tagId),
+          supabase
+            .from('note_tags')
+            .select('notes(id, book_id, page_number, selected_text, title, content, color, created_at)')
+            .eq('tag_id', tagId),
+          supabase
+            .from('books')
+            .select('id, title')
+            .eq('user_id', user.id),
+        ]);
+
+        if (highlightLinks.error) throw highlightLinks.error;
+        if (noteLinks.error) throw noteLinks.error;
+        if (bookList.error) throw bookList.error;
+
+        const titles = new Map((bookList.data || []).map(book => [book.id, book.title]));
+        const bookTitle = (bookId: string) => titles.get(bookId) ?? 'Unknown book';
+
+        const items: TaggedItem[] = [
+          ...(highlightLinks.data || [])
+            .map(link => link.highlights)
+            .filter(Boolean)
+            .map(highlight => ({
+              kind: 'highlight' as const,
+              id: highlight.id,
+              book_id: highlight.book_id,
+              book_title: bookTitle(highlight.book_id),
+              page_number: highlight.page_number,
+              text: highlight.text,
+              title: null,
+              content: highlight.note,
+              color: highlight.color,
+              created_at: highlight.created_at,
+            })),
+          ...(noteLinks.data || [])
+            .map(link => link.notes)
+            .filter(Boolean)
+            .map(note => ({
+              kind: 'note' as const,
+              id: note.id,
+              book_id: note.book_id,
+              book_title: bookTitle(note.book_id),
+              page_number: note.page_number,
+              text: note.selected_text,
+              title: note.title,
+              content: note.content,
+              color: note.color,
+              created_at: note.created_at,
+            })),
+        ];
+
+        return groupTaggedItemsByBook(items);
+      } catch (error) {
+        console.error("Error loading tagged items:", error);
+        return [];
+      }
+    },
+    enabled: !!tagId && !!user,
+  });
+
+  return {
+    books,
+    isLoading
+  };
+}
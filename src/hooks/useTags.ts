@@ -0,0 +1,218 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { findTagByName, normalizeTagName } from '@/lib/tags';
+import { Tag, TagUsage } from '@/types/tag';
+
+// Query key for the user's tags and their counts
+export const tagsQueryKey = ['tags'];
+
+// Query key prefix for the tag browser's lists of tagged items
+export const taggedItemsQueryKey = (tagId: string | null) => ['tagged-items', tagId];
+
+export function useTags() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  // All of the user's tags by name, with how many highlights and notes carry each
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: tagsQueryKey,
+    queryFn: async (): Promise<TagUsage[]> => {
+      try {
+        const { data, error } = await supabase
+          .from('tags')
+          .select('id, name, color, highlight_tags(count), note_tags(count)')
+          .eq('user_id', user.id)
+          .order('name', { ascending: true });
+
+        if (error) throw error;
+
+        return (data || []).map(({ highlight_tags, note_tags, ...tag }) => ({
+          ...tag,
+          highlight_count: highlight_tags?.[0]?.count ?? 0,
+          note_count: note_tags?.[0]?.count ?? 0,
+        }));
+      } catch (error) {
+        console.error("Error loading tags:", error);
+        return [];
+      }
+    },
+    enabled: !!user,
+  });
+
+  // Tags, counts, tagged notes and the tag browser all change together
+  const refreshTagged = () => {
+    queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+    queryClient.invalidateQueries({ queryKey: ['tagged-items'] });
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+  };
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  // Find the tag with this name, or create it with the given color
+  const createTag = async (name: string, color: string | null): Promise<Tag | null> => {
+    const tagName = normalizeTagName(name);
+    if (!tagName || !user) return null;
+
+    const existing = findTagByName(tags, tagName);
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from('tags')
+      .insert({ user_id: user.id, name: tagName, color })
+      .select('id, name, color')
+      .single();
+
+    if (error) {
+      showError("Failed to create the tag", error);
+      return null;
+    }
+
+    queryClient.invalidateQueries({ queryKey: tagsQueryKey });
+    return data;
+  };
+
+  // Rename a tag; renaming onto another tag's name has to be a merge instead
+  const renameTag = async (tag: Tag, name: string) => {
+    const tagName = normalizeTagName(name);
+    if (!tagName) return false;
+
+    const existing = findTagByName(tags, tagName);
+    if (existing && existing.id !== tag.id) {
+      toast({
+        title: "Tag already exists",
+        description: `Merge "${tag.name}" into "${existing.name}" to combine them.`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('tags')
+      .update({ name: tagName })
+      .eq('id', tag.id);
+
+    if (error) {
+      showError("Failed to rename the tag", error);
+      return false;
+    }
+
+    refreshTagged();
+    return true;
+  };
+
+  const setTagColor = async (tag: Tag, color: string) => {
+    const { error } = await supabase
+      .from('tags')
+      .update({ color })
+      .eq('id', tag.id);
+
+    if (error) {
+      showError("Failed to change the tag's color", error);
+      return;
+    }
+
+    refreshTagged();
+  };
+
+  // Move everything tagged with source to target and delete source
+  const mergeTags = async (source: Tag, target: Tag) => {
+    const { error } = await supabase.rpc('merge_tags', {
+      p_source_tag_id: source.id,
+      p_target_tag_id: target.id,
+    });
+
+    if (error) {
+      showError("Failed to merge the tags", error);
+      return false;
+    }
+
+    refreshTagged();
+    return true;
+  };
+
+  const deleteTag = async (tag: Tag) => {
+    const { error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tag.id);
+
+    if (error) {
+      showError("Failed to delete the tag", error);
+      return false;
+    }
+
+    refreshTagged();
+    return true;
+  };
+
+  // Replace a highlight's tags
+  const setHighlightTags = async (highlightId: string, tagIds: string[]) => {
+    try {
+      let remove = supabase.from('highlight_tags').delete().eq('highlight_id', highlightId);
+      if (tagIds.length > 0) {
+        remove = remove.not('tag_id', 'in', `(${tagIds.join(',')})`);
+      }
+      const { error: removeError } = await remove;
+      if (removeError) throw removeError;
+
+      if (tagIds.length > 0) {
+        const { error } = await supabase
+          .from('highlight_tags')
+          .upsert(tagIds.map(tagId => ({ highlight_id: highlightId, tag_id: tagId })), { ignoreDuplicates: true });
+        if (error) throw error;
+      }
+
+      refreshTagged();
+      return true;
+    } catch (error) {
+      showError("Failed to save the highlight's tags", error);
+      return false;
+    }
+  };
+
+  // Replace a note's tags
+  const setNoteTags = async (noteId: string, tagIds: string[]) => {
+    try {
+      let remove = supabase.from('note_tags').delete().eq('note_id', noteId);
+      if (tagIds.length > 0) {
+        remove = remove.not('tag_id', 'in', `(${tagIds.join(',')})`);
+      }
+      const { error: removeError } = await remove;
+      if (removeError) throw removeError;
+
+      if (tagIds.length > 0) {
+        const { error } = await supabase
+          .from('note_tags')
+          .upsert(tagIds.map(tagId => ({ note_id: noteId, tag_id: tagId })), { ignoreDuplicates: true });
+        if (error) throw error;
+      }
+
+      refreshTagged();
+      return true;
+    } catch (error) {
+      showError("Failed to save the note's tags", error);
+      return false;
+    }
+  };
+
+  return {
+    tags,
+    isLoading,
+    createTag,
+    renameTag,
+    setTagColor,
+    mergeTags,
+    deleteTag,
+    setHighlightTags,
+    setNoteTags
+  };
+}
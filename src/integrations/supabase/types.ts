@@ -14,6 +14,8 @@ export type Database = {
           book_id: string
           created_at: string
           id: string
+          summarized_until: string | null
+          summary: string | null
           title: string | null
           updated_at: string
           user_id: string
@@ -22,6 +24,8 @@ export type Database = {
           book_id: string
           created_at?: string
           id?: string
+          summarized_until?: string | null
+          summary?: string | null
           title?: string | null
           updated_at?: string
           user_id: string
@@ -30,6 +34,8 @@ export type Database = {
           book_id?: string
           created_at?: string
           id?: string
+          summarized_until?: string | null
+          summary?: string | null
           title?: string | null
           updated_at?: string
           user_id?: string
@@ -52,6 +58,7 @@ export type Database = {
           id: string
           related_highlight_id: string | null
           role: string
+          sources: Json | null
         }
         Insert: {
           content: string
@@ -60,6 +67,7 @@ export type Database = {
           id?: string
           related_highlight_id?: string | null
           role: string
+          sources?: Json | null
         }
         Update: {
           content?: string
@@ -68,6 +76,7 @@ export type Database = {
           id?: string
           related_highlight_id?: string | null
           role?: string
+          sources?: Json | null
         }
         Relationships: [
           {
@@ -91,27 +100,42 @@ export type Database = {
           book_id: string
           chunk_index: number
           content: string
+          content_tsv: unknown | null
           created_at: string | null
           embedding: string
+          embedding_dimensions: number | null
+          embedding_model: string | null
           id: string
+          next_embedding: string | null
+          next_embedding_model: string | null
           page_id: string
         }
         Insert: {
           book_id: string
           chunk_index: number
           content: string
+          content_tsv?: never
           created_at?: string | null
           embedding: string
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
           id?: string
+          next_embedding?: string | null
+          next_embedding_model?: string | null
           page_id: string
         }
         Update: {
           book_id?: string
           chunk_index?: number
           content?: string
+          content_tsv?: never
           created_at?: string | null
           embedding?: string
+          embedding_dimensions?: number | null
+          embedding_model?: string | null
           id?: string
+          next_embedding?: string | null
+          next_embedding_model?: string | null
           page_id?: string
         }
         Relationships: [
@@ -165,24 +189,33 @@ export type Database = {
         Row: {
           book_id: string
           content: string | null
+          content_hash: string | null
           created_at: string | null
           id: string
+          ocr: boolean
+          ocr_confidence: number | null
           page_number: number
           user_id: string
         }
         Insert: {
           book_id: string
           content?: string | null
+          content_hash?: string | null
           created_at?: string | null
           id: string
+          ocr?: boolean
+          ocr_confidence?: number | null
           page_number: number
           user_id: string
         }
         Update: {
           book_id?: string
           content?: string | null
+          content_hash?: string | null
           created_at?: string | null
           id?: string
+          ocr?: boolean
+          ocr_confidence?: number | null
           page_number?: number
           user_id?: string
         }
@@ -196,6 +229,109 @@ export type Database = {
           },
         ]
       }
+      book_sections: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          end_page: number | null
+          id: string
+          level: number
+          position: number
+          source: string
+          start_page: number
+          title: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          end_page?: number | null
+          id?: string
+          level?: number
+          position?: number
+          source?: string
+          start_page: number
+          title: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          end_page?: number | null
+          id?: string
+          level?: number
+          position?: number
+          source?: string
+          start_page?: number
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_sections_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      book_summaries: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          end_page: number
+          error: string | null
+          id: string
+          model: string
+          scope: string
+          start_page: number
+          status: string
+          summary: string | null
+          title: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          end_page: number
+          error?: string | null
+          id?: string
+          model: string
+          scope?: string
+          start_page: number
+          status?: string
+          summary?: string | null
+          title?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          end_page?: number
+          error?: string | null
+          id?: string
+          model?: string
+          scope?: string
+          start_page?: number
+          status?: string
+          summary?: string | null
+          title?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "book_summaries_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       books: {
         Row: {
           author: string | null
@@ -283,6 +419,7 @@ export type Database = {
           color: string | null
           created_at: string
           id: string
+          imported_from: string | null
           note: string | null
           page_number: number | null
           position: string | null
@@ -294,6 +431,7 @@ export type Database = {
           color?: string | null
           created_at?: string
           id?: string
+          imported_from?: string | null
           note?: string | null
           page_number?: number | null
           position?: string | null
@@ -305,6 +443,7 @@ export type Database = {
           color?: string | null
           created_at?: string
           id?: string
+          imported_from?: string | null
           note?: string | null
           page_number?: number | null
           position?: string | null
@@ -321,6 +460,365 @@ export type Database = {
           },
         ]
       }
+      note_tags: {
+        Row: {
+          note_id: string
+          tag_id: string
+        }
+        Insert: {
+          note_id: string
+          tag_id: string
+        }
+        Update: {
+          note_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_tags_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notes: {
+        Row: {
+          book_id: string
+          color: string | null
+          content: string | null
+          created_at: string | null
+          id: string
+          page_number: number | null
+          position: string | null
+          selected_text: string
+          source_message_id: string | null
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          color?: string | null
+          content?: string | null
+          created_at?: string | null
+          id?: string
+          page_number?: number | null
+          position?: string | null
+          selected_text: string
+          source_message_id?: string | null
+          title: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          color?: string | null
+          content?: string | null
+          created_at?: string | null
+          id?: string
+          page_number?: number | null
+          position?: string | null
+          selected_text?: string
+          source_message_id?: string | null
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          book_id: string
+          created_at: string | null
+          embedding_model: string | null
+          file_path: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_page: number
+          pages_per_run: number
+          run_after: string
+          status: string
+          total_pages: number | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          book_id: string
+          created_at?: string | null
+          embedding_model?: string | null
+          file_path: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_page?: number
+          pages_per_run?: number
+          run_after?: string
+          status?: string
+          total_pages?: number | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          book_id?: string
+          created_at?: string | null
+          embedding_model?: string | null
+          file_path?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_page?: number
+          pages_per_run?: number
+          run_after?: string
+          status?: string
+          total_pages?: number | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          evaluation: string | null
+          id: string
+          is_correct: boolean
+          question_id: string
+          selected_index: number
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          evaluation?: string | null
+          id?: string
+          is_correct: boolean
+          question_id: string
+          selected_index: number
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          evaluation?: string | null
+          id?: string
+          is_correct?: boolean
+          question_id?: string
+          selected_index?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          correct_index: number
+          created_at: string | null
+          id: string
+          options: Json
+          question: string
+          question_index: number
+          quiz_id: string
+          user_id: string
+        }
+        Insert: {
+          correct_index: number
+          created_at?: string | null
+          id?: string
+          options: Json
+          question: string
+          question_index: number
+          quiz_id: string
+          user_id: string
+        }
+        Update: {
+          correct_index?: number
+          created_at?: string | null
+          id?: string
+          options?: Json
+          question?: string
+          question_index?: number
+          quiz_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          id: string
+          page_id: string | null
+          page_number: number | null
+          search_scope: string
+          source_content: string | null
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          id?: string
+          page_id?: string | null
+          page_number?: number | null
+          search_scope?: string
+          source_content?: string | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          id?: string
+          page_id?: string | null
+          page_number?: number | null
+          search_scope?: string
+          source_content?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quizzes_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "book_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_cards: {
+        Row: {
+          back: string | null
+          book_id: string
+          created_at: string | null
+          due_at: string
+          ease_factor: number
+          front: string
+          highlight_id: string | null
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          page_number: number | null
+          quiz_question_id: string | null
+          repetitions: number
+          source_type: string
+          user_id: string
+        }
+        Insert: {
+          back?: string | null
+          book_id: string
+          created_at?: string | null
+          due_at?: string
+          ease_factor?: number
+          front: string
+          highlight_id?: string | null
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          page_number?: number | null
+          quiz_question_id?: string | null
+          repetitions?: number
+          source_type: string
+          user_id: string
+        }
+        Update: {
+          back?: string | null
+          book_id?: string
+          created_at?: string | null
+          due_at?: string
+          ease_factor?: number
+          front?: string
+          highlight_id?: string | null
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          page_number?: number | null
+          quiz_question_id?: string | null
+          repetitions?: number
+          source_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_cards_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_cards_highlight_id_fkey"
+            columns: ["highlight_id"]
+            isOneToOne: false
+            referencedRelation: "highlights"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_cards_quiz_question_id_fkey"
+            columns: ["quiz_question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tags: {
         Row: {
           color: string | null
@@ -347,15 +845,76 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      book_embedding_status: {
+        Row: {
+          book_id: string | null
+          chunk_count: number | null
+          embedding_models: string[] | null
+          missing_embeddings: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      book_quiz_scores: {
+        Row: {
+          attempts: number | null
+          book_id: string | null
+          correct: number | null
+          last_attempt_at: string | null
+          score_percent: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      activate_reembedded_chunks: {
+        Args: {
+          p_book_id: string
+          p_embedding_model: string
+        }
+        Returns: number
+      }
+      claim_processing_job: {
+        Args: {
+          p_job_id?: string
+          p_lock_timeout?: unknown
+        }
+        Returns: {
+          attempts: number
+          book_id: string
+          created_at: string | null
+          embedding_model: string | null
+          file_path: string
+          id: string
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_page: number
+          pages_per_run: number
+          run_after: string
+          status: string
+          total_pages: number | null
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
       match_book_chunks: {
         Args: {
           query_embedding: string
           match_threshold: number
           match_count: number
           p_book_id: string
+          p_embedding_model?: string
         }
         Returns: {
           id: string
@@ -367,6 +926,87 @@ export type Database = {
           similarity: number
         }[]
       }
+      match_page_chunks: {
+        Args: {
+          query_embedding: string
+          page_id_param: string
+          match_threshold: number
+          match_count: number
+          p_embedding_model?: string
+        }
+        Returns: {
+          id: string
+          book_id: string
+          page_id: string
+          chunk_index: number
+          content: string
+          similarity: number
+        }[]
+      }
+      merge_tags: {
+        Args: {
+          p_source_tag_id: string
+          p_target_tag_id: string
+        }
+        Returns: undefined
+      }
+      refresh_book_section_ranges: {
+        Args: {
+          p_book_id: string
+          p_total_pages: number
+        }
+        Returns: undefined
+      }
+      search_book_chunks_hybrid: {
+        Args: {
+          p_book_id: string
+          query_text: string
+          query_embedding?: string
+          match_count?: number
+          p_page_id?: string
+          p_embedding_model?: string
+          match_threshold?: number
+          full_text_weight?: number
+          semantic_weight?: number
+          rrf_k?: number
+        }
+        Returns: {
+          id: string
+          book_id: string
+          page_id: string
+          chunk_index: number
+          content: string
+          similarity: number
+          text_rank: number
+          score: number
+        }[]
+      }
+      search_book_chunks_in_page_range: {
+        Args: {
+          p_book_id: string
+          query_text: string
+          p_start_page: number
+          p_end_page: number
+          query_embedding?: string
+          match_count?: number
+          p_embedding_model?: string
+          match_threshold?: number
+          full_text_weight?: number
+          semantic_weight?: number
+          rrf_k?: number
+        }
+        Returns: {
+          id: string
+          book_id: string
+          page_id: string
+          page_number: number
+          chunk_index: number
+          content: string
+          similarity: number
+          text_rank: number
+          score: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANNOTATION_EXPORT_VERSION,
+  groupAnnotations,
+  READWISE_CSV_COLUMNS,
+  toJson,
+  toMarkdown,
+  toObsidianFiles,
+  toReadwiseCsv,
+} from './annotationExport';
+import { AnnotationExport, ExportBook, ExportHighlight, ExportNote } from '@/types/export';
+import { Tag } from '@/types/tag';
+
+const TAGS: Tag[] = [
+  { id: 't1', name: 'big ideas', color: null },
+  { id: 't2', name: '2024', color: null },
+  { id: 't3', name: 'unused', color: null },
+];
+
+const highlight = (id: string, page: number | null, text: string, createdAt: string, extra: Partial<ExportHighlight> = {}): ExportHighlight => ({
+  id,
+  page_number: page,
+  text,
+  color: null,
+  note: null,
+  position: null,
+  created_at: createdAt,
+  tag_ids: [],
+  ...extra,
+});
+
+const note = (id: string, page: number | null, selectedText: string, title: string, content: string, createdAt: string, tagIds: string[] = []): ExportNote => ({
+  id,
+  page_number: page,
+  selected_text: selectedText,
+  title,
+  content,
+  color: null,
+  position: null,
+  created_at: createdAt,
+  updated_at: null,
+  tag_ids: tagIds,
+});
+
+// A book with chapters (and a nested section, which doesn't get a group of its own)
+const CHAPTERED_BOOK: ExportBook = {
+  id: 'b1',
+  title: 'The "Long" Winter',
+  author: 'Ana Ruiz',
+  file_type: 'application/pdf',
+  sections: [
+    { id: 's1', title: 'Beginnings', level: 1, start_page: 1, end_page: 10, source: 'outline' },
+    { id: 's1a', title: 'Early days', level: 2, start_page: 1, end_page: 4, source: 'outline' },
+    { id: 's2', title: 'The Middle', level: 1, start_page: 11, end_page: null, source: 'outline' },
+  ],
+  highlights: [
+    highlight('h2', 12, 'She said, "wait"\nand left.', '2025-01-03T09:30:15Z', { note: 'Important, see ch. 2' }),
+    highlight('h3', null, 'Unplaced quote.', '2025-01-04T18:00:00Z'),
+    highlight('h1', 3, 'Ice closed the bay.', '2025-01-02T10:00:00Z', {
+      color: 'bg-green-200 dark:bg-green-800/50',
+      position: '{"quote":{"exact":"Ice closed the bay.","prefix":"","suffix":""},"position":{"start":4,"end":23},"rects":[]}',
+      tag_ids: ['t1'],
+    }),
+  ],
+  notes: [
+    note('n1', 5, 'The council met every week.', 'Question', 'Why weekly?', '2025-01-01T08:00:00Z', ['t2', 't1']),
+  ],
+};
+
+// A book without a table of contents
+const UNSECTIONED_BOOK: ExportBook = {
+  id: 'b2',
+  title: 'Notes/Drafts',
+  author: null,
+  file_type: null,
+  sections: [],
+  highlights: [
+    highlight('h4', 9, 'Last page.', '2025-01-05T00:00:00Z'),
+    highlight('h5', 4, 'Second on page four.', '2025-01-06T00:00:00Z'),
+    highlight('h6', 4, 'First on page four.', '2025-01-05T00:00:00Z'),
+  ],
+  notes: [],
+};
+
+const EMPTY_BOOK: ExportBook = {
+  id: 'b3',
+  title: 'notes:drafts',
+  author: null,
+  file_type: 'application/epub+zip',
+  sections: [],
+  highlights: [],
+  notes: [],
+};
+
+const DATA: AnnotationExport = {
+  version: ANNOTATION_EXPORT_VERSION,
+  exported_at: '2025-02-01T12:34:56.000Z',
+  tags: TAGS,
+  books: [CHAPTERED_BOOK, UNSECTIONED_BOOK, EMPTY_BOOK],
+};
+
+const CHAPTERED_BODY = [
+  '## Beginnings',
+  '> Ice closed the bay.\n>\n> — p. 3',
+  '#big-ideas',
+  '**Question**',
+  '> The council met every week.\n>\n> — p. 5',
+  'Why weekly?',
+  '#tag-2024 #big-ideas',
+  '## The Middle',
+  '> She said, "wait"\n> and left.\n>\n> — p. 12',
+  'Important, see ch. 2',
+  '## Without a page',
+  '> Unplaced quote.',
+].join('\n\n');
+
+describe('groupAnnotations', () => {
+  it('groups by chapter in reading order, with unplaced annotations last', () => {
+    const groups = groupAnnotations(CHAPTERED_BOOK, TAGS);
+
+    expect(groups.map(group => group.heading)).toEqual(['Beginnings', 'The Middle', 'Without a page']);
+    expect(groups[0].annotations.map(annotation => [annotation.kind, annotation.page_number])).toEqual([
+      ['highlight', 3],
+      ['note', 5],
+    ]);
+  });
+
+  it('groups by page when the book has no chapters, oldest first within a page', () => {
+    const groups = groupAnnotations(UNSECTIONED_BOOK, TAGS);
+
+    expect(groups.map(group => group.heading)).toEqual(['Page 4', 'Page 9']);
+    expect(groups[0].annotations.map(annotation => annotation.quote)).toEqual(['First on page four.', 'Second on page four.']);
+  });
+});
+
+describe('toMarkdown', () => {
+  it('writes each book under its title, grouped by chapter', () => {
+    const markdown = toMarkdown({ ...DATA, books: [CHAPTERED_BOOK] });
+
+    expect(markdown).toBe(`# The "Long" Winter\n\n*Ana Ruiz*\n\n${CHAPTERED_BODY}\n`);
+  });
+
+  it('groups by page and separates books with a rule', () => {
+    const markdown = toMarkdown(DATA);
+    const [, unsectioned, empty] = markdown.split('\n---\n\n');
+
+    expect(unsectioned).toBe([
+      '# Notes/Drafts',
+      '## Page 4',
+      '> First on page four.\n>\n> — p. 4',
+      '> Second on page four.\n>\n> — p. 4',
+      '## Page 9',
+      '> Last page.\n>\n> — p. 9',
+    ].join('\n\n') + '\n');
+    expect(empty).toBe('# notes:drafts\n\n*No highlights or notes.*\n');
+  });
+});
+
+describe('toObsidianFiles', () => {
+  const files = toObsidianFiles(DATA);
+
+  it('writes one note per book with a safe, unique file name', () => {
+    expect(files.map(file => file.path)).toEqual(['Books/The -Long- Winter.md', 'Books/Notes-Drafts.md', 'Books/notes-drafts (2).md']);
+    expect(toObsidianFiles(DATA, 'Reading')[0].path).toBe('Reading/The -Long- Winter.md');
+  });
+
+  it('puts the title, author, counts and tags in the frontmatter', () => {
+    expect(files[0].content).toBe([
+      '---',
+      'title: "The \\"Long\\" Winter"',
+      'author: "Ana Ruiz"',
+      'tags:',
+      '  - books',
+      '  - "big-ideas"',
+      '  - "tag-2024"',
+      'highlights: 3',
+      'notes: 1',
+      'exported: "2025-02-01"',
+      '---',
+    ].join('\n') + `\n\n${CHAPTERED_BODY}\n`);
+  });
+
+  it('leaves out the author and annotation tags when there are none', () => {
+    expect(files[1].content).toMatch(/^---\ntitle: "Notes\/Drafts"\ntags:\n {2}- books\nhighlights: 3\nnotes: 0\n/);
+    expect(files[2].content).toMatch(/---\n\n\*No highlights or notes\.\*\n$/);
+  });
+});
+
+describe('toReadwiseCsv', () => {
+  const lines = toReadwiseCsv({ ...DATA, books: [CHAPTERED_BOOK] }).split('\r\n');
+
+  it("starts with Readwise's columns and ends rows with CRLF", () => {
+    expect(lines[0]).toBe(READWISE_CSV_COLUMNS.join(','));
+    expect(lines).toHaveLength(6);
+    expect(lines[5]).toBe('');
+  });
+
+  it('quotes fields with commas, quotes or line breaks and doubles inner quotes', () => {
+    expect(lines[1]).toBe('Ice closed the bay.,"The ""Long"" Winter",Ana Ruiz,,.big-ideas,3,page,2025-01-02 10:00:00');
+    expect(lines[3]).toBe('"She said, ""wait""\nand left.","The ""Long"" Winter",Ana Ruiz,,"Important, see ch. 2",12,page,2025-01-03 09:30:15');
+  });
+
+  it("puts a note's tags, title and text in the Note column", () => {
+    expect(lines[2]).toBe('The council met every week.,"The ""Long"" Winter",Ana Ruiz,,".tag-2024 .big-ideas\nQuestion\n\nWhy weekly?",5,page,2025-01-01 08:00:00');
+  });
+
+  it('leaves the location empty for annotations without a page', () => {
+    expect(lines[4]).toBe('Unplaced quote.,"The ""Long"" Winter",Ana Ruiz,,,,,2025-01-04 18:00:00');
+  });
+});
+
+describe('toJson', () => {
+  it('keeps the export as loaded, with anchors and tag ids', () => {
+    const json = toJson(DATA);
+    const parsed = JSON.parse(json);
+
+    expect(json.startsWith(`{\n  "version": ${ANNOTATION_EXPORT_VERSION},\n  "exported_at": "2025-02-01T12:34:56.000Z",`)).toBe(true);
+    expect(parsed).toEqual(DATA);
+    expect(Object.keys(parsed.books[0])).toEqual(['id', 'title', 'author', 'file_type', 'sections', 'highlights', 'notes']);
+    expect(parsed.books[0].highlights[2]).toMatchObject({ position: CHAPTERED_BOOK.highlights[2].position, tag_ids: ['t1'] });
+  });
+});
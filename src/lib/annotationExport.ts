@@ -0,0 +1,218 @@
+/**
+ * Formatters for exporting highlights and notes: Markdown grouped by chapter or page, an
+ * Obsidian folder with one note per book, Readwise's CSV import format and lossless JSON.
+ * Each takes an AnnotationExport as loaded by useAnnotationExport.
+ *
+ * Pure functions only: loading, zipping and downloading are in useAnnotationExport.ts.
+ */
+
+import { findSectionAtPage } from '@/lib/bookSections';
+import { safeFileName } from '@/lib/download';
+import { AnnotationExport, ExportBook, ExportFile } from '@/types/export';
+import { Tag } from '@/types/tag';
+
+// Bumped when the JSON layout changes, so importers can tell versions apart
+export const ANNOTATION_EXPORT_VERSION = 1;
+
+// Column headers of Readwise's CSV import
+export const READWISE_CSV_COLUMNS = ['Highlight', 'Title', 'Author', 'URL', 'Note', 'Location', 'Location Type', 'Date'];
+
+// A highlight or note as it reads in an export
+export interface ExportedAnnotation {
+  kind: 'highlight' | 'note';
+  page_number: number | null;
+  quote: string;
+  title: string | null; // Notes only
+  comment: string | null; // The note's text, or the note attached to a highlight
+  tags: string[];
+  created_at: string | null;
+}
+
+export interface AnnotationGroup {
+  heading: string; // Chapter title, "Page N", or "Without a page"
+  annotations: ExportedAnnotation[];
+}
+
+// Highlights and notes of a book in reading order, unplaced ones last
+export function bookAnnotations(book: ExportBook, tags: Tag[]): ExportedAnnotation[] {
+  const tagNames = new Map(tags.map(tag => [tag.id, tag.name]));
+  const names = (ids: string[]) => ids.map(id => tagNames.get(id)).filter(Boolean).sort();
+
+  const annotations: ExportedAnnotation[] = [
+    ...book.highlights.map(highlight => ({
+      kind: 'highlight' as const,
+      page_number: highlight.page_number,
+      quote: highlight.text,
+      title: null,
+      comment: highlight.note,
+      tags: names(highlight.tag_ids),
+      created_at: highlight.created_at,
+    })),
+    ...book.notes.map(note => ({
+      kind: 'note' as const,
+      page_number: note.page_number,
+      quote: note.selected_text,
+      title: note.title,
+      comment: note.content,
+      tags: names(note.tag_ids),
+      created_at: note.created_at,
+    })),
+  ];
+
+  return annotations.sort((a, b) =>
+    (a.page_number ?? Infinity) - (b.page_number ?? Infinity) ||
+    (a.created_at ?? '').localeCompare(b.created_at ?? '')
+  );
+}
+
+// Group annotations under the book's chapters, or under their pages where there is no chapter
+export function groupAnnotations(book: ExportBook, tags: Tag[]): AnnotationGroup[] {
+  const chapters = book.sections.filter(section => section.level === 1);
+  const groups: AnnotationGroup[] = [];
+  let lastKey: string | null = null;
+
+  for (const annotation of bookAnnotations(book, tags)) {
+    const page = annotation.page_number;
+    const chapter = page !== null ? findSectionAtPage(chapters, page) : null;
+    const key = chapter ? `chapter:${chapter.id}` : page !== null ? `page:${page}` : 'none';
+
+    if (key !== lastKey) {
+      groups.push({
+        heading: chapter ? chapter.title : page !== null ? `Page ${page}` : 'Without a page',
+        annotations: [],
+      });
+      lastKey = key;
+    }
+    groups[groups.length - 1].annotations.push(annotation);
+  }
+
+  return groups;
+}
+
+// A tag as a #hashtag: no spaces, and not only digits, which Obsidian doesn't treat as a tag
+export function tagSlug(name: string): string {
+  const slug = name.trim().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_/-]/gu, '');
+  return /^\d+$/.test(slug) ? `tag-${slug}` : slug;
+}
+
+function quoteBlock(text: string): string {
+  return text.trim().split(/\r?\n/).map(line => (line.trim() ? `> ${line.trim()}` : '>')).join('\n');
+}
+
+function formatAnnotation(annotation: ExportedAnnotation): string {
+  const parts: string[] = [];
+  if (annotation.title) parts.push(`**${annotation.title}**`);
+
+  parts.push(quoteBlock(annotation.quote) +
+    (annotation.page_number !== null ? `\n>\n> — p. ${annotation.page_number}` : ''));
+
+  if (annotation.comment?.trim()) parts.push(annotation.comment.trim());
+
+  const slugs = annotation.tags.map(tagSlug).filter(Boolean);
+  if (slugs.length > 0) parts.push(slugs.map(slug => `#${slug}`).join(' '));
+
+  return parts.join('\n\n');
+}
+
+// The groups of a book as Markdown sections, with headings at the given level
+function formatGroups(groups: AnnotationGroup[], headingLevel: number): string {
+  const hashes = '#'.repeat(headingLevel);
+  return groups
+    .map(group => [`${hashes} ${group.heading}`, ...group.annotations.map(formatAnnotation)].join('\n\n'))
+    .join('\n\n');
+}
+
+export function bookToMarkdown(book: ExportBook, tags: Tag[]): string {
+  const groups = groupAnnotations(book, tags);
+  const header = [`# ${book.title}`, ...(book.author ? [`*${book.author}*`] : [])].join('\n\n');
+  const body = groups.length > 0 ? formatGroups(groups, 2) : '*No highlights or notes.*';
+  return `${header}\n\n${body}\n`;
+}
+
+// All books in one Markdown document
+export function toMarkdown(data: AnnotationExport): string {
+  return data.books.map(book => bookToMarkdown(book, data.tags)).join('\n---\n\n');
+}
+
+// A YAML scalar; JSON strings are valid double-quoted YAML
+function yamlValue(value: string | number): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+function obsidianNote(book: ExportBook, tags: Tag[], exportedAt: string): string {
+  const annotations = bookAnnotations(book, tags);
+  const bookTags = Array.from(new Set(annotations.flatMap(annotation => annotation.tags))).map(tagSlug).filter(Boolean);
+
+  const frontmatter = [
+    '---',
+    `title: ${yamlValue(book.title)}`,
+    ...(book.author ? [`author: ${yamlValue(book.author)}`] : []),
+    'tags:',
+    '  - books',
+    ...bookTags.map(slug => `  - ${yamlValue(slug)}`),
+    `highlights: ${book.highlights.length}`,
+    `notes: ${book.notes.length}`,
+    `exported: ${yamlValue(exportedAt.slice(0, 10))}`,
+    '---',
+  ].join('\n');
+
+  const groups = groupAnnotations(book, tags);
+  return `${frontmatter}\n\n${groups.length > 0 ? formatGroups(groups, 2) : '*No highlights or notes.*'}\n`;
+}
+
+// One note per book, named after the book; the title is in the frontmatter rather than a heading
+export function toObsidianFiles(data: AnnotationExport, folder = 'Books'): ExportFile[] {
+  const used = new Map<string, number>();
+
+  return data.books.map(book => {
+    const name = safeFileName(book.title);
+    const count = (used.get(name.toLowerCase()) ?? 0) + 1;
+    used.set(name.toLowerCase(), count);
+
+    return {
+      path: `${folder}/${count > 1 ? `${name} (${count})` : name}.md`,
+      content: obsidianNote(book, data.tags, data.exported_at),
+    };
+  });
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Readwise wants "YYYY-MM-DD HH:MM:SS"
+function readwiseDate(timestamp: string | null): string {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// A note's title and text, with tags in Readwise's ".tag" form
+function readwiseNote(annotation: ExportedAnnotation): string {
+  const text = [annotation.title, annotation.comment?.trim()].filter(Boolean).join('\n\n');
+  const slugs = annotation.tags.map(tagSlug).filter(Boolean).map(slug => `.${slug}`);
+  return [slugs.join(' '), text].filter(Boolean).join('\n');
+}
+
+export function toReadwiseCsv(data: AnnotationExport): string {
+  const rows = data.books.flatMap(book =>
+    bookAnnotations(book, data.tags).map(annotation => [
+      annotation.quote,
+      book.title,
+      book.author,
+      null,
+      readwiseNote(annotation),
+      annotation.page_number,
+      annotation.page_number !== null ? 'page' : null,
+      readwiseDate(annotation.created_at),
+    ])
+  );
+
+  return [READWISE_CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Everything as loaded, including anchors and tag ids, so nothing is lost
+export function toJson(data: AnnotationExport): string {
+  return JSON.stringify(data, null, 2);
+}
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findQuotePage,
+  matchLibraryBook,
+  parseAppleBooksExcerpts,
+  parseClippingsFile,
+  parseKindleClippings,
+  parseKoreaderJson,
+  prepareSearchablePages,
+  scoreBookMatch,
+} from './annotationImport';
+
+// A Kindle "My Clippings.txt" entry
+const kindleEntry = (title: string, meta: string, text: string) => `${title}\r\n- ${meta}\r\n\r\n${text}\r\n==========\r\n`;
+
+const PRAGMATIC = 'The Pragmatic Programmer (Hunt, Andrew)';
+
+describe('parseKindleClippings', () => {
+  it('keeps only the longest version of an extended highlight', () => {
+    const parsed = parseKindleClippings(
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 12 | Location 180-181 | Added on Monday, 3 June 2024 21:04:11', 'Care about your craft') +
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 12 | Location 180-182 | Added on Monday, 3 June 2024 21:05:02',
+        'Care about your craft. Why spend your life developing software unless you care?')
+    );
+
+    expect(parsed.clippings).toHaveLength(1);
+    expect(parsed.clippings[0]).toMatchObject({
+      source: 'kindle',
+      book_title: 'The Pragmatic Programmer',
+      book_author: 'Hunt, Andrew',
+      text: 'Care about your craft. Why spend your life developing software unless you care?',
+      page: 12,
+      location: 'Location 180-182',
+    });
+    expect(parsed.clippings[0].created_at).toMatch(/^2024-06-0[34]T/);
+    expect(parsed.skipped).toBe(1);
+  });
+
+  it('keeps separate highlights that only share a place', () => {
+    const parsed = parseKindleClippings(
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 12 | Location 180-181', 'Care about your craft') +
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 12 | Location 181-182', 'Think about your work')
+    );
+
+    expect(parsed.clippings.map(clipping => clipping.text)).toEqual(['Care about your craft', 'Think about your work']);
+  });
+
+  it('attaches notes to the highlight at their location, before or after it', () => {
+    const parsed = parseKindleClippings(
+      kindleEntry(PRAGMATIC, 'Your Note on page 3 | Location 40', 'Written first') +
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 3 | Location 38-40', 'Provide options, not lame excuses.') +
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 12 | Location 180-182', 'Care about your craft.') +
+      kindleEntry(PRAGMATIC, 'Your Note on page 12 | Location 182', 'Make this the team motto')
+    );
+
+    expect(parsed.clippings.map(clipping => [clipping.text, clipping.note])).toEqual([
+      ['Provide options, not lame excuses.', 'Written first'],
+      ['Care about your craft.', 'Make this the team motto'],
+    ]);
+    expect(parsed.skipped).toBe(0);
+  });
+
+  it('skips bookmarks and notes without a highlight', () => {
+    const parsed = parseKindleClippings(
+      kindleEntry(PRAGMATIC, 'Your Bookmark on page 40 | Location 600', '') +
+      kindleEntry(PRAGMATIC, 'Your Note on page 99 | Location 1400', 'Orphan note') +
+      kindleEntry(PRAGMATIC, 'Your Highlight on page 5 | Location 70-71', "Don't live with broken windows.")
+    );
+
+    expect(parsed.clippings.map(clipping => clipping.text)).toEqual(["Don't live with broken windows."]);
+    expect(parsed.skipped).toBe(2);
+  });
+
+  it('takes the last parenthesized part of the title line as the author', () => {
+    const parsed = parseKindleClippings(
+      kindleEntry('\uFEFFSapiens (A Brief History) (Yuval Noah Harari)', 'Your Highlight on Location 10-11', 'Quote.') +
+      kindleEntry('Untitled Notes', 'Your Highlight on Location 5', 'Another quote.')
+    );
+
+    expect(parsed.clippings.map(clipping => [clipping.book_title, clipping.book_author])).toEqual([
+      ['Sapiens (A Brief History)', 'Yuval Noah Harari'],
+      ['Untitled Notes', null],
+    ]);
+  });
+});
+
+describe('parseAppleBooksExcerpts', () => {
+  it('reads excerpts with the title and author on their own lines', () => {
+    const parsed = parseAppleBooksExcerpts([
+      '“The best way to predict the future is to invent it.”',
+      '',
+      'Excerpt From',
+      'The Dream Machine',
+      'M. Mitchell Waldrop',
+      'https://books.apple.com/us/book/the-dream-machine/id123',
+      'This material may be protected by copyright.',
+    ].join('\n'));
+
+    expect(parsed.clippings).toEqual([{
+      source: 'apple-books',
+      book_title: 'The Dream Machine',
+      book_author: 'M. Mitchell Waldrop',
+      text: 'The best way to predict the future is to invent it.',
+      note: null,
+      page: null,
+      location: null,
+      created_at: null,
+    }]);
+  });
+
+  it('reads the older one-line "Excerpt From:" layout', () => {
+    const parsed = parseAppleBooksExcerpts([
+      '"Stay hungry, stay foolish."',
+      '',
+      'Excerpt From: Walter Isaacson. "Steve Jobs." Apple Books. ',
+      'This material may be protected by copyright.',
+    ].join('\n'));
+
+    expect(parsed.clippings.map(clipping => [clipping.text, clipping.book_title, clipping.book_author])).toEqual([
+      ['Stay hungry, stay foolish.', 'Steve Jobs', 'Walter Isaacson'],
+    ]);
+  });
+
+  it('reads a run of pasted excerpts and skips blocks without one', () => {
+    const parsed = parseAppleBooksExcerpts([
+      '“First quote.”',
+      'Excerpt From',
+      'Book One',
+      'This material may be protected by copyright.',
+      'Some stray text',
+      'This material may be protected by copyright.',
+      '“Second quote,',
+      'over two lines.”',
+      'Excerpt From',
+      'Book Two',
+      'Author Two',
+      'This material may be protected by copyright.',
+    ].join('\n'));
+
+    expect(parsed.clippings.map(clipping => [clipping.text, clipping.book_title, clipping.book_author])).toEqual([
+      ['First quote.', 'Book One', null],
+      ['Second quote,\nover two lines.', 'Book Two', 'Author Two'],
+    ]);
+    expect(parsed.skipped).toBe(1);
+  });
+});
+
+describe('parseKoreaderJson', () => {
+  it('reads one book or a list of books, skipping empty entries', () => {
+    const book = {
+      title: 'Dune',
+      author: 'Frank Herbert',
+      entries: [
+        { text: ' Fear is the mind-killer. ', note: 'Litany', page: 8, chapter: 'Book One', time: 1717444800 },
+        { text: '', page: 9 },
+      ],
+    };
+
+    const single = parseKoreaderJson(JSON.stringify(book));
+    expect(single.clippings).toEqual([{
+      source: 'koreader',
+      book_title: 'Dune',
+      book_author: 'Frank Herbert',
+      text: 'Fear is the mind-killer.',
+      note: 'Litany',
+      page: 8,
+      location: 'Book One',
+      created_at: '2024-06-03T20:00:00.000Z',
+    }]);
+    expect(single.skipped).toBe(1);
+
+    expect(parseKoreaderJson(JSON.stringify([book, { ...book, title: 'Dune Messiah' }])).clippings).toHaveLength(2);
+  });
+});
+
+describe('parseClippingsFile', () => {
+  it('tells the formats apart', () => {
+    expect(parseClippingsFile('My Clippings.txt', kindleEntry(PRAGMATIC, 'Your Highlight on Location 5', 'Quote.')).source).toBe('kindle');
+    expect(parseClippingsFile('excerpts.txt', '“Quote.”\nExcerpt From\nBook').source).toBe('apple-books');
+    expect(parseClippingsFile('export.json', '{"title": "Dune", "entries": []}').source).toBe('koreader');
+    expect(parseClippingsFile('export.txt', '[{"title": "Dune", "entries": []}]').source).toBe('koreader');
+  });
+
+  it('reads Kindle clippings whose first title starts with a bracket', () => {
+    const parsed = parseClippingsFile('My Clippings.txt', kindleEntry('[Series] The Title (An Author)', 'Your Highlight on Location 5', 'Quote.'));
+
+    expect(parsed.source).toBe('kindle');
+    expect(parsed.clippings[0].book_title).toBe('[Series] The Title');
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseClippingsFile('notes.txt', '[not json')).toThrow("doesn't look like");
+  });
+});
+
+describe('scoreBookMatch', () => {
+  it('matches library titles taken from file names, with the author in them', () => {
+    expect(scoreBookMatch('Thinking, Fast and Slow', 'Kahneman, Daniel', {
+      id: 'b1',
+      title: 'Thinking Fast and Slow - Daniel Kahneman.pdf',
+      author: null,
+    })).toBe(1);
+  });
+
+  it('matches on the main title without the subtitle', () => {
+    expect(scoreBookMatch('Sapiens: A Brief History of Humankind', null, { id: 'b1', title: 'Sapiens', author: null })).toBe(1);
+  });
+
+  it('lowers the score when the library book has another author', () => {
+    expect(scoreBookMatch('Sapiens', 'Someone Else', { id: 'b1', title: 'Sapiens', author: 'Yuval Noah Harari' })).toBeCloseTo(0.85);
+  });
+
+  it('leaves books below the threshold unmatched', () => {
+    const books = [
+      { id: 'b1', title: 'Thinking Fast and Slow', author: null },
+      { id: 'b2', title: 'The Pragmatic Programmer', author: null },
+    ];
+
+    expect(matchLibraryBook('The Pragmatic Programmer', 'Andrew Hunt', books).book?.id).toBe('b2');
+    expect(matchLibraryBook('A Completely Different Book', null, books).book).toBeNull();
+  });
+});
+
+describe('findQuotePage', () => {
+  const pages = prepareSearchablePages([
+    { page_number: 3, content: 'fuel, and families took in neighbours. Ice closed the bay.' },
+    { page_number: 1, content: 'Chapter one. The harbour froze in November and the boats stayed in.' },
+    { page_number: 2, content: 'Ice closed the bay. The council met every week to share out flour and' },
+  ]);
+
+  it('finds a quote on a page word for word, ignoring case, spacing and typographic quotes', () => {
+    expect(findQuotePage('The  council met\nevery week', pages)).toBe(2);
+    expect(findQuotePage('the HARBOUR froze', pages)).toBe(1);
+    expect(findQuotePage('’Twas', prepareSearchablePages([{ page_number: 7, content: "'Twas brillig" }]))).toBe(7);
+  });
+
+  it('picks the occurrence nearest the other reader’s page', () => {
+    expect(findQuotePage('Ice closed the bay.', pages)).toBe(2);
+    expect(findQuotePage('Ice closed the bay.', pages, 3)).toBe(3);
+  });
+
+  it('places a quote running onto the next page on the page it starts on', () => {
+    expect(findQuotePage('share out flour and fuel, and families', pages)).toBe(2);
+  });
+
+  it('finds a quote that differs slightly from the page text', () => {
+    expect(findQuotePage('The council meets every week to share out the flour', pages)).toBe(2);
+  });
+
+  it('returns null for quotes that are not in the book', () => {
+    expect(findQuotePage('Rockets launched from the northern plateau', pages)).toBeNull();
+    expect(findQuotePage('   ', pages)).toBeNull();
+  });
+});
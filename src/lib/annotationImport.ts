@@ -0,0 +1,381 @@
+/**
+ * Importing highlights from other readers: parsers for Kindle's "My Clippings.txt", text
+ * copied out of Apple Books and KOReader's JSON export, matching each exported book to a
+ * library book by title and author, and finding each quote in the book's pages.
+ *
+ * Pure functions only: reading files and writing highlights is in useAnnotationImport.ts.
+ */
+
+import { createQuoteAnchor, locateQuote } from '@/lib/highlightAnchors';
+import { ClippingGroup, ImportedClipping, ImportSource, LibraryBook, ParsedClippings } from '@/types/import';
+
+// Lowest score, from 0 to 1, at which an exported book is matched to a library book
+export const MIN_BOOK_MATCH_SCORE = 0.6;
+
+// Pages searched fuzzily for a quote that isn't on any page word for word
+const FUZZY_CANDIDATE_PAGES = 3;
+
+// Words that say little about which book a title is
+const TITLE_STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'to', 'in', 'on', 'for']);
+
+const KINDLE_SEPARATOR = /^==========\s*$/m;
+const APPLE_BOOKS_COPYRIGHT = /This material may be protected by copyright\.?/i;
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  kindle: 'Kindle',
+  'apple-books': 'Apple Books',
+  koreader: 'KOReader',
+};
+
+// Text as compared when matching: typographic quotes, dashes, ligatures, soft and line-end
+// hyphens and spacing differ between readers and our extracted pages
+export function normalizeForMatch(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/\u00ad/g, '')
+    .replace(/(\p{L})-\s*\n\s*(\p{L})/gu, '$1$2')
+    .replace(/[‘’‚‛′]/g, "'")
+    .replace(/[“”„‟″]/g, '"')
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function parseDate(value: string): string | null {
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+interface KindleEntry {
+  kind: 'highlight' | 'note' | 'bookmark';
+  clipping: ImportedClipping;
+  locationStart: number | null;
+  locationEnd: number | null;
+}
+
+// "Title (Author)": the author is the last parenthesized part, as titles can have their own
+function parseKindleTitle(line: string) {
+  const title = line.replace(/^\uFEFF/, '').trim();
+  const match = title.match(/^(.*?)\s*\(([^()]*)\)\s*$/);
+  return match && match[1]
+    ? { book_title: match[1], book_author: match[2].trim() || null }
+    : { book_title: title, book_author: null };
+}
+
+// "- Your Highlight on page 12 | Location 180-182 | Added on Monday, 3 June 2024 21:04:11"
+function parseKindleEntry(entry: string): KindleEntry | null {
+  const lines = entry.replace(/^\s+/, '').split(/\r?\n/);
+  const meta = lines[1]?.trim();
+  if (!lines[0]?.trim() || !meta?.startsWith('-')) return null;
+
+  const page = meta.match(/\bpage\s+(\d+)/i);
+  const location = meta.match(/\blocation\s+(\d+)(?:-(\d+))?/i);
+  const added = meta.match(/\bAdded on\s+(.+)$/i);
+  const locationStart = location ? parseInt(location[1], 10) : null;
+
+  return {
+    kind: /\bbookmark\b/i.test(meta) ? 'bookmark' : /\bnote\b/i.test(meta) ? 'note' : 'highlight',
+    locationStart,
+    locationEnd: location?.[2] ? parseInt(location[2], 10) : locationStart,
+    clipping: {
+      source: 'kindle',
+      ...parseKindleTitle(lines[0]),
+      text: lines.slice(2).join('\n').trim(),
+      note: null,
+      page: page ? parseInt(page[1], 10) : null,
+      location: location ? `Location ${location[0].replace(/^location\s+/i, '')}` : null,
+      // Drop the weekday, which Date.parse doesn't always accept
+      created_at: added ? parseDate(added[1].replace(/^[^\d,]+,\s*/, '')) : null,
+    },
+  };
+}
+
+function sameKindlePlace(a: KindleEntry, b: KindleEntry) {
+  if (a.clipping.book_title !== b.clipping.book_title) return false;
+  if (a.locationStart !== null && b.locationStart !== null) {
+    return a.locationStart <= b.locationEnd && b.locationStart <= a.locationEnd;
+  }
+  return a.clipping.page !== null && a.clipping.page === b.clipping.page;
+}
+
+export function parseKindleClippings(text: string): ParsedClippings {
+  const entries: KindleEntry[] = [];
+  let skipped = 0;
+
+  for (const chunk of text.split(KINDLE_SEPARATOR)) {
+    if (!chunk.trim()) continue;
+    const entry = parseKindleEntry(chunk);
+    if (!entry || entry.kind === 'bookmark' || !entry.clipping.text) {
+      skipped++;
+    } else {
+      entries.push(entry);
+    }
+  }
+
+  const highlights = entries.filter(entry => entry.kind === 'highlight');
+
+  // Kindle keeps the old entry when a highlight is extended, so drop highlights that a later
+  // one at the same place contains
+  const kept = highlights.filter((entry, index) => !highlights.some((other, otherIndex) =>
+    otherIndex !== index &&
+    sameKindlePlace(entry, other) &&
+    normalizeForMatch(other.clipping.text).includes(normalizeForMatch(entry.clipping.text)) &&
+    (other.clipping.text.length > entry.clipping.text.length || otherIndex > index)
+  ));
+  skipped += highlights.length - kept.length;
+
+  // A note is saved at the end of its highlight, as a separate entry before or after it
+  for (const note of entries.filter(entry => entry.kind === 'note')) {
+    const highlight = [...kept].reverse().find(entry => sameKindlePlace(entry, note));
+    if (highlight) {
+      highlight.clipping.note = [highlight.clipping.note, note.clipping.text].filter(Boolean).join('\n\n');
+    } else {
+      skipped++;
+    }
+  }
+
+  return { source: 'kindle', clippings: kept.map(entry => entry.clipping), skipped };
+}
+
+// Text copied from Apple Books ends with "Excerpt From", the title and author, an optional
+// store link and a copyright line; a file of pasted excerpts is a run of these
+export function parseAppleBooksExcerpts(text: string): ParsedClippings {
+  const clippings: ImportedClipping[] = [];
+  let skipped = 0;
+
+  for (const block of text.split(APPLE_BOOKS_COPYRIGHT)) {
+    if (!block.trim()) continue;
+
+    const lines = block.split(/\r?\n/).map(line => line.trim());
+    const excerptIndex = lines.map(line => /^Excerpt From\b/i.test(line)).lastIndexOf(true);
+    const quote = lines.slice(0, Math.max(excerptIndex, 0)).join('\n').trim()
+      .replace(/^["“]([\s\S]*)["”]$/, '$1')
+      .trim();
+    if (excerptIndex < 0 || !quote) {
+      skipped++;
+      continue;
+    }
+
+    // Older versions put it on one line: Excerpt From: Author. "Title." Apple Books.
+    const inline = lines[excerptIndex].match(/^Excerpt From:?\s*(.*?)\.?\s*["“](.+?)\.?["”]/i);
+    const details = lines.slice(excerptIndex + 1).filter(line => line && !/^https?:\/\//i.test(line));
+    const bookTitle = inline ? inline[2] : details[0];
+    if (!bookTitle) {
+      skipped++;
+      continue;
+    }
+
+    clippings.push({
+      source: 'apple-books',
+      book_title: bookTitle,
+      book_author: (inline ? inline[1] : details[1]) || null,
+      text: quote,
+      note: null,
+      page: null,
+      location: null,
+      created_at: null,
+    });
+  }
+
+  return { source: 'apple-books', clippings, skipped };
+}
+
+// KOReader's JSON exporter writes one book ({ title, author, entries }) or a list of them
+export function parseKoreaderJson(text: string): ParsedClippings {
+  const data = JSON.parse(text);
+  const documents = Array.isArray(data) ? data
+    : Array.isArray(data?.entries) ? [data]
+    : Object.values(data ?? {}).filter((book: { entries?: unknown }) => Array.isArray(book?.entries));
+
+  const clippings: ImportedClipping[] = [];
+  let skipped = 0;
+
+  for (const book of documents) {
+    for (const entry of book?.entries ?? []) {
+      const quote = typeof entry?.text === 'string' ? entry.text.trim() : '';
+      if (!quote || !book.title) {
+        skipped++;
+        continue;
+      }
+
+      const page = Number(entry.page);
+      clippings.push({
+        source: 'koreader',
+        book_title: book.title,
+        book_author: book.author || null,
+        text: quote,
+        note: typeof entry.note === 'string' && entry.note.trim() ? entry.note.trim() : null,
+        page: Number.isInteger(page) && page > 0 ? page : null,
+        location: entry.chapter || null,
+        created_at: typeof entry.time === 'number' ? new Date(entry.time * 1000).toISOString() : null,
+      });
+    }
+  }
+
+  return { source: 'koreader', clippings, skipped };
+}
+
+// Parse an export, telling the format from its name and content. Text that merely starts
+// with a bracket, like a Kindle title "[Series] Title", is only read as JSON if it parses.
+export function parseClippingsFile(fileName: string, text: string): ParsedClippings {
+  const content = text.replace(/^\uFEFF/, '');
+
+  if (/\.json$/i.test(fileName)) {
+    return parseKoreaderJson(content);
+  }
+  if (KINDLE_SEPARATOR.test(content)) {
+    return parseKindleClippings(content);
+  }
+  if (/^Excerpt From\b/im.test(content)) {
+    return parseAppleBooksExcerpts(content);
+  }
+  if (/^\s*[[{]/.test(content)) {
+    try {
+      return parseKoreaderJson(content);
+    } catch {
+      // Not JSON after all
+    }
+  }
+
+  throw new Error("This doesn't look like Kindle clippings, Apple Books excerpts or a KOReader JSON export");
+}
+
+function titleWords(title: string): string[] {
+  return normalizeForMatch(title.replace(/\.(pdf|epub)$/i, ''))
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(word => word && !TITLE_STOP_WORDS.has(word));
+}
+
+// A title and its main title, without the subtitle or a bracketed part
+function titleVariants(title: string): string[][] {
+  const main = title.split(/\s*[:([]|\s+-\s+/)[0];
+  return [titleWords(title), titleWords(main)].filter(words => words.length > 0);
+}
+
+// Dice coefficient of two word sets
+function wordOverlap(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = Array.from(setA).filter(word => setB.has(word)).length;
+  return setA.size + setB.size > 0 ? (2 * shared) / (setA.size + setB.size) : 0;
+}
+
+// Names long enough to tell authors apart ("Kahneman, Daniel" and "Daniel Kahneman" match)
+function authorNames(author: string | null): string[] {
+  return author ? titleWords(author).filter(word => word.length > 2) : [];
+}
+
+// How likely an exported book is the library book, from 0 to 1. Library titles often come
+// from file names, which may include the author, so the author is looked for there too.
+export function scoreBookMatch(title: string, author: string | null, book: LibraryBook): number {
+  let score = 0;
+  for (const exported of titleVariants(title)) {
+    for (const library of titleVariants(book.title)) {
+      score = Math.max(score, wordOverlap(exported, library));
+    }
+  }
+
+  const names = authorNames(author);
+  if (names.length > 0) {
+    const libraryNames = book.author ? authorNames(book.author) : titleWords(book.title);
+    const sameAuthor = names.some(name => libraryNames.includes(name));
+    if (sameAuthor) score += 0.15;
+    else if (book.author) score -= 0.15;
+  }
+
+  return Math.max(0, Math.min(1, score));
+}
+
+export function matchLibraryBook(title: string, author: string | null, books: LibraryBook[]): { book: LibraryBook | null; score: number } {
+  let best: LibraryBook | null = null;
+  let bestScore = 0;
+  for (const book of books) {
+    const score = scoreBookMatch(title, author, book);
+    if (score > bestScore) {
+      best = book;
+      bestScore = score;
+    }
+  }
+  return bestScore >= MIN_BOOK_MATCH_SCORE ? { book: best, score: bestScore } : { book: null, score: bestScore };
+}
+
+// Group clippings by the book they came from and match each book to the library
+export function groupClippings(clippings: ImportedClipping[], books: LibraryBook[]): ClippingGroup[] {
+  const groups = new Map<string, ClippingGroup>();
+
+  for (const clipping of clippings) {
+    const key = `${titleWords(clipping.book_title).join(' ')}|${authorNames(clipping.book_author).join(' ')}`;
+    let group = groups.get(key);
+    if (!group) {
+      const match = matchLibraryBook(clipping.book_title, clipping.book_author, books);
+      group = {
+        key,
+        book_title: clipping.book_title,
+        book_author: clipping.book_author,
+        clippings: [],
+        book_id: match.book?.id ?? null,
+        match_score: match.score,
+      };
+      groups.set(key, group);
+    }
+    group.clippings.push(clipping);
+  }
+
+  // Unmatched books first, as those need a look
+  return Array.from(groups.values()).sort((a, b) =>
+    Number(!!a.book_id) - Number(!!b.book_id) || a.book_title.localeCompare(b.book_title)
+  );
+}
+
+export interface SearchablePage {
+  page_number: number;
+  text: string; // Normalized for matching
+  words: Set<string>;
+}
+
+// Normalize a book's pages once, before looking up its quotes
+export function prepareSearchablePages(pages: { page_number: number; content: string | null }[]): SearchablePage[] {
+  return pages
+    .map(page => {
+      const text = normalizeForMatch(page.content || '');
+      return { page_number: page.page_number, text, words: new Set(text.split(' ')) };
+    })
+    .sort((a, b) => a.page_number - b.page_number);
+}
+
+/**
+ * The page a quote is on: the page holding it word for word (nearest the other reader's page
+ * number when it occurs more than once), the page it starts on when it runs onto the next,
+ * or else the best fuzzy match among the pages sharing most of its words. Null if not found.
+ */
+export function findQuotePage(quote: string, pages: SearchablePage[], hintPage: number | null = null): number | null {
+  const target = normalizeForMatch(quote);
+  if (!target) return null;
+
+  const exact = pages.filter(page => page.text.includes(target));
+  if (exact.length > 0) {
+    const distance = (page: SearchablePage) => hintPage !== null ? Math.abs(page.page_number - hintPage) : page.page_number;
+    return exact.reduce((best, page) => (distance(page) < distance(best) ? page : best)).page_number;
+  }
+
+  for (let i = 0; i + 1 < pages.length; i++) {
+    if (pages[i + 1].page_number !== pages[i].page_number + 1) continue;
+    const start = `${pages[i].text} ${pages[i + 1].text}`.indexOf(target);
+    if (start >= 0 && start < pages[i].text.length) return pages[i].page_number;
+  }
+
+  const words = Array.from(new Set(target.split(' ').filter(word => word.length > 3)));
+  if (words.length === 0) return null;
+
+  const candidates = pages
+    .map(page => ({ page, shared: words.filter(word => page.words.has(word)).length }))
+    .filter(({ shared }) => shared >= words.length / 2)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, FUZZY_CANDIDATE_PAGES);
+
+  const anchor = createQuoteAnchor(target);
+  const found = candidates.find(({ page }) => locateQuote(page.text, anchor));
+  return found ? found.page.page_number : null;
+}
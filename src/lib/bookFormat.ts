@@ -0,0 +1,30 @@
+/**
+ * Book file formats. `books.file_type` holds the file's MIME type and picks the reader.
+ *
+ * Pure functions only.
+ */
+
+export type BookFormat = 'pdf' | 'epub';
+
+export const BOOK_MIME_TYPES: Record<BookFormat, string> = {
+  pdf: 'application/pdf',
+  epub: 'application/epub+zip',
+};
+
+// Work out a file's format from its MIME type, falling back to the extension as some
+// systems report EPUBs with an empty or generic type. Returns null for other files.
+export function detectBookFormat(fileType: string | null | undefined, fileName: string | null | undefined): BookFormat | null {
+  const type = (fileType || '').toLowerCase();
+  if (type === BOOK_MIME_TYPES.pdf) return 'pdf';
+  if (type === BOOK_MIME_TYPES.epub) return 'epub';
+
+  const extension = (fileName || '').split('.').pop()?.toLowerCase();
+  if (extension === 'pdf') return 'pdf';
+  if (extension === 'epub') return 'epub';
+  return null;
+}
+
+// The format of a stored book; books uploaded before EPUB support are all PDFs
+export function bookFormat(book: { file_type?: string | null; file_path?: string | null }): BookFormat {
+  return detectBookFormat(book.file_type, book.file_path) ?? 'pdf';
+}
@@ -0,0 +1,51 @@
+/**
+ * Helpers for a book's table of contents.
+ *
+ * Sections are stored flat, in reading order, with a level; these turn them
+ * into a tree and find the section a page belongs to.
+ */
+
+import { BookSection, BookSectionNode } from '@/types/section';
+
+// Outline entries win over detected headings when a book has both
+export function preferOutlineSections(sections: BookSection[]): BookSection[] {
+  const hasOutline = sections.some(section => section.source === 'outline');
+  return hasOutline ? sections.filter(section => section.source === 'outline') : sections;
+}
+
+// Nest each section under the closest earlier section with a lower level
+export function buildSectionTree(sections: BookSection[]): BookSectionNode[] {
+  const roots: BookSectionNode[] = [];
+  const stack: BookSectionNode[] = [];
+
+  for (const section of sections) {
+    const node = { section, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].section.level >= section.level) {
+      stack.pop();
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+// The deepest section containing the page, down to maxLevel, or null before the first section
+export function findSectionAtPage(sections: BookSection[], page: number, maxLevel = Infinity): BookSection | null {
+  let found: BookSection | null = null;
+
+  for (const section of sections) {
+    if (section.start_page > page) break;
+    const endPage = section.end_page ?? Infinity;
+    if (section.level <= maxLevel && page <= endPage && (!found || section.level >= found.level)) {
+      found = section;
+    }
+  }
+
+  return found;
+}
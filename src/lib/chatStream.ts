@@ -0,0 +1,51 @@
+/**
+ * Reader for the server-sent events emitted by the ai-assistant function
+ * when a chat request is sent with `stream: true`.
+ */
+import { MessageSource } from '@/types/message';
+
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; context_used?: boolean; sources?: MessageSource[]; [key: string]: unknown }
+  | { type: 'error'; error: string };
+
+/**
+ * Read events from the stream until it ends or the reader is cancelled.
+ * `onReader` receives the underlying reader so callers can cancel it (Stop button).
+ */
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void,
+  onReader?: (reader: ReadableStreamDefaultReader<Uint8Array>) => void
+): Promise<void> {
+  const reader = body.getReader();
+  onReader?.(reader);
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    try {
+      onEvent(JSON.parse(line.slice(5).trim()) as ChatStreamEvent);
+    } catch (error) {
+      console.error('Malformed stream event:', line, error);
+    }
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+
+    if (buffer) handleLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
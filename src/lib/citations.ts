@@ -0,0 +1,20 @@
+/**
+ * Page citations in AI answers and summaries.
+ *
+ * Answers cite pages as [p. N]; these turn the markers into links the
+ * markdown renderer can hand to a component that jumps the reader there.
+ */
+
+const CITATION_PATTERN = /\[p\.\s*(\d+)\]/g;
+const CITATION_HREF_PREFIX = '#page-';
+
+// Turn [p. N] markers into links the markdown renderer hands to the citation component
+export const linkCitations = (content: string) =>
+  content.replace(CITATION_PATTERN, (_, page) => `[p. ${page}](${CITATION_HREF_PREFIX}${page})`);
+
+// The page a citation link points at, or null for ordinary links
+export const citationPage = (href?: string): number | null => {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+  const page = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+  return Number.isNaN(page) ? null : page;
+};
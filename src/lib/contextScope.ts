@@ -0,0 +1,54 @@
+/**
+ * Resolve the assistant's search scope into the pages it covers.
+ *
+ * Pure functions only: the panel passes in the reader's position, the
+ * current chapter and any chosen range, and sends the result with requests.
+ */
+
+import { BookSection } from '@/types/section';
+import { ContextScope, PageRange, SearchScope } from '@/types/scope';
+
+interface ScopeInputs {
+  currentPage: number;
+  totalPages: number;
+  chapter: BookSection | null;
+  customRange: PageRange | null;
+}
+
+// Clamp a range to the book, swapping the ends if they were entered backwards
+export function normalizePageRange(range: PageRange, totalPages: number): PageRange {
+  const lastPage = totalPages > 0 ? totalPages : Math.max(range.start, range.end);
+  const start = Math.min(Math.max(1, Math.min(range.start, range.end)), lastPage);
+  const end = Math.min(Math.max(start, Math.max(range.start, range.end)), lastPage);
+  return { start, end };
+}
+
+export function formatPageRange(range: PageRange): string {
+  return range.start === range.end ? `Page ${range.start}` : `Pages ${range.start}-${range.end}`;
+}
+
+export function resolveContextScope(type: SearchScope, inputs: ScopeInputs): ContextScope {
+  const { currentPage, totalPages, chapter, customRange } = inputs;
+
+  switch (type) {
+    case 'page':
+      return { type, pageRange: null, label: 'Current page' };
+    case 'chapter': {
+      if (!chapter) {
+        // Nothing to narrow to before the first chapter or without a table of contents
+        return { type: 'book', pageRange: null, label: 'Entire book' };
+      }
+      const pageRange = normalizePageRange({
+        start: chapter.start_page,
+        end: chapter.end_page ?? totalPages
+      }, totalPages);
+      return { type, pageRange, label: chapter.title };
+    }
+    case 'range': {
+      const pageRange = normalizePageRange(customRange ?? { start: currentPage, end: currentPage }, totalPages);
+      return { type, pageRange, label: formatPageRange(pageRange) };
+    }
+    default:
+      return { type: 'book', pageRange: null, label: 'Entire book' };
+  }
+}
@@ -0,0 +1,21 @@
+// Save generated text (exports, summaries) as a file through the browser
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain') {
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+}
+
+// Save generated binary content (e.g. a zip) as a file through the browser
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Strip characters that aren't allowed in file names on common systems
+export function safeFileName(name: string) {
+  return name.replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ').trim().slice(0, 120) || 'export';
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  approximateMatches,
+  createEpubAnchor,
+  createQuoteAnchor,
+  createTextAnchor,
+  locateQuote,
+  parseHighlightAnchor,
+  serializeHighlightAnchor,
+} from './highlightAnchors';
+
+const PAGE = 'The river rose in spring. The town moved to the hill. The river rose again in autumn.';
+
+// An anchor made on the page text it is given, for the first occurrence of quote
+const anchorOn = (pageText: string, quote: string) => {
+  const start = pageText.indexOf(quote);
+  return createTextAnchor(pageText, { start, end: start + quote.length }, []);
+};
+
+describe('approximateMatches', () => {
+  it('finds exact occurrences with no errors', () => {
+    expect(approximateMatches('xx abc yy abc', 'abc', 0)).toEqual([
+      { start: 3, end: 6, errors: 0 },
+      { start: 10, end: 13, errors: 0 },
+    ]);
+  });
+
+  it('finds substrings within the allowed number of edits', () => {
+    const matches = approximateMatches('the colour of the sea', 'color of', 1);
+
+    expect(matches).toContainEqual({ start: 4, end: 13, errors: 1 });
+    matches.forEach(match => expect(match.errors).toBeLessThanOrEqual(1));
+  });
+
+  it('keeps the match with the fewest edits for each start', () => {
+    const matches = approximateMatches('abcd', 'abc', 1);
+    const starts = matches.map(match => match.start);
+
+    expect(new Set(starts).size).toBe(starts.length);
+    expect(matches.find(match => match.start === 0)).toEqual({ start: 0, end: 3, errors: 0 });
+  });
+
+  it('finds nothing for an empty pattern or too many edits', () => {
+    expect(approximateMatches('text', '', 2)).toEqual([]);
+    expect(approximateMatches('completely different', 'xyz', 1)).toEqual([]);
+  });
+});
+
+describe('locateQuote', () => {
+  it('trusts the stored offsets while they still hold the quote', () => {
+    const second = PAGE.lastIndexOf('The river rose');
+    const anchor = createTextAnchor(PAGE, { start: second, end: second + 14 }, []);
+
+    expect(locateQuote(PAGE, anchor)).toEqual({ start: second, end: second + 14 });
+  });
+
+  it('finds the quote again when the offsets have drifted', () => {
+    const anchor = anchorOn(PAGE, 'The town moved to the hill.');
+    const changed = `Chapter 2. ${PAGE}`;
+
+    expect(locateQuote(changed, anchor)).toEqual({ start: anchor.position.start + 11, end: anchor.position.end + 11 });
+  });
+
+  it("picks the occurrence whose surroundings match the anchor's context", () => {
+    const second = PAGE.lastIndexOf('The river rose');
+    const anchor = createTextAnchor(PAGE, { start: second, end: second + 'The river rose'.length }, []);
+    const changed = PAGE.replace('The town', 'Then the town');
+
+    expect(locateQuote(changed, anchor)).toEqual({ start: second + 5, end: second + 5 + 'The river rose'.length });
+  });
+
+  it('picks the occurrence nearest the old offset when there is no context', () => {
+    const second = PAGE.lastIndexOf('The river rose');
+    const anchor = { ...createQuoteAnchor('The river rose'), position: { start: second + 2, end: second + 16 } };
+
+    expect(locateQuote(PAGE, anchor)).toEqual({ start: second, end: second + 14 });
+  });
+
+  it('matches a quote whose text changed slightly', () => {
+    const anchor = anchorOn(PAGE, 'The town moved to the hill.');
+    const changed = PAGE.replace('The town moved to the hill.', 'The town moved onto the hill.');
+    const start = changed.indexOf('The town');
+
+    expect(locateQuote(changed, anchor)).toEqual({ start, end: start + 'The town moved onto the hill.'.length });
+  });
+
+  it('matches a long quote by its ends', () => {
+    const sentence = 'Every spring the water came down from the mountains and filled the valley. ';
+    const page = `Before. ${sentence.repeat(5)}After.`;
+    const quote = sentence.repeat(5).trim();
+    const anchor = anchorOn(page, quote);
+    const changed = page.replace('filled the valley. Every', 'filled the whole valley. Every');
+
+    expect(quote.length).toBeGreaterThan(256);
+    expect(locateQuote(changed, anchor)).toEqual({ start: 8, end: 8 + quote.length + 'whole '.length });
+  });
+
+  it('returns null when the quote is gone or empty', () => {
+    expect(locateQuote(PAGE, createQuoteAnchor('The bridge was washed away by the flood.'))).toBeNull();
+    expect(locateQuote(PAGE, createQuoteAnchor(''))).toBeNull();
+  });
+});
+
+describe('parseHighlightAnchor', () => {
+  it('reads anchors back, keeping an EPUB CFI', () => {
+    const anchor = createEpubAnchor('Call me Ishmael.', 'epubcfi(/6/4!/4/2,/1:0,/1:16)');
+
+    expect(parseHighlightAnchor(serializeHighlightAnchor(anchor))).toEqual(anchor);
+    expect(parseHighlightAnchor(serializeHighlightAnchor(anchorOn(PAGE, 'The town')))).toEqual(anchorOn(PAGE, 'The town'));
+  });
+
+  it('returns null for positions saved before anchors', () => {
+    expect(parseHighlightAnchor(null)).toBeNull();
+    expect(parseHighlightAnchor('page 3, top')).toBeNull();
+    expect(parseHighlightAnchor('{"rects": []}')).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Anchors for highlights: a text quote with its surrounding context, character offsets into
+ * the page's text layer and the highlighted rects. locateQuote finds a highlight again in a
+ * page's text, trusting the offsets while they still hold the quote and otherwise searching
+ * for the quote - exactly, then fuzzily - so highlights survive changes to the text layer.
+ *
+ * Pure functions only: reading and measuring the text layer is in textLayer.ts.
+ */
+
+import { HighlightAnchor, NormalizedRect, TextPositionSelector } from '@/types/highlight';
+
+// Characters of context kept on each side of the quote
+export const QUOTE_CONTEXT_CHARS = 32;
+
+// Most edits, as a share of the quote's length, for a fuzzy match to count
+export const MAX_FUZZY_ERROR_RATE = 0.2;
+
+// Longer quotes are fuzzily matched by their ends, as matching cost grows with quote length
+const FUZZY_END_CHARS = 64;
+const MAX_FUZZY_QUOTE_CHARS = FUZZY_END_CHARS * 4;
+
+interface Match {
+  start: number;
+  end: number;
+  errors: number;
+}
+
+export function createTextAnchor(pageText: string, position: TextPositionSelector, rects: NormalizedRect[]): HighlightAnchor {
+  return {
+    quote: {
+      exact: pageText.slice(position.start, position.end),
+      prefix: pageText.slice(Math.max(0, position.start - QUOTE_CONTEXT_CHARS), position.start),
+      suffix: pageText.slice(position.end, position.end + QUOTE_CONTEXT_CHARS),
+    },
+    position,
+    rects,
+  };
+}
+
+// An anchor from the quote alone, for selections outside a PDF text layer and old highlights
+export function createQuoteAnchor(text: string): HighlightAnchor {
+  return { quote: { exact: text, prefix: '', suffix: '' }, position: null, rects: [] };
+}
+
+// An anchor for a selection in an EPUB, placed by its CFI range; the quote is kept as for any highlight
+export function createEpubAnchor(text: string, cfi: string): HighlightAnchor {
+  return { ...createQuoteAnchor(text), cfi };
+}
+
+export function serializeHighlightAnchor(anchor: HighlightAnchor): string {
+  return JSON.stringify(anchor);
+}
+
+// Read highlights.position, which is null or free text for highlights saved before anchors
+export function parseHighlightAnchor(position: string | null): HighlightAnchor | null {
+  if (!position) return null;
+
+  try {
+    const anchor = JSON.parse(position);
+    return typeof anchor?.quote?.exact === 'string' ? {
+      quote: { exact: anchor.quote.exact, prefix: anchor.quote.prefix || '', suffix: anchor.quote.suffix || '' },
+      position: anchor.position ?? null,
+      rects: Array.isArray(anchor.rects) ? anchor.rects : [],
+      ...(typeof anchor.cfi === 'string' ? { cfi: anchor.cfi } : {}),
+    } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Length of the run a and b share at their ends, or at their starts when fromStart is set
+function commonLength(a: string, b: string, fromStart: boolean) {
+  const limit = Math.min(a.length, b.length);
+  let length = 0;
+  while (length < limit) {
+    const charA = fromStart ? a[length] : a[a.length - 1 - length];
+    const charB = fromStart ? b[length] : b[b.length - 1 - length];
+    if (charA !== charB) break;
+    length++;
+  }
+  return length;
+}
+
+// Prefer matches whose surroundings agree with the anchor's context, then those nearest the old offset
+function scoreMatch(pageText: string, anchor: HighlightAnchor, match: Match) {
+  const { prefix, suffix } = anchor.quote;
+  const before = pageText.slice(Math.max(0, match.start - prefix.length), match.start);
+  const after = pageText.slice(match.end, match.end + suffix.length);
+  const context = commonLength(before, prefix, false) + commonLength(after, suffix, true);
+  const distance = anchor.position ? Math.abs(match.start - anchor.position.start) / Math.max(pageText.length, 1) : 0;
+
+  return context - match.errors * 2 - distance;
+}
+
+function bestMatch(pageText: string, anchor: HighlightAnchor, matches: Match[]): Match | null {
+  let best: Match | null = null;
+  let bestScore = -Infinity;
+  for (const match of matches) {
+    const score = scoreMatch(pageText, anchor, match);
+    if (score > bestScore) {
+      best = match;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function exactMatches(pageText: string, quote: string): Match[] {
+  const matches: Match[] = [];
+  for (let start = pageText.indexOf(quote); start >= 0; start = pageText.indexOf(quote, start + 1)) {
+    matches.push({ start, end: start + quote.length, errors: 0 });
+  }
+  return matches;
+}
+
+/**
+ * Find the substrings of text within maxErrors edits of pattern (Sellers' algorithm). Of the
+ * matches starting at the same place, only the one with the fewest edits is kept.
+ */
+export function approximateMatches(text: string, pattern: string, maxErrors: number): Match[] {
+  const m = pattern.length;
+  if (m === 0) return [];
+
+  // cost[i]: edits to match pattern[0, i) ending at the current position; start[i]: where that match starts
+  let cost = Array.from({ length: m + 1 }, (_, i) => i);
+  let start = new Array<number>(m + 1).fill(0);
+  const matches = new Map<number, Match>();
+
+  for (let j = 1; j <= text.length; j++) {
+    const nextCost = [0];
+    const nextStart = [j];
+
+    for (let i = 1; i <= m; i++) {
+      let best = cost[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      let bestStart = start[i - 1];
+
+      if (nextCost[i - 1] + 1 < best) {
+        best = nextCost[i - 1] + 1;
+        bestStart = nextStart[i - 1];
+      }
+      if (cost[i] + 1 < best) {
+        best = cost[i] + 1;
+        bestStart = start[i];
+      }
+
+      nextCost.push(best);
+      nextStart.push(bestStart);
+    }
+
+    const errors = nextCost[m];
+    const previous = matches.get(nextStart[m]);
+    if (errors <= maxErrors && (!previous || errors < previous.errors)) {
+      matches.set(nextStart[m], { start: nextStart[m], end: j, errors });
+    }
+
+    cost = nextCost;
+    start = nextStart;
+  }
+
+  return Array.from(matches.values());
+}
+
+function fuzzyMatches(pageText: string, quote: string): Match[] {
+  const maxErrors = Math.floor(quote.length * MAX_FUZZY_ERROR_RATE);
+  if (quote.length <= MAX_FUZZY_QUOTE_CHARS) {
+    return approximateMatches(pageText, quote, maxErrors);
+  }
+
+  // Match the two ends and keep pairings that span about the quote's length
+  const endErrors = Math.floor(FUZZY_END_CHARS * MAX_FUZZY_ERROR_RATE);
+  const heads = approximateMatches(pageText, quote.slice(0, FUZZY_END_CHARS), endErrors);
+  const tails = approximateMatches(pageText, quote.slice(-FUZZY_END_CHARS), endErrors);
+  const matches: Match[] = [];
+
+  for (const head of heads) {
+    for (const tail of tails) {
+      const length = tail.end - head.start;
+      const lengthErrors = Math.abs(length - quote.length);
+      if (length > 0 && lengthErrors <= maxErrors) {
+        matches.push({ start: head.start, end: tail.end, errors: head.errors + tail.errors + lengthErrors });
+      }
+    }
+  }
+
+  return matches;
+}
+
+// Find a highlight's text on the page, or null if it is no longer there
+export function locateQuote(pageText: string, anchor: HighlightAnchor): TextPositionSelector | null {
+  const { exact } = anchor.quote;
+  if (!exact) return null;
+
+  const { position } = anchor;
+  if (position && pageText.slice(position.start, position.end) === exact) {
+    return { start: position.start, end: position.end };
+  }
+
+  const found = exactMatches(pageText, exact);
+  const match = bestMatch(pageText, anchor, found.length > 0 ? found : fuzzyMatches(pageText, exact));
+  return match ? { start: match.start, end: match.end } : null;
+}
@@ -0,0 +1,15 @@
+// Colors offered for highlights and notes. `value` is stored in the color column, `class`
+// draws the swatch and `fill` is the same color for drawing outside Tailwind, as in EPUBs.
+export const HIGHLIGHT_COLORS = [
+  { name: 'Yellow', value: 'bg-yellow-200 dark:bg-yellow-800/50', class: 'bg-yellow-200 dark:bg-yellow-800', fill: '#fef08a' },
+  { name: 'Green', value: 'bg-green-200 dark:bg-green-800/50', class: 'bg-green-200 dark:bg-green-800', fill: '#bbf7d0' },
+  { name: 'Blue', value: 'bg-blue-200 dark:bg-blue-800/50', class: 'bg-blue-200 dark:bg-blue-800', fill: '#bfdbfe' },
+  { name: 'Purple', value: 'bg-purple-200 dark:bg-purple-800/50', class: 'bg-purple-200 dark:bg-purple-800', fill: '#e9d5ff' },
+  { name: 'Pink', value: 'bg-pink-200 dark:bg-pink-800/50', class: 'bg-pink-200 dark:bg-pink-800', fill: '#fbcfe8' },
+];
+
+// The fill for a stored color, matched on its light-mode class; yellow for none or unknown ones
+export function highlightFill(color: string | null) {
+  const lightClass = color?.split(' ')[0];
+  return (HIGHLIGHT_COLORS.find(option => option.value.split(' ')[0] === lightClass) ?? HIGHLIGHT_COLORS[0]).fill;
+}
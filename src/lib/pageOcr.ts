@@ -0,0 +1,73 @@
+/**
+ * OCR for scanned PDF pages in the browser. Pages without a text layer are rendered
+ * to a canvas and read with Tesseract, which runs in its own web worker. Each page's
+ * text is read once per session and kept by book and page.
+ */
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { createWorker, Worker } from 'tesseract.js';
+
+export interface PageOcrResult {
+  text: string;
+  confidence: number; // Tesseract's mean word confidence, 0-100
+}
+
+// Pages with less text than this are treated as images of text
+export const MIN_PAGE_TEXT_CHARS = 20;
+
+// Render scale for OCR; Tesseract reads small print better at around 300 DPI
+const OCR_RENDER_SCALE = 2.5;
+
+let workerPromise: Promise<Worker> | null = null;
+
+// One worker is shared by every page and loaded the first time it is needed
+function getWorker() {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng').catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+// Text of scanned pages already read, by book and page, so revisiting a page doesn't OCR it again
+const scannedPageText = new Map<string, Promise<string>>();
+
+export function needsOcr(text: string) {
+  return text.replace(/\s+/g, '').length < MIN_PAGE_TEXT_CHARS;
+}
+
+// Render a pdf.js page and recognize its text
+export async function recognizePage(page: PDFPageProxy): Promise<PageOcrResult> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available for OCR');
+  }
+
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas);
+
+  return { text: data.text.trim(), confidence: data.confidence };
+}
+
+// Read a scanned page's text once, sharing the result with every later request for the page.
+// Failed reads are forgotten so the page is tried again next time.
+export function readScannedPageOnce(bookId: string, pageNumber: number, read: () => Promise<string>) {
+  const key = `${bookId}:${pageNumber}`;
+  let text = scannedPageText.get(key);
+  if (!text) {
+    text = read().catch((error) => {
+      scannedPageText.delete(key);
+      throw error;
+    });
+    scannedPageText.set(key, text);
+  }
+  return text;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatInterval,
+  initialReviewState,
+  MINIMUM_EASE_FACTOR,
+  previewIntervals,
+  ReviewGrade,
+  ReviewState,
+  scheduleReview,
+} from './spacedRepetition';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Grade a new card with each grade in turn, returning every state along the way
+function gradeInTurn(grades: ReviewGrade[], state: ReviewState = initialReviewState()) {
+  return grades.map(grade => (state = scheduleReview(state, grade, NOW)));
+}
+
+describe('scheduleReview', () => {
+  it('grows the interval 1 → 6 → interval × ease factor', () => {
+    const [first, second, third, fourth] = gradeInTurn(['good', 'good', 'good', 'good']);
+
+    expect(first).toMatchObject({ intervalDays: 1, repetitions: 1, easeFactor: 2.5 });
+    expect(second).toMatchObject({ intervalDays: 6, repetitions: 2, easeFactor: 2.5 });
+    expect(third).toMatchObject({ intervalDays: 15, repetitions: 3 });
+    expect(fourth).toMatchObject({ intervalDays: 38, repetitions: 4 });
+  });
+
+  it('uses the updated ease factor for the next interval', () => {
+    const [, , third] = gradeInTurn(['good', 'good', 'easy']);
+
+    expect(third.easeFactor).toBe(2.6);
+    expect(third.intervalDays).toBe(Math.round(6 * 2.6));
+  });
+
+  it('sets the due date the interval after the review', () => {
+    const [, second] = gradeInTurn(['good', 'good']);
+
+    expect(second.dueAt.getTime() - NOW.getTime()).toBe(6 * DAY_MS);
+  });
+
+  it('resets a lapsed card to the start and counts the lapse', () => {
+    const [, , learned, lapsed, relearned, again] = gradeInTurn(['good', 'good', 'good', 'again', 'good', 'good']);
+
+    expect(learned.intervalDays).toBe(15);
+    expect(lapsed).toMatchObject({ intervalDays: 1, repetitions: 0, lapses: 1, easeFactor: 1.96 });
+    expect(relearned).toMatchObject({ intervalDays: 1, repetitions: 1, lapses: 1 });
+    expect(again).toMatchObject({ intervalDays: 6, repetitions: 2, lapses: 1 });
+  });
+
+  it('lowers the ease factor for hard answers', () => {
+    const [first] = gradeInTurn(['hard']);
+
+    expect(first).toMatchObject({ intervalDays: 1, repetitions: 1, easeFactor: 2.36 });
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    const states = gradeInTurn(['again', 'again', 'again', 'hard', 'again', 'hard', 'hard']);
+
+    states.forEach(state => expect(state.easeFactor).toBeGreaterThanOrEqual(MINIMUM_EASE_FACTOR));
+    expect(states[states.length - 1].easeFactor).toBe(MINIMUM_EASE_FACTOR);
+  });
+
+  it('does not change the state it was given', () => {
+    const state = initialReviewState();
+    scheduleReview(state, 'again', NOW);
+
+    expect(state).toEqual(initialReviewState());
+  });
+});
+
+describe('previewIntervals', () => {
+  it('gives the interval each grade would schedule', () => {
+    const state: ReviewState = { easeFactor: 2.5, intervalDays: 6, repetitions: 2, lapses: 0 };
+
+    expect(previewIntervals(state)).toEqual({ again: 1, hard: 14, good: 15, easy: 16 });
+  });
+
+  it('shows a day for every grade on a new card', () => {
+    expect(previewIntervals(initialReviewState())).toEqual({ again: 1, hard: 1, good: 1, easy: 1 });
+  });
+});
+
+describe('formatInterval', () => {
+  it.each([
+    [0, 'today'],
+    [1, '1 day'],
+    [12, '12 days'],
+    [30, '1 month'],
+    [75, '3 months'],
+    [365, '1 year'],
+    [500, '1.4 years'],
+  ])('formats %i days as %s', (days, label) => {
+    expect(formatInterval(days)).toBe(label);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * SM-2 style spaced-repetition scheduling.
+ *
+ * Pure functions only: callers load a card's state, pass it in with the
+ * reader's grade and get back the next state to store.
+ */
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ScheduledReview extends ReviewState {
+  dueAt: Date;
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MINIMUM_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 response quality (0-5) for each grade button
+export const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const initialReviewState = (): ReviewState => ({
+  easeFactor: DEFAULT_EASE_FACTOR,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+});
+
+/**
+ * Adjust the ease factor for a response of the given quality (SM-2 formula),
+ * never letting it fall below the minimum.
+ */
+export function nextEaseFactor(easeFactor: number, quality: number): number {
+  const adjusted = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return Math.max(MINIMUM_EASE_FACTOR, Math.round(adjusted * 100) / 100);
+}
+
+/**
+ * Compute the next state of a card after it is graded.
+ * A failed recall (quality < 3) restarts the repetition count and brings the
+ * card back the next day; successful recalls grow the interval 1 → 6 → interval × ease.
+ */
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, now: Date = new Date()): ScheduledReview {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = nextEaseFactor(state.easeFactor, quality);
+
+  let repetitions: number;
+  let intervalDays: number;
+  let lapses = state.lapses;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  } else {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = 1;
+    } else if (repetitions === 2) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.max(1, Math.round(state.intervalDays * easeFactor));
+    }
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+/**
+ * The interval each grade would produce, for labelling the grade buttons.
+ */
+export function previewIntervals(state: ReviewState): Record<ReviewGrade, number> {
+  return REVIEW_GRADES.reduce((intervals, grade) => {
+    intervals[grade] = scheduleReview(state, grade).intervalDays;
+    return intervals;
+  }, {} as Record<ReviewGrade, number>);
+}
+
+export function isDue(dueAt: Date | string, now: Date = new Date()): boolean {
+  return new Date(dueAt).getTime() <= now.getTime();
+}
+
+export function formatInterval(days: number): string {
+  if (days < 1) return 'today';
+  if (days === 1) return '1 day';
+  if (days < 30) return `${days} days`;
+  if (days < 365) {
+    const months = Math.round(days / 30);
+    return months === 1 ? '1 month' : `${months} months`;
+  }
+  const years = Math.round((days / 365) * 10) / 10;
+  return years === 1 ? '1 year' : `${years} years`;
+}
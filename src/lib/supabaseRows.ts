@@ -0,0 +1,13 @@
+// Supabase returns at most 1000 rows per request, so long lists are read a page at a time
+const PAGE_SIZE = 1000;
+
+// Read every row of a query; fetchPage builds the query for one range of rows
+export async function fetchAllRows<T>(fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
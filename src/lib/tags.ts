@@ -0,0 +1,66 @@
+/**
+ * Tag names, autocomplete and grouping for the tag browser.
+ *
+ * Pure functions only: reading and writing tags is in useTags.ts.
+ */
+
+import { Tag, TaggedBook, TaggedItem } from '@/types/tag';
+
+// Suggestions shown under the tag input
+export const MAX_TAG_SUGGESTIONS = 6;
+
+// Tag names are trimmed, single-spaced and typed without a leading '#'
+export function normalizeTagName(name: string): string {
+  return name.replace(/^#+/, '').replace(/\s+/g, ' ').trim();
+}
+
+// Tag names are unique per user regardless of case, as in the tags_user_name_idx index
+export function findTagByName<T extends Tag>(tags: T[], name: string): T | null {
+  const key = normalizeTagName(name).toLowerCase();
+  return tags.find(tag => tag.name.toLowerCase() === key) ?? null;
+}
+
+// How well a tag matches what's typed: 0 for a prefix match, 1 for a word that starts with it, 2 for any substring
+function matchRank(name: string, query: string): number | null {
+  const lower = name.toLowerCase();
+  if (lower.startsWith(query)) return 0;
+  if (lower.split(/[\s/_-]+/).some(word => word.startsWith(query))) return 1;
+  if (lower.includes(query)) return 2;
+  return null;
+}
+
+// Tags to suggest for the typed text, best matches first, leaving out tags already chosen
+export function suggestTags<T extends Tag>(tags: T[], query: string, excludeIds: string[] = [], limit = MAX_TAG_SUGGESTIONS): T[] {
+  const key = normalizeTagName(query).toLowerCase();
+  const candidates = tags.filter(tag => !excludeIds.includes(tag.id));
+
+  if (!key) {
+    return [...candidates].sort((a, b) => a.name.localeCompare(b.name)).slice(0, limit);
+  }
+
+  return candidates
+    .map(tag => ({ tag, rank: matchRank(tag.name, key) }))
+    .filter(({ rank }) => rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.tag.name.localeCompare(b.tag.name))
+    .slice(0, limit)
+    .map(({ tag }) => tag);
+}
+
+// Group tagged items by book, books by title and items in reading order
+export function groupTaggedItemsByBook(items: TaggedItem[]): TaggedBook[] {
+  const books = new Map<string, TaggedBook>();
+
+  for (const item of items) {
+    const book = books.get(item.book_id) ?? { book_id: item.book_id, book_title: item.book_title, items: [] };
+    book.items.push(item);
+    books.set(item.book_id, book);
+  }
+
+  const byPage = (a: TaggedItem, b: TaggedItem) =>
+    (a.page_number ?? Infinity) - (b.page_number ?? Infinity) ||
+    (a.created_at ?? '').localeCompare(b.created_at ?? '');
+
+  return Array.from(books.values())
+    .map(book => ({ ...book, items: [...book.items].sort(byPage) }))
+    .sort((a, b) => a.book_title.localeCompare(b.book_title));
+}
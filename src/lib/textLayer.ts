@@ -0,0 +1,93 @@
+/**
+ * Read and measure the text layer react-pdf draws over each page, to anchor highlights
+ * to it. A page's text is the concatenation of the text layer's text nodes, and offsets
+ * into that text are what TextPositionSelector stores.
+ */
+import { createTextAnchor } from '@/lib/highlightAnchors';
+import { HighlightAnchor, NormalizedRect, TextPositionSelector } from '@/types/highlight';
+
+// Rects narrower or shorter than this (in pixels) are line-break artifacts
+const MIN_RECT_PIXELS = 1;
+
+export function getTextLayer(pageElement: Element): HTMLElement | null {
+  return pageElement.querySelector('.react-pdf__Page__textContent');
+}
+
+function textNodes(layer: HTMLElement): Text[] {
+  const walker = document.createTreeWalker(layer, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) {
+    nodes.push(walker.currentNode as Text);
+  }
+  return nodes;
+}
+
+export function textLayerText(layer: HTMLElement): string {
+  return textNodes(layer).map(node => node.data).join('');
+}
+
+// Offsets of the part of a range that falls on the text layer
+export function rangeToOffsets(layer: HTMLElement, range: Range): TextPositionSelector | null {
+  let offset = 0;
+  let start: number | null = null;
+  let end: number | null = null;
+
+  for (const node of textNodes(layer)) {
+    if (range.intersectsNode(node)) {
+      const nodeStart = node === range.startContainer ? range.startOffset : 0;
+      const nodeEnd = node === range.endContainer ? range.endOffset : node.length;
+      if (start === null) start = offset + nodeStart;
+      end = offset + nodeEnd;
+    }
+    offset += node.length;
+  }
+
+  return start !== null && end !== null && end > start ? { start, end } : null;
+}
+
+export function offsetsToRange(layer: HTMLElement, position: TextPositionSelector): Range | null {
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+
+  for (const node of textNodes(layer)) {
+    const nodeEnd = offset + node.length;
+    if (!started && position.start < nodeEnd) {
+      range.setStart(node, position.start - offset);
+      started = true;
+    }
+    if (started && position.end <= nodeEnd) {
+      range.setEnd(node, position.end - offset);
+      return range;
+    }
+    offset = nodeEnd;
+  }
+
+  return null;
+}
+
+// The range's rects as fractions of the page's size
+export function measureRects(range: Range, pageElement: Element): NormalizedRect[] {
+  const page = pageElement.getBoundingClientRect();
+  if (!page.width || !page.height) return [];
+
+  return Array.from(range.getClientRects())
+    .filter(rect => rect.width > MIN_RECT_PIXELS && rect.height > MIN_RECT_PIXELS)
+    .map(rect => ({
+      x: (rect.left - page.left) / page.width,
+      y: (rect.top - page.top) / page.height,
+      width: rect.width / page.width,
+      height: rect.height / page.height,
+    }));
+}
+
+// Anchor a selection on a rendered PDF page, or null if it isn't on the page's text layer
+export function anchorSelection(range: Range, pageElement: Element): HighlightAnchor | null {
+  const layer = getTextLayer(pageElement);
+  const position = layer && rangeToOffsets(layer, range);
+  if (!position) return null;
+
+  // Measure only the text layer part, not any margin the selection ran into
+  const textRange = offsetsToRange(layer, position);
+  return createTextAnchor(textLayerText(layer), position, textRange ? measureRects(textRange, pageElement) : []);
+}
@@ -0,0 +1,52 @@
+import { BookSection } from './section';
+import { Tag } from './tag';
+
+export type ExportFormat = 'markdown' | 'obsidian' | 'readwise' | 'json';
+
+// Highlights and notes keep their stored columns, so the JSON export loses nothing
+export interface ExportHighlight {
+  id: string;
+  page_number: number | null;
+  text: string;
+  color: string | null;
+  note: string | null;
+  position: string | null; // Anchor JSON, as stored
+  created_at: string;
+  tag_ids: string[];
+}
+
+export interface ExportNote {
+  id: string;
+  page_number: number | null;
+  selected_text: string;
+  title: string;
+  content: string | null;
+  color: string | null;
+  position: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  tag_ids: string[];
+}
+
+export interface ExportBook {
+  id: string;
+  title: string;
+  author: string | null;
+  file_type: string | null;
+  sections: BookSection[];
+  highlights: ExportHighlight[];
+  notes: ExportNote[];
+}
+
+export interface AnnotationExport {
+  version: number;
+  exported_at: string;
+  tags: Tag[];
+  books: ExportBook[];
+}
+
+// A file in a multi-file export, e.g. one note per book in an Obsidian folder
+export interface ExportFile {
+  path: string;
+  content: string;
+}
@@ -0,0 +1,39 @@
+// Where a highlight sits on its page, stored as JSON in highlights.position. The quote finds
+// the text again if the page's text layer changes; the offsets and rects place it directly.
+export interface TextQuoteSelector {
+  exact: string;
+  prefix: string; // Text just before the quote, to tell repeated phrases apart
+  suffix: string;
+}
+
+// Character offsets into the concatenated text of the page's text layer
+export interface TextPositionSelector {
+  start: number;
+  end: number;
+}
+
+// A rectangle as fractions of the page's width and height, so it fits the page at any zoom
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HighlightAnchor {
+  quote: TextQuoteSelector;
+  position: TextPositionSelector | null; // Null when the selection wasn't on a PDF text layer
+  rects: NormalizedRect[];
+  cfi?: string; // CFI range of the selection in an EPUB, which places it in the book directly
+}
+
+export interface Highlight {
+  id: string;
+  book_id: string;
+  page_number: number | null;
+  text: string;
+  color: string | null; // Tailwind background classes from the highlight palette
+  note: string | null;
+  anchor: HighlightAnchor | null; // Parsed from position; null for highlights saved without one
+  created_at: string;
+}
@@ -0,0 +1,41 @@
+export type ImportSource = 'kindle' | 'apple-books' | 'koreader';
+
+// A highlight read from another reader's export
+export interface ImportedClipping {
+  source: ImportSource;
+  book_title: string;
+  book_author: string | null;
+  text: string;
+  note: string | null;
+  page: number | null; // The page the other reader showed, which rarely matches the book's pages here
+  location: string | null; // Kindle location or KOReader chapter, shown while reviewing
+  created_at: string | null;
+}
+
+export interface ParsedClippings {
+  source: ImportSource;
+  clippings: ImportedClipping[];
+  skipped: number; // Bookmarks, empty entries and notes with no highlight to attach to
+}
+
+export interface LibraryBook {
+  id: string;
+  title: string;
+  author: string | null;
+}
+
+// The clippings of one book in the export, and the library book they go to
+export interface ClippingGroup {
+  key: string;
+  book_title: string;
+  book_author: string | null;
+  clippings: ImportedClipping[];
+  book_id: string | null; // Null until matched or picked on the review screen; stays null to skip the book
+  match_score: number; // How closely the titles and authors matched, from 0 to 1
+}
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number; // Already highlighted in the book, or repeated in the export
+  unplaced: ImportedClipping[]; // Imported without a page, as the quote wasn't found in the book's text
+}
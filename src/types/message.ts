@@ -1,8 +1,18 @@
 
+// A passage of the book an assistant answer drew on
+export interface MessageSource {
+  page_number: number;
+  chunk_id: string | null;
+  similarity: number | null;
+  snippet: string;
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
   context_used?: boolean; // Optional field to track if context was used
+  isStreaming?: boolean; // True while the assistant's answer is still being generated
+  sources?: MessageSource[]; // Pages the answer cites as [p. N]
 }
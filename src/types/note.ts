@@ -0,0 +1,22 @@
+import { HighlightAnchor } from './highlight';
+import { Tag } from './tag';
+
+export interface Note {
+  id: string;
+  book_id: string;
+  page_number: number | null; // Null for notes moved from chat history whose page wasn't found
+  selected_text: string;
+  title: string;
+  content: string | null;
+  color: string | null; // Tailwind background classes from the highlight palette
+  anchor: HighlightAnchor | null; // Parsed from position, like a highlight's
+  tags: Tag[];
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface NoteChanges {
+  title: string;
+  content: string | null;
+  color: string | null;
+}
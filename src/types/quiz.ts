@@ -0,0 +1,39 @@
+
+export interface QuizQuestion {
+  id?: string; // Set once the question has been saved to quiz_questions
+  question: string;
+  options: string[];
+  correctIndex: number; // Index of the correct option
+}
+
+export interface Quiz {
+  id: string;
+  questions: QuizQuestion[];
+  sourceContent: string; // Text the questions were generated from, sent back for evaluation
+  timestamp: string;
+  context_used?: boolean;
+  saved?: boolean; // Whether the quiz and its questions were stored, so answers can be recorded
+}
+
+export interface QuizAnswer {
+  selectedIndex: number;
+  isCorrect: boolean | null; // As marked by the AI assistant, null while it is loading
+  feedback: string | null; // Evaluation text from the AI, null while it is loading
+}
+
+export interface QuizHistoryEntry {
+  id: string;
+  created_at: string;
+  page_number: number | null;
+  search_scope: string;
+  total: number;
+  answered: number;
+  correct: number;
+}
+
+export interface BookQuizScore {
+  book_id: string;
+  attempts: number;
+  correct: number;
+  score_percent: number;
+}
@@ -0,0 +1,15 @@
+
+export interface ReviewCard {
+  id: string;
+  book_id: string;
+  book_title: string | null;
+  source_type: 'quiz' | 'highlight';
+  page_number: number | null;
+  front: string;
+  back: string | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+}
@@ -0,0 +1,14 @@
+// What the assistant searches for context: the current page, the current chapter,
+// a chosen range of pages, or the whole book
+export type SearchScope = 'page' | 'chapter' | 'range' | 'book';
+
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+export interface ContextScope {
+  type: SearchScope;
+  pageRange: PageRange | null; // Pages searched for 'chapter' and 'range'; null for the others
+  label: string; // Shown in the scope selector and on the quiz button
+}
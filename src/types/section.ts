@@ -0,0 +1,13 @@
+export interface BookSection {
+  id: string;
+  title: string;
+  level: number; // 1 for chapters, deeper levels for nested sections
+  start_page: number;
+  end_page: number | null; // Filled in once the whole book has been processed
+  source: 'outline' | 'headings'; // Read from the PDF outline or detected from heading sizes
+}
+
+export interface BookSectionNode {
+  section: BookSection;
+  children: BookSectionNode[];
+}
@@ -0,0 +1,18 @@
+import { SearchScope } from './scope';
+
+// Summaries are written in the background: 'pending' until the edge function finishes
+export type SummaryStatus = 'pending' | 'ready' | 'failed';
+
+export interface BookSummary {
+  id: string;
+  scope: SearchScope;
+  title: string | null;
+  start_page: number;
+  end_page: number;
+  model: string; // Chat model that wrote the summary; summaries are cached per range and model
+  summary: string | null; // Null until a new summary is first written
+  status: SummaryStatus;
+  error: string | null; // Why the last attempt failed
+  created_at: string | null;
+  updated_at: string | null;
+}
@@ -0,0 +1,33 @@
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null; // Tailwind background classes from the highlight palette
+}
+
+// A tag with how many highlights and notes carry it, across all books
+export interface TagUsage extends Tag {
+  highlight_count: number;
+  note_count: number;
+}
+
+export type TaggedItemKind = 'highlight' | 'note';
+
+// A highlight or note listed under a tag in the tag browser
+export interface TaggedItem {
+  kind: TaggedItemKind;
+  id: string;
+  book_id: string;
+  book_title: string;
+  page_number: number | null;
+  text: string; // The highlighted or selected text
+  title: string | null; // Notes only
+  content: string | null; // The note's text, or the note attached to a highlight
+  color: string | null;
+  created_at: string | null;
+}
+
+export interface TaggedBook {
+  book_id: string;
+  book_title: string;
+  items: TaggedItem[];
+}
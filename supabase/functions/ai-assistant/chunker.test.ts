@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { chunkBlocks, joinLines, layoutPage, PdfTextItem } from "./chunker.ts";
+// Text items recorded with pdf.js 3.11 getTextContent() from one-page PDFs set in Helvetica:
+// a two-column article written row by row, a chapter page with superscript footnote markers
+// and its footnotes placed between the paragraphs in the content stream, and justified text
+// with words hyphenated at line breaks
+import footnotesPage from "./fixtures/chunker/footnotes.json";
+import hyphenationPage from "./fixtures/chunker/hyphenation.json";
+import twoColumnPage from "./fixtures/chunker/two-column.json";
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+describe("layoutPage", () => {
+  describe("two-column page", () => {
+    const page = layoutPage(twoColumnPage as PdfTextItem[]);
+
+    it("reads the left column before the right one", () => {
+      expect(page.blocks[0]).toEqual({ type: "heading", text: "Rivers and Their Valleys", fontScale: 1.8 });
+      expect(page.blocks[1].text).toMatch(/^Rivers shape the land they cross\. Over thousands of years a river cuts down into rock/);
+      expect(page.text.indexOf("the loosened sediment")).toBeLessThan(page.text.indexOf("A valley cut by a river"));
+      expect(page.text.indexOf("Where the current slows")).toBeLessThan(page.text.indexOf("so a single river"));
+    });
+
+    it("joins a word hyphenated from the bottom of one column to the top of the next", () => {
+      expect(page.text).toContain("the rain of a whole watershed into one channel");
+    });
+
+    it("drops the page number", () => {
+      expect(page.text).not.toMatch(/\b12\b/);
+    });
+  });
+
+  describe("page with footnotes", () => {
+    const page = layoutPage(footnotesPage as PdfTextItem[]);
+
+    it("moves the footnotes after the body text", () => {
+      expect(page.blocks.map(block => block.type)).toEqual(["heading", "paragraph", "paragraph", "footnote", "footnote"]);
+      expect(page.blocks[3].text).toBe("1 See the harbour master's records for 1887.");
+      expect(page.blocks[4].text).toBe("2 Later accounts disagree on the date, some placing it a full month after the first snow.");
+    });
+
+    it("keeps paragraphs whole around footnotes placed between them", () => {
+      expect(page.blocks[1].text).toBe(
+        "The winter of that year was the hardest anyone in the harbour town could remember. " +
+        "Ice closed the bay in November and the boats stayed in until March, so the town lived on what it had stored."
+      );
+    });
+
+    it("drops superscript footnote markers and the page number", () => {
+      expect(page.blocks[2].text).toBe(
+        "By February the stores were running low. The council met every week to share out flour and fuel, " +
+        "and families took in neighbours whose houses could not be kept warm."
+      );
+      expect(page.text).not.toMatch(/\b47\b/);
+    });
+  });
+
+  describe("hyphenated text", () => {
+    it("rejoins words broken across lines", () => {
+      const page = layoutPage(hyphenationPage as PdfTextItem[]);
+
+      expect(page.blocks).toEqual([{
+        type: "paragraph",
+        text: "The expedition made an extraordinary discovery on the third day. Beneath the ice lay a network of caves " +
+          "that continued for several kilometres, their walls covered in minerals no one had recorded before."
+      }]);
+    });
+  });
+
+  it("falls back to the raw strings when items have no positions", () => {
+    expect(layoutPage([{ str: "Scanned" }, { str: "page" }])).toEqual({
+      text: "Scanned page",
+      blocks: [{ type: "paragraph", text: "Scanned page" }]
+    });
+  });
+});
+
+describe("joinLines", () => {
+  it("removes line-end and soft hyphens before a lowercase word", () => {
+    expect(joinLines("extra-", "ordinary")).toBe("extraordinary");
+    expect(joinLines("con\u00ad", "tinued")).toBe("continued");
+  });
+
+  it("joins other lines with a space", () => {
+    expect(joinLines("the third day.", "Beneath the ice")).toBe("the third day. Beneath the ice");
+  });
+});
+
+describe("chunkBlocks", () => {
+  it("keeps every chunk within the token limit", () => {
+    for (const items of [twoColumnPage, footnotesPage, hyphenationPage]) {
+      const chunks = chunkBlocks(layoutPage(items as PdfTextItem[]).blocks, { maxTokens: 40, overlapTokens: 12 });
+      chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(40));
+    }
+  });
+
+  it("starts each chunk with the previous chunk's closing sentences", () => {
+    const chunks = chunkBlocks(layoutPage(footnotesPage as PdfTextItem[]).blocks, { maxTokens: 60, overlapTokens: 30 });
+
+    expect(chunks[0]).toMatch(/^Chapter 3: The Long Winter\nThe winter of that year/);
+    expect(chunks[0]).toMatch(/Ice closed the bay in November and the boats stayed in until March, so the town lived on what it had stored\.$/);
+    expect(chunks[1]).toMatch(/^Ice closed the bay in November/);
+    expect(chunks[1]).toMatch(/By February the stores were running low\.$/);
+    expect(chunks[2]).toMatch(/^By February the stores were running low\. The council met/);
+  });
+
+  it("puts footnotes in chunks of their own", () => {
+    const chunks = chunkBlocks(layoutPage(footnotesPage as PdfTextItem[]).blocks, { maxTokens: 60, overlapTokens: 30 });
+
+    expect(chunks[chunks.length - 1]).toBe(
+      "1 See the harbour master's records for 1887.\n" +
+      "2 Later accounts disagree on the date, some placing it a full month after the first snow."
+    );
+    chunks.slice(0, -1).forEach(chunk => expect(chunk).not.toMatch(/harbour master|Later accounts/));
+  });
+
+  it("starts a new chunk at each heading, without overlap", () => {
+    const chunks = chunkBlocks([
+      { type: "paragraph", text: "The end of the first chapter." },
+      { type: "heading", text: "Chapter 2", fontScale: 1.6 },
+      { type: "paragraph", text: "The second chapter begins." }
+    ]);
+
+    expect(chunks).toEqual(["The end of the first chapter.", "Chapter 2\nThe second chapter begins."]);
+  });
+});
@@ -0,0 +1,397 @@
+// Layout-aware page text and chunking.
+//
+// pdf.js returns a page as positioned text items rather than lines. layoutPage rebuilds lines
+// from item positions (transform, hasEOL), puts two-column text back into reading order, joins
+// words hyphenated across lines and groups the lines into headings, paragraphs and footnotes.
+// chunkBlocks then cuts those blocks into overlapping windows measured in tokens, starting a
+// new chunk at each heading. Everything here is pure so it can be run against recorded pages.
+
+// The subset of a pdf.js TextItem used for layout
+export interface PdfTextItem {
+  str: string;
+  transform?: number[];
+  width?: number;
+  height?: number;
+  hasEOL?: boolean;
+}
+
+export type TextBlockType = 'heading' | 'paragraph' | 'footnote';
+
+export interface TextBlock {
+  type: TextBlockType;
+  text: string;
+  fontScale?: number; // Heading size relative to the page's body text
+}
+
+export interface LaidOutPage {
+  text: string;
+  blocks: TextBlock[];
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+  estimateTokens?: (text: string) => number;
+}
+
+export const DEFAULT_CHUNK_TOKENS = 250;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 50;
+
+interface Line {
+  text: string;
+  x: number;
+  right: number;
+  y: number; // Baseline, measured up from the bottom of the page
+  size: number;
+}
+
+const estimateTokensByLength = (text: string) => Math.ceil(text.length / 4);
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const fontSize = (item: PdfTextItem) =>
+  Math.hypot(item.transform[2], item.transform[3]) || item.height || 0;
+
+/**
+ * Join two lines of the same paragraph, undoing hyphenation at the line break.
+ */
+export function joinLines(previous: string, next: string): string {
+  if (!previous) return next;
+  if (!next) return previous;
+  if (previous.endsWith('\u00ad')) {
+    return previous.slice(0, -1) + next;
+  }
+  if (/\p{L}-$/u.test(previous) && /^\p{Ll}/u.test(next)) {
+    return previous.slice(0, -1) + next;
+  }
+  return `${previous} ${next}`;
+}
+
+// Rebuild lines from text items. Items on the same baseline form a line unless a wide gap
+// separates them (the gutter between columns), which starts a new line segment instead.
+function buildLines(items: PdfTextItem[]): Line[] {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+
+  const finish = () => {
+    if (current && current.text.trim()) {
+      current.text = current.text.replace(/\s+/g, ' ').trim();
+      lines.push(current);
+    }
+    current = null;
+  };
+
+  for (const item of items) {
+    // Marked-content items carry no position or text
+    if (!item.transform) continue;
+
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const size = fontSize(item);
+    const right = x + (item.width || 0);
+
+    // Whitespace items are skipped: pdf.js stretches them across gaps, including the gutter
+    // between columns, and spaces are put back from the gaps between words below
+    if (item.str.trim()) {
+      if (current) {
+        const sameLine = Math.abs(y - current.y) <= Math.max(current.size, size) * 0.5;
+        const gap = x - current.right;
+        const tolerance = Math.max(current.size, size);
+
+        if (!sameLine || gap > tolerance * 1.5 || gap < -tolerance) {
+          finish();
+        } else if (size < current.size * 0.75 && y > current.y + current.size * 0.2 && /^\d+$/.test(item.str.trim())) {
+          // Superscript footnote marker inside a line
+          current.right = Math.max(current.right, right);
+          if (item.hasEOL) finish();
+          continue;
+        } else {
+          const needsSpace = gap > tolerance * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+          current.text += (needsSpace ? ' ' : '') + item.str;
+          current.right = Math.max(current.right, right);
+          current.size = Math.max(current.size, size);
+        }
+      }
+
+      if (!current) {
+        current = { text: item.str, x, right, y, size };
+      }
+    }
+
+    if (item.hasEOL) finish();
+  }
+  finish();
+
+  return lines;
+}
+
+// Put the lines of a two-column page into reading order: left column then right column,
+// section by section, where full-width lines (titles, wide figures) separate sections.
+// Pages without a clear gutter keep pdf.js's content order.
+function orderColumns(lines: Line[]): Line[] {
+  if (lines.length < 6) return lines;
+
+  const left = Math.min(...lines.map(line => line.x));
+  const right = Math.max(...lines.map(line => line.right));
+  const width = right - left;
+  if (width <= 0) return lines;
+
+  const candidates = lines
+    .flatMap(line => [line.right + 1, line.x - 1])
+    .filter(x => x > left + width * 0.3 && x < left + width * 0.7);
+
+  let gutter: number | null = null;
+  let fewestCrossing = Infinity;
+  for (const candidate of candidates) {
+    const crossing = lines.filter(line => line.x < candidate && line.right > candidate).length;
+    const leftCount = lines.filter(line => line.right <= candidate).length;
+    const rightCount = lines.filter(line => line.x >= candidate).length;
+    // Full-width lines may cross the gutter, but most lines must sit on one side or the other
+    if (leftCount >= 3 && rightCount >= 3 && crossing < fewestCrossing && crossing <= lines.length * 0.2) {
+      gutter = candidate;
+      fewestCrossing = crossing;
+    }
+  }
+  if (gutter === null) return lines;
+
+  const topDown = (a: Line, b: Line) => b.y - a.y || a.x - b.x;
+  const sorted = [...lines].sort(topDown);
+  const ordered: Line[] = [];
+  let leftColumn: Line[] = [];
+  let rightColumn: Line[] = [];
+
+  for (const line of sorted) {
+    if (line.x < gutter && line.right > gutter) {
+      ordered.push(...leftColumn, ...rightColumn, line);
+      leftColumn = [];
+      rightColumn = [];
+    } else if (line.right <= gutter) {
+      leftColumn.push(line);
+    } else {
+      rightColumn.push(line);
+    }
+  }
+  ordered.push(...leftColumn, ...rightColumn);
+
+  return ordered;
+}
+
+// Group ordered lines into headings, paragraphs and footnotes
+function groupBlocks(allLines: Line[]): TextBlock[] {
+  // Page numbers and detached footnote markers carry no text worth keeping
+  const lines = allLines.filter(line => !/^\d+$/.test(line.text));
+
+  // Body text is the size most of the page's characters are set in
+  const sizes = lines.flatMap(line => Array(Math.max(1, Math.round(line.text.length / 10))).fill(line.size));
+  const bodySize = median(sizes);
+  const isBody = (line: Line) => Math.abs(line.size - bodySize) <= bodySize * 0.15;
+  const bodyLines = lines.filter(isBody);
+  const lowestBodyY = bodyLines.length > 0 ? Math.min(...bodyLines.map(line => line.y)) : -Infinity;
+  const bodyWidth = median(bodyLines.map(line => line.right - line.x));
+
+  const spacings: number[] = [];
+  for (let i = 1; i < bodyLines.length; i++) {
+    const spacing = bodyLines[i - 1].y - bodyLines[i].y;
+    if (spacing > 0) spacings.push(spacing);
+  }
+  const lineSpacing = median(spacings) || bodySize * 1.2;
+
+  const lineType = (line: Line): TextBlockType => {
+    if (line.size >= bodySize * 1.2 && line.text.length <= 150) return 'heading';
+    if (line.size <= bodySize * 0.85 && line.y < lowestBodyY) return 'footnote';
+    return 'paragraph';
+  };
+
+  const group = (groupLines: Line[]) => {
+    const blocks: TextBlock[] = [];
+    let previous: Line | null = null;
+    let previousType: TextBlockType | null = null;
+
+    for (const line of groupLines) {
+      const type = lineType(line);
+      const block = blocks[blocks.length - 1];
+      let startsBlock = !block || !previous || type !== previousType;
+
+      if (!startsBlock) {
+        const drop = previous.y - line.y;
+        const endsSentence = /[.!?:]["')\]]?$/.test(previous.text);
+        if (type === 'heading') {
+          startsBlock = drop > line.size * 2 || drop < 0;
+        } else if (type === 'footnote') {
+          startsBlock = /^(\d+|[*†‡])\s/.test(line.text);
+        } else if (drop > 0) {
+          // Further down the same column: a blank line, an indent or a short last line ends a paragraph
+          startsBlock = drop > lineSpacing * 1.5 ||
+            line.x > previous.x + bodySize && line.x < previous.right ||
+            endsSentence && previous.right - previous.x < bodyWidth * 0.8;
+        } else {
+          // Moved up to the next column: paragraphs carry on unless the last one finished
+          startsBlock = endsSentence && previous.right - previous.x < bodyWidth * 0.8;
+        }
+      }
+
+      if (startsBlock) {
+        blocks.push(type === 'heading' ?
+          { type, text: line.text, fontScale: Math.round(line.size / bodySize * 100) / 100 } :
+          { type, text: line.text });
+      } else {
+        block.text = joinLines(block.text, line.text);
+      }
+      previous = line;
+      previousType = type;
+    }
+
+    return blocks;
+  };
+
+  // Footnotes are grouped on their own and go after the body, so a footnote that pdf.js lists
+  // between the two columns doesn't split the paragraph running across them
+  return [
+    ...group(lines.filter(line => lineType(line) !== 'footnote')),
+    ...group(lines.filter(line => lineType(line) === 'footnote'))
+  ];
+}
+
+/**
+ * Lay out a page from its pdf.js text items.
+ */
+export function layoutPage(items: PdfTextItem[]): LaidOutPage {
+  const lines = buildLines(items);
+
+  if (lines.length === 0) {
+    // No positioned items; fall back to the raw strings
+    const text = items.map(item => item.str).join(' ').replace(/\s+/g, ' ').trim();
+    return { text, blocks: text ? [{ type: 'paragraph', text }] : [] };
+  }
+
+  const blocks = groupBlocks(orderColumns(lines));
+  return {
+    text: blocks.map(block => block.text).join('\n\n'),
+    blocks
+  };
+}
+
+/**
+ * Split plain page text (paragraphs separated by blank lines) back into blocks, for pages
+ * that were stored without layout information.
+ */
+export function textToBlocks(text: string): TextBlock[] {
+  return (text || '')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).filter(Boolean).reduce(joinLines, ''))
+    .filter(Boolean)
+    .map(paragraph => ({ type: 'paragraph' as const, text: paragraph }));
+}
+
+// Split a paragraph into sentences, and any sentence longer than the window into word runs
+function splitUnits(text: string, maxTokens: number, estimateTokens: (text: string) => number): string[] {
+  const sentences = text.split(/(?<=[.!?]["')\]]?)\s+(?=["'([]?[\p{Lu}\d])/u);
+  const units: string[] = [];
+
+  for (const sentence of sentences) {
+    if (estimateTokens(sentence) <= maxTokens) {
+      units.push(sentence);
+      continue;
+    }
+
+    let run = '';
+    for (const word of sentence.split(/\s+/)) {
+      if (estimateTokens(word) > maxTokens) {
+        // A single huge "word" (a URL, a table flattened to one string): cut by characters
+        if (run) units.push(run);
+        run = '';
+        const size = Math.max(1, Math.floor(word.length * maxTokens / estimateTokens(word)));
+        for (let i = 0; i < word.length; i += size) {
+          units.push(word.slice(i, i + size));
+        }
+      } else if (run && estimateTokens(`${run} ${word}`) > maxTokens) {
+        units.push(run);
+        run = word;
+      } else {
+        run = run ? `${run} ${word}` : word;
+      }
+    }
+    if (run) units.push(run);
+  }
+
+  return units;
+}
+
+/**
+ * Cut blocks into chunks of at most maxTokens, each starting with up to overlapTokens of the
+ * previous chunk's closing sentences. Headings and the start of the footnotes begin a new
+ * chunk with no overlap, so a chunk never spans two sections.
+ */
+export function chunkBlocks(blocks: TextBlock[], options: ChunkOptions = {}): string[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_CHUNK_TOKENS;
+  const overlapTokens = Math.min(options.overlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS, Math.floor(maxTokens / 2));
+  const estimateTokens = options.estimateTokens ?? estimateTokensByLength;
+
+  const chunks: string[] = [];
+  let window: { text: string; startsParagraph: boolean }[] = [];
+  let windowTokens = 0;
+  let hasNewText = false;
+
+  const render = () => window
+    .map((unit, index) => (index > 0 ? (unit.startsParagraph ? '\n' : ' ') : '') + unit.text)
+    .join('');
+
+  const flush = (carryOver: boolean) => {
+    if (hasNewText) {
+      chunks.push(render());
+    }
+
+    const carried: typeof window = [];
+    let carriedTokens = 0;
+    if (carryOver && hasNewText) {
+      // Never carry the whole window, or the next chunk could repeat this one
+      for (let i = window.length - 1; i > 0; i--) {
+        const tokens = estimateTokens(window[i].text);
+        if (carriedTokens + tokens > overlapTokens) break;
+        carried.unshift(window[i]);
+        carriedTokens += tokens;
+      }
+    }
+    window = carried;
+    windowTokens = carriedTokens;
+    hasNewText = false;
+  };
+
+  let previousType: TextBlockType | null = null;
+  for (const block of blocks) {
+    if (block.type === 'heading' || block.type === 'footnote' && previousType !== 'footnote') {
+      flush(false);
+    }
+
+    splitUnits(block.text, maxTokens, estimateTokens).forEach((text, index) => {
+      const tokens = estimateTokens(text);
+      if (windowTokens + tokens > maxTokens) {
+        flush(true);
+        // Drop overlap that would leave no room for the new text
+        while (window.length > 0 && windowTokens + tokens > maxTokens) {
+          windowTokens -= estimateTokens(window.shift()?.text ?? '');
+        }
+      }
+      window.push({ text, startsParagraph: index === 0 });
+      windowTokens += tokens;
+      hasNewText = true;
+    });
+
+    previousType = block.type;
+  }
+  flush(false);
+
+  return chunks;
+}
+
+/**
+ * Chunk plain page text. Prefer chunkBlocks(layoutPage(items).blocks) when the pdf.js items
+ * are available, as headings are only known from the layout.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  return chunkBlocks(textToBlocks(text), options);
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { buildContext, ContextChunk, mergeOverlapping, neighborKeys } from "./contextBuilder.ts";
+
+// One token per character keeps the budget arithmetic readable
+const countChars = (text: string) => text.length;
+
+const chunk = (pageId: string, pageNumber: number | null, chunkIndex: number, content: string): ContextChunk => ({
+  id: `${pageId}-${chunkIndex}`,
+  page_id: pageId,
+  page_number: pageNumber,
+  chunk_index: chunkIndex,
+  content
+});
+
+describe("neighborKeys", () => {
+  it("lists the chunks within the radius of each hit", () => {
+    expect(neighborKeys([chunk("p1", 1, 3, "hit")])).toEqual([
+      { page_id: "p1", chunk_index: 2 },
+      { page_id: "p1", chunk_index: 4 }
+    ]);
+    expect(neighborKeys([chunk("p1", 1, 3, "hit")], 2).map(key => key.chunk_index)).toEqual([1, 2, 4, 5]);
+  });
+
+  it("skips negative indexes, repeats and hits without a position", () => {
+    const keys = neighborKeys([
+      chunk("p1", 1, 0, "first"),
+      chunk("p1", 1, 2, "third"),
+      { id: "page-only", page_id: "p2", content: "whole page" }
+    ]);
+
+    expect(keys).toEqual([
+      { page_id: "p1", chunk_index: 1 },
+      { page_id: "p1", chunk_index: 3 }
+    ]);
+  });
+});
+
+describe("mergeOverlapping", () => {
+  it("drops text the next chunk repeats from the end of the previous one", () => {
+    const previous = "The mitochondria is the powerhouse of the cell.";
+    const next = "powerhouse of the cell. It makes ATP.";
+
+    expect(mergeOverlapping(previous, next)).toBe("The mitochondria is the powerhouse of the cell. It makes ATP.");
+  });
+
+  it("keeps both texts when they only share a few characters", () => {
+    expect(mergeOverlapping("It ended in the rain", "rain fell all night")).toBe("It ended in the rain\nrain fell all night");
+  });
+
+  it("needs an overlap of at least 20 characters", () => {
+    const shared = "0123456789abcdefghij";
+
+    expect(mergeOverlapping(`start ${shared}`, `${shared} end`)).toBe(`start ${shared} end`);
+    expect(mergeOverlapping(`start ${shared.slice(1)}`, `${shared.slice(1)} end`))
+      .toBe(`start ${shared.slice(1)}\n${shared.slice(1)} end`);
+  });
+
+  it("drops a short next chunk the previous one already ends with", () => {
+    expect(mergeOverlapping("Chapter one ends here.", "here.")).toBe("Chapter one ends here.");
+  });
+
+  it("joins unrelated texts with a line break", () => {
+    expect(mergeOverlapping("First.", "Second.")).toBe("First.\nSecond.");
+  });
+});
+
+describe("buildContext", () => {
+  it("adds the chunks around each hit within the radius", () => {
+    const hit = chunk("p1", 7, 2, "The hit.");
+    const neighbors = [
+      { ...chunk("p1", null, 0, "Two before."), page_number: undefined },
+      { ...chunk("p1", null, 1, "One before."), page_number: undefined },
+      { ...chunk("p1", null, 3, "One after."), page_number: undefined }
+    ];
+
+    const near = buildContext([hit], neighbors);
+    expect(near.blocks).toHaveLength(1);
+    expect(near.blocks[0].chunk_ids).toEqual(["p1-1", "p1-2", "p1-3"]);
+    expect(near.text).toBe("[p. 7]\nOne before.\nThe hit.\nOne after.");
+
+    const wide = buildContext([hit], neighbors, { neighborRadius: 2 });
+    expect(wide.blocks[0].chunk_ids).toEqual(["p1-0", "p1-1", "p1-2", "p1-3"]);
+  });
+
+  it("merges the overlap between consecutive chunks", () => {
+    const hits = [
+      chunk("p1", 1, 0, "Photosynthesis turns light into chemical energy"),
+      chunk("p1", 1, 1, "light into chemical energy stored in glucose.")
+    ];
+
+    const context = buildContext(hits);
+    expect(context.text).toBe("[p. 1]\nPhotosynthesis turns light into chemical energy stored in glucose.");
+  });
+
+  it("sorts blocks into page order and labels each with its page", () => {
+    const hits = [
+      chunk("p9", 9, 0, "Late passage."),
+      chunk("p2", 2, 4, "Early passage."),
+      chunk("p2", 2, 1, "Earlier on the same page.")
+    ];
+
+    const context = buildContext(hits);
+    expect(context.text).toBe("[p. 2]\nEarlier on the same page.\n\n[p. 2]\nEarly passage.\n\n[p. 9]\nLate passage.");
+    expect(context.hits.map(hit => hit.id)).toEqual(["p9-0", "p2-4", "p2-1"]);
+  });
+
+  it("puts passages without a page after the paged ones, unlabelled", () => {
+    const context = buildContext([{ id: null, content: "Selected text." }, chunk("p3", 3, 0, "Paged.")]);
+
+    expect(context.text).toBe("[p. 3]\nPaged.\n\nSelected text.");
+  });
+
+  it("stops adding hits and neighbors once the budget is spent", () => {
+    const hits = [chunk("p1", 1, 0, "a".repeat(30)), chunk("p2", 2, 0, "b".repeat(30))];
+    const neighbors = [chunk("p1", 1, 1, "c".repeat(15))];
+
+    const context = buildContext(hits, neighbors, { tokenBudget: 50, estimateTokens: countChars });
+    expect(context.hits.map(hit => hit.id)).toEqual(["p1-0"]);
+    expect(context.blocks[0].chunk_ids).toEqual(["p1-0", "p1-1"]);
+    expect(context.text).not.toContain("b");
+  });
+
+  it("keeps a single oversized first hit, cut down to the budget", () => {
+    const hits = [chunk("p1", 1, 0, "x".repeat(400)), chunk("p2", 2, 0, "short")];
+
+    const context = buildContext(hits, [], { tokenBudget: 100, estimateTokens: countChars });
+    expect(context.hits.map(hit => hit.id)).toEqual(["p1-0"]);
+    expect(context.text.startsWith("[p. 1]\nxxx")).toBe(true);
+    expect(context.text.endsWith("...")).toBe(true);
+    expect(context.text.length).toBeLessThanOrEqual(100 + "...".length);
+  });
+});
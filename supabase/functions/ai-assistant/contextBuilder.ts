@@ -0,0 +1,196 @@
+// Builds the context sent with a RAG answer from retrieved chunks.
+//
+// Pure functions only: the caller fetches the hits and their neighboring chunks, and gets
+// back the labelled context text plus the hits that made it in. Each hit is expanded with
+// the chunks just before and after it on the same page, overlapping chunks are merged,
+// blocks are sorted into reading order and labelled [p. N], and the whole context is kept
+// within a token budget.
+
+export interface ContextChunk {
+  id: string | null;
+  page_id?: string | null;
+  page_number?: number | null;
+  chunk_index?: number | null;
+  content: string;
+  similarity?: number | null;
+  score?: number | null;
+}
+
+export interface ContextBlock {
+  page_number: number | null;
+  page_id: string | null;
+  chunk_ids: string[];
+  content: string;
+}
+
+export interface BuiltContext {
+  text: string;
+  blocks: ContextBlock[];
+  hits: ContextChunk[]; // The hits included in the context, in relevance order
+  tokens: number;
+}
+
+export interface ContextOptions {
+  tokenBudget?: number;
+  neighborRadius?: number;
+  estimateTokens?: (text: string) => number;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 3000;
+
+// Longest overlap checked when merging adjacent chunks
+const MAX_OVERLAP_CHARS = 1000;
+
+export const estimateTokensByLength = (text: string) => Math.ceil(text.length / 4);
+
+const chunkKey = (chunk: ContextChunk) =>
+  chunk.page_id && typeof chunk.chunk_index === 'number' ?
+    `${chunk.page_id}:${chunk.chunk_index}` :
+    `id:${chunk.id ?? chunk.content}`;
+
+/**
+ * Join two pieces of text, dropping the start of `next` when it repeats the end of `previous`
+ * (chunks can overlap when the chunker carries text over from one chunk to the next).
+ */
+export function mergeOverlapping(previous: string, next: string): string {
+  const maxOverlap = Math.min(previous.length, next.length, MAX_OVERLAP_CHARS);
+  for (let length = maxOverlap; length > 0; length--) {
+    if (previous.endsWith(next.slice(0, length))) {
+      // Ignore tiny coincidental overlaps such as a shared trailing space or letter
+      if (length < 20 && length < next.length) break;
+      return previous + next.slice(length);
+    }
+  }
+  return `${previous}\n${next}`;
+}
+
+/**
+ * The (page_id, chunk_index) pairs adjacent to each hit, for the caller to fetch.
+ */
+export function neighborKeys(hits: ContextChunk[], radius = 1): { page_id: string; chunk_index: number }[] {
+  const keys = new Map<string, { page_id: string; chunk_index: number }>();
+  for (const hit of hits) {
+    if (!hit.page_id || typeof hit.chunk_index !== 'number') continue;
+    for (let offset = -radius; offset <= radius; offset++) {
+      const index = hit.chunk_index + offset;
+      if (offset === 0 || index < 0) continue;
+      keys.set(`${hit.page_id}:${index}`, { page_id: hit.page_id, chunk_index: index });
+    }
+  }
+  return [...keys.values()];
+}
+
+/**
+ * Build the context for `hits` (most relevant first). Hits are included in relevance order
+ * while they fit the budget, then their neighbors from `neighbors` are added, nearest first.
+ */
+export function buildContext(
+  hits: ContextChunk[],
+  neighbors: ContextChunk[] = [],
+  options: ContextOptions = {}
+): BuiltContext {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const radius = options.neighborRadius ?? 1;
+  const estimateTokens = options.estimateTokens ?? estimateTokensByLength;
+
+  // Neighbors inherit the page number of the hit on the same page
+  const pageNumbers = new Map<string, number>();
+  for (const hit of hits) {
+    if (hit.page_id && typeof hit.page_number === 'number') {
+      pageNumbers.set(hit.page_id, hit.page_number);
+    }
+  }
+  const available = new Map<string, ContextChunk>();
+  for (const chunk of neighbors) {
+    available.set(chunkKey(chunk), {
+      ...chunk,
+      page_number: chunk.page_number ?? (chunk.page_id ? pageNumbers.get(chunk.page_id) : null) ?? null
+    });
+  }
+
+  const included = new Map<string, ContextChunk>();
+  const includedHits: ContextChunk[] = [];
+  let tokens = 0;
+
+  const include = (chunk: ContextChunk) => {
+    const key = chunkKey(chunk);
+    if (included.has(key)) return true;
+    const cost = estimateTokens(chunk.content);
+    if (tokens + cost > tokenBudget) return false;
+    included.set(key, chunk);
+    tokens += cost;
+    return true;
+  };
+
+  // Hits first, so a neighbor never crowds out a more relevant passage
+  for (const hit of hits) {
+    if (!hit.content) continue;
+    if (include(hit)) {
+      includedHits.push(hit);
+    } else if (includedHits.length === 0) {
+      // Even a single oversized hit is better than no context; it is trimmed below
+      included.set(chunkKey(hit), hit);
+      includedHits.push(hit);
+      tokens += estimateTokens(hit.content);
+      break;
+    }
+  }
+
+  for (let distance = 1; distance <= radius; distance++) {
+    for (const hit of includedHits) {
+      if (!hit.page_id || typeof hit.chunk_index !== 'number') continue;
+      for (const index of [hit.chunk_index - distance, hit.chunk_index + distance]) {
+        const neighbor = available.get(`${hit.page_id}:${index}`);
+        if (neighbor) include(neighbor);
+      }
+    }
+  }
+
+  // Sort into reading order: by page, then chunk position
+  const ordered = [...included.values()].sort((a, b) =>
+    (a.page_number ?? Number.MAX_SAFE_INTEGER) - (b.page_number ?? Number.MAX_SAFE_INTEGER) ||
+    (a.page_id ?? '').localeCompare(b.page_id ?? '') ||
+    (a.chunk_index ?? 0) - (b.chunk_index ?? 0)
+  );
+
+  // Merge runs of consecutive chunks from the same page into one block
+  const blocks: ContextBlock[] = [];
+  let previous: ContextChunk | null = null;
+  for (const chunk of ordered) {
+    const last = blocks[blocks.length - 1];
+    const isContinuation = previous && last &&
+      chunk.page_id && chunk.page_id === previous.page_id &&
+      typeof chunk.chunk_index === 'number' && chunk.chunk_index === (previous.chunk_index ?? -2) + 1;
+
+    if (isContinuation) {
+      last.content = mergeOverlapping(last.content, chunk.content);
+      if (chunk.id) last.chunk_ids.push(chunk.id);
+    } else {
+      blocks.push({
+        page_number: chunk.page_number ?? null,
+        page_id: chunk.page_id ?? null,
+        chunk_ids: chunk.id ? [chunk.id] : [],
+        content: chunk.content
+      });
+    }
+    previous = chunk;
+  }
+
+  const formatBlock = (block: ContextBlock) =>
+    block.page_number ? `[p. ${block.page_number}]\n${block.content}` : block.content;
+
+  let text = blocks.map(formatBlock).join('\n\n');
+
+  // Labels and an oversized first hit can still push the text over budget; cut it to fit
+  if (estimateTokens(text) > tokenBudget) {
+    const ratio = tokenBudget / estimateTokens(text);
+    text = `${text.slice(0, Math.floor(text.length * ratio)).trim()}...`;
+  }
+
+  return {
+    text,
+    blocks,
+    hits: includedHits,
+    tokens: estimateTokens(text)
+  };
+}
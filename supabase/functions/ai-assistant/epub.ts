@@ -0,0 +1,214 @@
+// EPUB text extraction.
+//
+// An EPUB is a zip of XHTML documents listed in reading order by the package's spine. Each
+// spine document is stored as one "page" of the book, numbered from 1 in spine order - the
+// same numbering the reader uses for its locations - so chunks, sections and page-scoped
+// search work as they do for PDFs. Headings, paragraphs and footnotes come from the markup
+// rather than from layout, and the table of contents from the EPUB 3 nav document or the
+// EPUB 2 NCX.
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { TextBlock } from "./chunker.ts";
+
+// The MIME type `books.file_type` holds for EPUBs; any other type is read as a PDF
+export const EPUB_MIME_TYPE = "application/epub+zip";
+
+export interface EpubPage {
+  page_number: number;
+  content: string;
+  blocks: TextBlock[];
+}
+
+export interface EpubOutlineEntry {
+  title: string;
+  level: number;
+  start_page: number;
+}
+
+export interface EpubText {
+  total_pages: number;
+  pages: EpubPage[];
+  outline: EpubOutlineEntry[];
+}
+
+// Heading sizes reported as fontScale, so h1/h2 are taken as chapters like large PDF headings
+const HEADING_SCALES: Record<string, number> = { h1: 2, h2: 1.6, h3: 1.3, h4: 1.2, h5: 1.1, h6: 1.1 };
+
+const BLOCK_SELECTOR = "h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, figcaption, dt, dd, td";
+
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr"]);
+
+// EPUB markup is XML, which the HTML parser reads well enough once self-closed elements
+// such as <title/> or <item/> are written out in full
+function parseMarkup(markup: string) {
+  const html = markup.replace(/<([A-Za-z][\w:.-]*)(\s[^<>]*?)?\/>/g, (tag, name, attributes = "") =>
+    VOID_ELEMENTS.has(name.toLowerCase()) ? tag : `<${name}${attributes}></${name}>`);
+  return new DOMParser().parseFromString(html, "text/html");
+}
+
+function normalizeText(text: string) {
+  return (text || "").replace(/\s+/g, " ").trim();
+}
+
+// Resolve an href against the directory of the file that contains it, dropping any fragment
+function resolvePath(baseFile: string, href: string) {
+  const parts = baseFile.split("/").slice(0, -1);
+  for (const segment of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment && segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+function isFootnote(element) {
+  for (let node = element; node; node = node.parentElement) {
+    const type = node.getAttribute?.("epub:type") || node.getAttribute?.("role") || "";
+    if (/footnote|endnote|rearnote|doc-footnote|doc-endnote/.test(type)) return true;
+  }
+  return false;
+}
+
+/**
+ * Split an XHTML document into blocks. Only the innermost block elements are used, so text
+ * nested in a list item's paragraph is not read twice. Footnotes are moved to the end.
+ */
+export function documentToBlocks(markup: string): TextBlock[] {
+  const body = parseMarkup(markup)?.querySelector("body");
+  if (!body) return [];
+
+  const blocks: TextBlock[] = [];
+  const footnotes: TextBlock[] = [];
+
+  for (const element of body.querySelectorAll(BLOCK_SELECTOR)) {
+    if (element.querySelector(BLOCK_SELECTOR)) continue;
+
+    const text = normalizeText(element.textContent);
+    if (!text) continue;
+
+    const tag = element.tagName.toLowerCase();
+    if (HEADING_SCALES[tag]) {
+      blocks.push({ type: "heading", text, fontScale: HEADING_SCALES[tag] });
+    } else if (isFootnote(element)) {
+      footnotes.push({ type: "footnote", text });
+    } else {
+      blocks.push({ type: "paragraph", text });
+    }
+  }
+
+  // Documents that put their text straight into divs
+  if (blocks.length === 0 && footnotes.length === 0) {
+    const text = normalizeText(body.textContent);
+    return text ? [{ type: "paragraph", text }] : [];
+  }
+
+  return [...blocks, ...footnotes];
+}
+
+// Function to read the EPUB 3 nav document's table of contents
+function readNavOutline(markup: string, navPath: string, pageOf: (path: string) => number | null) {
+  const doc = parseMarkup(markup);
+  const nav = Array.from(doc?.querySelectorAll("nav") || [])
+    .find(element => element.getAttribute("epub:type") === "toc") || doc?.querySelector("nav");
+  const outline: EpubOutlineEntry[] = [];
+
+  const visit = (list, level: number) => {
+    for (const item of Array.from(list?.children || [])) {
+      if (item.tagName.toLowerCase() !== "li") continue;
+      const link = item.querySelector("a");
+      const title = normalizeText(link?.textContent || "");
+      const href = link?.getAttribute("href");
+      const startPage = href ? pageOf(resolvePath(navPath, href)) : null;
+      if (title && startPage) {
+        outline.push({ title, level, start_page: startPage });
+      }
+      visit(item.querySelector("ol"), level + 1);
+    }
+  };
+
+  visit(nav?.querySelector("ol"), 1);
+  return outline;
+}
+
+// Function to read the EPUB 2 NCX table of contents. A navPoint's depth is its level.
+function readNcxOutline(markup: string, ncxPath: string, pageOf: (path: string) => number | null) {
+  const doc = parseMarkup(markup);
+  const outline: EpubOutlineEntry[] = [];
+
+  for (const point of doc?.querySelectorAll("navmap navpoint") || []) {
+    let level = 0;
+    for (let node = point; node; node = node.parentElement) {
+      if (node.tagName.toLowerCase() === "navpoint") level++;
+    }
+
+    // The point's own label and content come before those of its children
+    const title = normalizeText(point.querySelector("navlabel")?.textContent || "");
+    const src = point.querySelector("content")?.getAttribute("src");
+    const startPage = src ? pageOf(resolvePath(ncxPath, src)) : null;
+    if (title && startPage) {
+      outline.push({ title, level, start_page: startPage });
+    }
+  }
+
+  return outline;
+}
+
+/**
+ * Read the text of spine documents fromPage to toPage (1-based). The outline is only read
+ * with the first range, as it covers the whole book.
+ */
+export async function readEpub(data: ArrayBuffer, fromPage = 1, toPage = Infinity): Promise<EpubText> {
+  const zip = await JSZip.loadAsync(data);
+  const readFile = (path: string) => zip.file(path)?.async("string") ?? Promise.resolve(null);
+
+  const container = await readFile("META-INF/container.xml");
+  const packagePath = container && parseMarkup(container)?.querySelector("rootfile")?.getAttribute("full-path");
+  const packageXml = packagePath ? await readFile(packagePath) : null;
+  if (!packagePath || !packageXml) {
+    throw new Error("Not an EPUB: package document not found");
+  }
+
+  const pkg = parseMarkup(packageXml);
+  const manifest = new Map<string, { path: string, properties: string, mediaType: string }>();
+  for (const item of pkg.querySelectorAll("manifest item")) {
+    manifest.set(item.getAttribute("id"), {
+      path: resolvePath(packagePath, item.getAttribute("href") || ""),
+      properties: item.getAttribute("properties") || "",
+      mediaType: item.getAttribute("media-type") || ""
+    });
+  }
+
+  const spine = Array.from(pkg.querySelectorAll("spine itemref"))
+    .map(itemref => manifest.get(itemref.getAttribute("idref"))?.path || null);
+  const pageOf = (path: string) => {
+    const index = spine.indexOf(path);
+    return index >= 0 ? index + 1 : null;
+  };
+
+  const pages: EpubPage[] = [];
+  const lastPage = Math.min(toPage, spine.length);
+  for (let pageNum = fromPage; pageNum <= lastPage; pageNum++) {
+    const path = spine[pageNum - 1];
+    const markup = path ? await readFile(path) : null;
+    const blocks = markup ? documentToBlocks(markup) : [];
+    pages.push({
+      page_number: pageNum,
+      content: blocks.map(block => block.text).join("\n\n"),
+      blocks
+    });
+  }
+
+  let outline: EpubOutlineEntry[] = null;
+  if (fromPage === 1) {
+    const items = Array.from(manifest.values());
+    const nav = items.find(item => item.properties.split(/\s+/).includes("nav"));
+    const ncxId = pkg.querySelector("spine")?.getAttribute("toc");
+    const ncx = (ncxId && manifest.get(ncxId)) || items.find(item => item.mediaType === "application/x-dtbncx+xml");
+
+    const navMarkup = nav ? await readFile(nav.path) : null;
+    const ncxMarkup = !navMarkup && ncx ? await readFile(ncx.path) : null;
+    outline = navMarkup ? readNavOutline(navMarkup, nav.path, pageOf) :
+      ncxMarkup ? readNcxOutline(ncxMarkup, ncx.path, pageOf) : [];
+  }
+
+  return { total_pages: spine.length, pages, outline };
+}
@@ -2,6 +2,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.22.0";
 import * as pdfjs from "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.5.141/+esm";
+import {
+  citationInstructions,
+  explainSelectionSystemPrompt,
+  explainSelectionUserPromptTemplate,
+  summarizeMapSystemPrompt,
+  summarizeMapUserPromptTemplate,
+  summarizeReduceSystemPrompt,
+  summarizeReduceUserPromptTemplate
+} from "./prompts.ts";
+import { ConversationTurn, EMBEDDING_DIMENSIONS, LLMProvider, createPreviousEmbeddingProvider, createProvider } from "./providers.ts";
+import { buildContext, neighborKeys } from "./contextBuilder.ts";
+import { chunkBlocks, chunkText, layoutPage, textToBlocks } from "./chunker.ts";
+import { createOcrReader, needsOcr } from "./ocr.ts";
+import { EPUB_MIME_TYPE, readEpub } from "./epub.ts";
+import { QuizQuestion, evaluateQuizAnswer, generateQuiz } from "./quiz.ts";
 
 // CORS headers
 const corsHeaders = {
@@ -12,18 +27,138 @@ const corsHeaders = {
 // Environment variables
 const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-const googleApiKey = Deno.env.get("GOOGLE_API_KEY") || "";
 
 // Check if required environment variables are present
 if (!supabaseUrl) console.error("SUPABASE_URL is missing");
 if (!supabaseServiceKey) console.error("SUPABASE_SERVICE_ROLE_KEY is missing");
-if (!googleApiKey) console.error("GOOGLE_API_KEY is missing");
 
 // Create a Supabase client with service role key for accessing protected data
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// Function to find relevant chunks for a query using vector similarity search
-async function findRelevantChunks(query: string, bookId: string, pageNumber?: number, searchScope: 'page' | 'book' = 'book') {
+// Embedding and chat model provider, chosen by LLM_PROVIDER (see providers.ts)
+const llm = createProvider();
+
+// Providers that can embed search queries, by embedding model: the configured one and, during
+// a model switch, the previous one. Each book is searched with the model its chunks were
+// embedded with, so it keeps vector search until its re-embed job switches it over.
+const queryEmbedders = new Map<string, LLMProvider>();
+const previousEmbeddings = createPreviousEmbeddingProvider();
+if (previousEmbeddings) {
+  queryEmbedders.set(previousEmbeddings.embeddingModel, previousEmbeddings);
+}
+queryEmbedders.set(llm.embeddingModel, llm);
+
+// Weights for merging full-text and vector rankings in search_book_chunks_hybrid
+const HYBRID_FULL_TEXT_WEIGHT = parseFloat(Deno.env.get("HYBRID_FULL_TEXT_WEIGHT") || "1.0");
+const HYBRID_SEMANTIC_WEIGHT = parseFloat(Deno.env.get("HYBRID_SEMANTIC_WEIGHT") || "1.0");
+const HYBRID_RRF_K = parseInt(Deno.env.get("HYBRID_RRF_K") || "50");
+
+// Context a question is answered from: the current page, a chapter or other page range, or the whole book
+type SearchScope = 'page' | 'chapter' | 'range' | 'book';
+
+interface PageRange {
+  start: number;
+  end: number;
+}
+
+// Function to read a page range from the request, ignoring anything that isn't one
+function parsePageRange(value): PageRange | null {
+  const start = parseInt(value?.start);
+  const end = parseInt(value?.end);
+  if (!start || !end || start < 1 || end < start) {
+    return null;
+  }
+  return { start, end };
+}
+
+// Function to list the embedding models a book's chunks were embedded with
+async function loadBookEmbeddingModels(bookId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('book_embedding_status')
+    .select('embedding_models')
+    .eq('book_id', bookId)
+    .maybeSingle();
+    
+  if (error) {
+    console.error(`Error loading embedding models for book ${bookId}: ${error.message}`);
+    return [llm.embeddingModel];
+  }
+  
+  return data?.embedding_models || [];
+}
+
+type HybridSearchOptions = { pageId?: string, pageRange?: PageRange, matchCount: number, matchThreshold: number };
+
+// Function to run one hybrid search, comparing only embeddings from the given model
+async function searchChunksWithModel(query: string, bookId: string, model: string | null, options: HybridSearchOptions) {
+  // Without an embedding the search still ranks chunks by full-text relevance
+  const embedding = model ? await generateEmbedding(query, queryEmbedders.get(model)) : null;
+  if (!embedding) {
+    console.log(`No ${model || 'query'} embedding for the query, using full-text search only`);
+  }
+  
+  const searchParams = {
+    p_book_id: bookId,
+    query_text: query,
+    query_embedding: embedding,
+    match_count: options.matchCount,
+    p_embedding_model: model, // Only compare embeddings from the same model
+    match_threshold: options.matchThreshold,
+    full_text_weight: HYBRID_FULL_TEXT_WEIGHT,
+    semantic_weight: HYBRID_SEMANTIC_WEIGHT,
+    rrf_k: HYBRID_RRF_K
+  };
+  
+  const { data, error } = options.pageRange ?
+    await supabase.rpc('search_book_chunks_in_page_range', {
+      ...searchParams,
+      p_start_page: options.pageRange.start,
+      p_end_page: options.pageRange.end
+    }) :
+    await supabase.rpc('search_book_chunks_hybrid', {
+      ...searchParams,
+      p_page_id: options.pageId || null
+    });
+  
+  if (error) {
+    console.log(`Hybrid search error: ${error.message}`);
+    return [];
+  }
+  
+  return data || [];
+}
+
+// Function to run hybrid (full-text + vector) search over a book, one page of it, or a range of pages.
+// The query is embedded with each model the book's chunks use; chunks from a model no provider
+// is configured for are only found by full text.
+async function searchChunksHybrid(query: string, bookId: string, options: HybridSearchOptions) {
+  const bookModels = await loadBookEmbeddingModels(bookId);
+  const models = bookModels.filter(model => queryEmbedders.has(model));
+  const unsearchable = bookModels.filter(model => !queryEmbedders.has(model));
+  if (unsearchable.length > 0) {
+    console.log(`Book ${bookId} has ${unsearchable.join(', ')} embeddings, which no provider is configured for`);
+  }
+  
+  const results = await Promise.all((models.length > 0 ? models : [null])
+    .map(model => searchChunksWithModel(query, bookId, model, options)));
+  if (results.length === 1) {
+    return results[0];
+  }
+  
+  // Chunks embedded with different models: keep each chunk's best result
+  const best = new Map();
+  for (const chunk of results.flat()) {
+    if (!best.has(chunk.id) || chunk.score > best.get(chunk.id).score) {
+      best.set(chunk.id, chunk);
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.matchCount);
+}
+
+// Function to find relevant chunks for a query using hybrid full-text and vector search
+async function findRelevantChunks(query: string, bookId: string, pageNumber?: number, searchScope: SearchScope = 'book', pageRange: PageRange | null = null) {
   console.log(`Finding relevant chunks for query: ${query} with scope: ${searchScope}`);
   
   try {
@@ -34,7 +169,7 @@ async function findRelevantChunks(query: string, bookId: string, pageNumber?: nu
       // First get the page ID for the given page number
       const { data: pageData, error: pageError } = await supabase
         .from('book_pages')
-        .select('id')
+        .select('id, content')
         .eq('book_id', bookId)
         .eq('page_number', pageNumber)
         .single();
@@ -44,109 +179,53 @@ async function findRelevantChunks(query: string, bookId: string, pageNumber?: nu
         return [];
       }
       
-      // Get chunks for this specific page
       const pageId = pageData.id;
+      const data = await searchChunksHybrid(query, bookId, {
+        pageId,
+        matchCount: 5, // Limit to top 5 most relevant chunks
+        matchThreshold: 0.5
+      });
       
-      // Generate embeddings for the query using Google Gemini API
-      const embedding = await generateEmbedding(query);
-      if (!embedding) {
-        throw new Error("Failed to generate embeddings for query");
+      if (data.length > 0) {
+        console.log(`Found ${data.length} hybrid matches on page ${pageNumber}`);
+        return data;
       }
       
-      // Use the match_page_chunks function to find chunks on this page
-      const { data, error } = await supabase.rpc('match_page_chunks', {
-        query_embedding: embedding,
-        page_id_param: pageId,
-        match_threshold: 0.5, // Lower threshold to get more results
-        match_count: 5 // Limit to top 5 most relevant chunks
-      });
-      
-      if (error) {
-        console.log(`Vector search error: ${error.message}`);
+      console.log(`No matches found on page ${pageNumber}, falling back to full page content`);
+      if (!pageData.content) {
         return [];
       }
       
-      if (data && data.length > 0) {
-        console.log(`Found ${data.length} vector matches on page ${pageNumber}`);
-        return data;
-      } else {
-        console.log(`No vector matches found on page ${pageNumber}, falling back to full page content`);
-        // If no specific chunks match, return the whole page content
-        const { data: pageContentData, error: pageContentError } = await supabase
-          .from('book_pages')
-          .select('content')
-          .eq('id', pageId)
-          .single();
-          
-        if (pageContentError || !pageContentData?.content) {
-          return [];
-        }
-        
-        return [{
-          id: pageId,
-          content: pageContentData.content,
-          similarity: 1.0
-        }];
-      }
+      // If no specific chunks match, return the whole page content
+      return [{
+        id: pageId,
+        page_id: pageId,
+        content: pageData.content,
+        similarity: 1.0
+      }];
+    } else if ((searchScope === 'chapter' || searchScope === 'range') && pageRange) {
+      // Chapter or page range search
+      console.log(`Looking up context for pages ${pageRange.start}-${pageRange.end} of book ${bookId}`);
+      
+      const data = await searchChunksHybrid(query, bookId, {
+        pageRange,
+        matchCount: 8,
+        matchThreshold: 0.45
+      });
+      
+      console.log(`Found ${data.length} hybrid matches in pages ${pageRange.start}-${pageRange.end}`);
+      return data;
     } else {
       // Book-wide search
       console.log(`Looking up context for the entire book with ID: ${bookId}`);
       
-      // Generate embeddings for the query using Google Gemini API
-      const embedding = await generateEmbedding(query);
-      if (!embedding) {
-        throw new Error("Failed to generate embeddings for query");
-      }
-      
-      // Use the match_book_chunks function to find chunks across the whole book
-      const { data, error } = await supabase.rpc('match_book_chunks', {
-        query_embedding: embedding,
-        match_threshold: 0.4, // Lower threshold for book-wide searches to capture more context
-        match_count: 10, // Increase the number of chunks for full book context
-        p_book_id: bookId
+      const data = await searchChunksHybrid(query, bookId, {
+        matchCount: 10, // Increase the number of chunks for full book context
+        matchThreshold: 0.4 // Lower threshold for book-wide searches to capture more context
       });
       
-      if (error) {
-        console.log(`Vector search error: ${error.message}`);
-        return [];
-      }
-      
-      if (data && data.length > 0) {
-        console.log(`Found ${data.length} vector matches across the book`);
-        return data;
-      } else {
-        console.log(`No vector matches found, trying keyword search`);
-        
-        // Fallback to keyword search if vector search yields no results
-        // Split query into keywords and search for them
-        const keywords = query.trim().toLowerCase().split(/\s+/)
-          .filter(word => word.length > 3) // Only use meaningful words
-          .map(word => word.replace(/[^\w]/g, '')); // Remove special chars
-          
-        if (keywords.length === 0) {
-          console.log(`No keywords found for search`);
-          return [];
-        }
-        
-        // Build a query to search for any of these keywords in the chunks
-        const { data: keywordData, error: keywordError } = await supabase
-          .from('book_chunks')
-          .select('id, content, book_id, page_id')
-          .eq('book_id', bookId)
-          .or(keywords.map(keyword => `content.ilike.%${keyword}%`).join(','))
-          .limit(10);
-          
-        if (keywordError || !keywordData || keywordData.length === 0) {
-          console.log(`No chunks found with keyword search either`);
-          return [];
-        }
-        
-        console.log(`Found ${keywordData.length} chunks using keyword search`);
-        return keywordData.map(chunk => ({
-          ...chunk,
-          similarity: 0.7 // Assign a default similarity score
-        }));
-      }
+      console.log(`Found ${data.length} hybrid matches across the book`);
+      return data;
     }
   } catch (error) {
     console.error(`Error finding relevant chunks: ${error.message}`);
@@ -154,136 +233,540 @@ async function findRelevantChunks(query: string, bookId: string, pageNumber?: nu
   }
 }
 
-// Function to generate embeddings using Google AI
-async function generateEmbedding(text: string) {
-  try {
-    const url = "https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=" + googleApiKey;
+// A retrieved passage the answer can cite
+interface ChunkSource {
+  page_number: number;
+  chunk_id: string | null;
+  similarity: number | null;
+  snippet: string;
+}
+
+const SOURCE_SNIPPET_CHARS = 200;
+
+// Function to look up the page number of each chunk from its page_id
+async function attachPageNumbers(chunks) {
+  const pageIds = [...new Set(chunks.map(chunk => chunk.page_id).filter(Boolean))];
+  if (pageIds.length === 0) {
+    return chunks;
+  }
+  
+  const { data, error } = await supabase
+    .from('book_pages')
+    .select('id, page_number')
+    .in('id', pageIds);
     
-    const payload = {
-      model: "models/embedding-001",
-      content: {
-        parts: [{ text }]
-      }
-    };
+  if (error) {
+    console.error(`Error looking up chunk page numbers: ${error.message}`);
+    return chunks;
+  }
+  
+  const pageNumbers = new Map((data || []).map(page => [page.id, page.page_number]));
+  return chunks.map(chunk => ({
+    ...chunk,
+    page_number: chunk.page_number ?? pageNumbers.get(chunk.page_id) ?? null
+  }));
+}
+
+// Token budget for retrieved passages sent with a chat question
+const CONTEXT_TOKEN_BUDGET = 3000;
+
+// Function to fetch the chunks just before and after each hit on the same page
+async function fetchNeighborChunks(chunks) {
+  const keys = neighborKeys(chunks);
+  if (keys.length === 0) {
+    return [];
+  }
+  
+  // Fetch every wanted index for every page; the context builder only picks the exact neighbors
+  const { data, error } = await supabase
+    .from('book_chunks')
+    .select('id, page_id, chunk_index, content')
+    .in('page_id', [...new Set(keys.map(key => key.page_id))])
+    .in('chunk_index', [...new Set(keys.map(key => key.chunk_index))]);
     
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload)
-    });
+  if (error) {
+    console.error(`Error fetching neighboring chunks: ${error.message}`);
+    return [];
+  }
+  
+  return data || [];
+}
+
+// Function to describe the chunks used for an answer, one entry per chunk with a known page
+function buildSources(chunks): ChunkSource[] {
+  return chunks
+    .filter(chunk => chunk.page_number)
+    .map(chunk => ({
+      page_number: chunk.page_number,
+      chunk_id: chunk.page_id && chunk.id !== chunk.page_id ? chunk.id : null,
+      similarity: typeof chunk.similarity === 'number' ? Math.round(chunk.similarity * 1000) / 1000 : null,
+      snippet: chunk.content.length > SOURCE_SNIPPET_CHARS ?
+        `${chunk.content.slice(0, SOURCE_SNIPPET_CHARS).trim()}...` :
+        chunk.content
+    }));
+}
+
+// Function to generate an embedding with the configured provider, or another one for queries
+async function generateEmbedding(text: string, provider: LLMProvider = llm) {
+  try {
+    const embedding = await provider.embed(text);
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Google AI API error: ${response.status} - ${errorText}`);
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+      console.error(`${provider.embeddingModel} returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
       return null;
     }
     
-    const data = await response.json();
-    return data.embedding.values;
+    return embedding;
   } catch (error) {
     console.error(`Error generating embedding: ${error.message}`);
     return null;
   }
 }
 
-// Function to call Gemini API for chat completions
-async function callGeminiAPI(prompt: string, context: string, systemPrompt = "") {
+// Embedding requests are sent in batches, a few at a time; the provider retries rate-limited batches
+const EMBEDDING_BATCH_SIZE = 50;
+const EMBEDDING_CONCURRENCY = 3;
+
+// Function to embed many texts at once. The result lines up with the input; a text whose
+// batch failed gets null, so its chunk can be stored and embedded later by the backfill.
+async function generateEmbeddings(texts: string[]): Promise<(number[] | null)[]> {
+  const embeddings: (number[] | null)[] = new Array(texts.length).fill(null);
+  const batchStarts = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    batchStarts.push(start);
+  }
+  
+  const embedBatch = async (start: number) => {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    try {
+      const batchEmbeddings = await llm.embedBatch(batch);
+      batchEmbeddings.forEach((embedding, offset) => {
+        if (embedding && embedding.length === EMBEDDING_DIMENSIONS) {
+          embeddings[start + offset] = embedding;
+        } else {
+          console.error(`${llm.embeddingModel} returned an embedding of the wrong size for text ${start + offset}`);
+        }
+      });
+    } catch (error) {
+      console.error(`Error embedding texts ${start}-${start + batch.length - 1}: ${error.message}`);
+    }
+  };
+  
+  // Each worker takes the next batch until none are left
+  let nextBatch = 0;
+  const workers = Array.from({ length: Math.min(EMBEDDING_CONCURRENCY, batchStarts.length) }, async () => {
+    while (nextBatch < batchStarts.length) {
+      await embedBatch(batchStarts[nextBatch++]);
+    }
+  });
+  await Promise.all(workers);
+  
+  return embeddings;
+}
+
+// Function to relay a streamed chat answer to the client as server-sent events.
+// Events are `token` (a piece of text), then `done` (with any metadata) or `error`.
+function createChatStreamResponse(
+  prompt: string,
+  context: string,
+  systemPrompt: string,
+  metadata: Record<string, unknown>,
+  history: ConversationTurn[] = []
+) {
+  const encoder = new TextEncoder();
+  const upstreamController = new AbortController();
+  
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+      
+      try {
+        for await (const text of llm.stream(prompt, context, systemPrompt, { history, signal: upstreamController.signal })) {
+          send({ type: 'token', text });
+        }
+        send({ type: 'done', ...metadata });
+      } catch (error) {
+        if (upstreamController.signal.aborted) {
+          console.log("Client stopped the stream, generation aborted");
+          return;
+        }
+        console.error(`Error streaming ${llm.name} response: ${error.message}`);
+        send({ type: 'error', error: error.message || "Streaming failed" });
+      }
+      
+      controller.close();
+    },
+    cancel() {
+      // The client disconnected or pressed Stop
+      upstreamController.abort();
+    }
+  });
+  
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      ...corsHeaders
+    }
+  });
+}
+
+// Token budget for prior turns sent with a chat question; older turns are summarized
+const HISTORY_TOKEN_BUDGET = 2000;
+const MAX_HISTORY_MESSAGES = 50;
+
+// Rough token estimate (about four characters per token for English text)
+function estimateTokens(text: string) {
+  return Math.ceil((text || '').length / 4);
+}
+
+// Function to summarize older conversation turns, folding in any previous summary
+async function summarizeConversation(previousSummary: string | null, turns: ConversationTurn[]) {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'Reader' : 'Assistant'}: ${turn.text}`)
+    .join('\n\n');
+  
+  const prompt = `${previousSummary ? `Summary of the conversation so far:\n${previousSummary}\n\n` : ''}` +
+    `Further conversation between a reader and their reading assistant:\n${transcript}\n\n` +
+    `Write a concise summary (at most 150 words) of the whole conversation. ` +
+    `Keep the topics discussed, the reader's questions and any conclusions, so follow-up questions can be understood.`;
+  
+  return await llm.complete(prompt, "");
+}
+
+// Function to load recent turns of a conversation, summarizing whatever doesn't fit the token budget
+async function loadConversationHistory(conversationId: string): Promise<ConversationTurn[]> {
   try {
-    console.log("Calling Google Gemini API...");
+    const { data: messages, error } = await supabase
+      .from('ai_messages')
+      .select('role, content, created_at')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_HISTORY_MESSAGES);
     
-    const url = "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=" + googleApiKey;
+    if (error) {
+      console.error(`Error loading conversation history: ${error.message}`);
+      return [];
+    }
     
-    const messages = [];
+    if (!messages || messages.length === 0) {
+      return [];
+    }
     
-    // Add system prompt if provided
-    if (systemPrompt) {
-      messages.push({
-        role: "user",
-        parts: [{ text: systemPrompt }]
-      });
-      
-      messages.push({
-        role: "model",
-        parts: [{ text: "I understand and will respond accordingly." }]
-      });
+    // Keep the newest turns that fit the budget
+    const recent = [];
+    let usedTokens = 0;
+    for (const message of messages) {
+      const tokens = estimateTokens(message.content);
+      if (usedTokens + tokens > HISTORY_TOKEN_BUDGET) break;
+      recent.unshift(message);
+      usedTokens += tokens;
     }
     
-    // Add context and user question
-    const contextAndPrompt = context ? 
-      `CONTEXT:\n${context}\n\nQUESTION:\n${prompt}\n\nAnswer based on the provided context only. If the question cannot be answered based on the context, say so.` : 
-      prompt;
-      
-    messages.push({
-      role: "user",
-      parts: [{ text: contextAndPrompt }]
+    const toTurn = (message): ConversationTurn => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      text: message.content
     });
     
-    const payload = {
-      contents: messages,
-      generationConfig: {
-        temperature: 0.2,
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 1024
+    const history = recent.map(toTurn);
+    const older = messages.slice(recent.length).reverse();
+    if (older.length === 0) {
+      return history;
+    }
+    
+    // Reuse the stored summary, extending it only with turns it doesn't cover yet
+    const { data: conversation } = await supabase
+      .from('ai_conversations')
+      .select('summary, summarized_until')
+      .eq('id', conversationId)
+      .maybeSingle();
+    
+    let summary = conversation?.summary || null;
+    const summarizedUntil = conversation?.summarized_until ? new Date(conversation.summarized_until) : null;
+    const unsummarized = older.filter(message => !summarizedUntil || new Date(message.created_at) > summarizedUntil);
+    
+    if (unsummarized.length > 0) {
+      try {
+        summary = await summarizeConversation(summary, unsummarized.map(toTurn));
+        
+        const { error: updateError } = await supabase
+          .from('ai_conversations')
+          .update({
+            summary,
+            summarized_until: unsummarized[unsummarized.length - 1].created_at
+          })
+          .eq('id', conversationId);
+        
+        if (updateError) {
+          console.error(`Error saving conversation summary: ${updateError.message}`);
+        }
+      } catch (error) {
+        console.error(`Error summarizing conversation: ${error.message}`);
       }
-    };
+    }
     
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload)
-    });
+    if (!summary) {
+      return history;
+    }
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Google AI API error: ${response.status} - ${errorText}`);
-      throw new Error(`Google AI API error: ${response.status}`);
+    return [
+      { role: 'user', text: `Summary of our earlier conversation:\n${summary}`, isSummary: true },
+      { role: 'model', text: "Thanks, I'll keep that in mind.", isSummary: true },
+      ...history
+    ];
+  } catch (error) {
+    console.error(`Error in loadConversationHistory: ${error.message}`);
+    return [];
+  }
+}
+
+// Function to load the text of the pages around a given page, labelled by page number
+async function getSurroundingPageContent(bookId: string, pageNumber: number, radius = 1, maxChars = 6000) {
+  try {
+    const { data, error } = await supabase
+      .from('book_pages')
+      .select('page_number, content')
+      .eq('book_id', bookId)
+      .gte('page_number', Math.max(1, pageNumber - radius))
+      .lte('page_number', pageNumber + radius)
+      .order('page_number', { ascending: true });
+
+    if (error) {
+      console.error(`Error loading surrounding pages: ${error.message}`);
+      return '';
+    }
+
+    if (!data || data.length === 0) {
+      console.log(`No stored pages found around page ${pageNumber} of book ${bookId}`);
+      return '';
     }
+
+    // Give the current page the largest share of the character budget
+    const otherPages = data.filter(page => page.page_number !== pageNumber).length;
+    const currentPageBudget = otherPages > 0 ? Math.floor(maxChars / 2) : maxChars;
+    const otherPageBudget = otherPages > 0 ? Math.floor((maxChars - currentPageBudget) / otherPages) : 0;
+
+    return data
+      .filter(page => page.content && page.content.trim().length > 0)
+      .map(page => {
+        const budget = page.page_number === pageNumber ? currentPageBudget : otherPageBudget;
+        const content = page.content.length > budget ? `${page.content.slice(0, budget)}...` : page.content;
+        return `[Page ${page.page_number}]\n${content}`;
+      })
+      .join('\n\n');
+  } catch (error) {
+    console.error(`Error in getSurroundingPageContent: ${error.message}`);
+    return '';
+  }
+}
+
+// Function to explain a passage the reader selected, using the surrounding pages as context
+async function explainSelection(selectedText: string, bookId: string, pageNumber?: number, fallbackContent = "") {
+  let surroundingText = '';
+  if (pageNumber) {
+    surroundingText = await getSurroundingPageContent(bookId, pageNumber);
+  }
+  
+  // Fall back to whatever text the client sent if the book hasn't been processed yet
+  if (!surroundingText && fallbackContent && fallbackContent !== selectedText) {
+    surroundingText = fallbackContent;
+  }
+  
+  const pageLabel = pageNumber ? ` (the selection is on page ${pageNumber})` : '';
+  const prompt = surroundingText ?
+    `Surrounding text from the book${pageLabel}, for reference only:\n"""\n${surroundingText}\n"""\n${explainSelectionUserPromptTemplate(selectedText)}` :
+    explainSelectionUserPromptTemplate(selectedText);
+  
+  const explanation = await llm.complete(prompt, "", explainSelectionSystemPrompt);
+  return { explanation, contextUsed: Boolean(surroundingText) };
+}
+
+// Function to find the page an outline entry points at
+async function resolveOutlinePage(pdf, dest) {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicitDest) || explicitDest[0] === undefined || explicitDest[0] === null) {
+      return null;
+    }
+    
+    // Destinations normally reference a page object, but some give the page index directly
+    const target = explicitDest[0];
+    const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return pageIndex + 1;
+  } catch (error) {
+    console.error(`Error resolving outline destination: ${error.message}`);
+    return null;
+  }
+}
+
+// Function to read the PDF outline as a flat list of sections in reading order
+async function readOutline(pdf) {
+  try {
+    const outline = await pdf.getOutline();
+    const sections = [];
     
-    const data = await response.json();
-    return data.candidates[0].content.parts[0].text;
+    const visit = async (items, level) => {
+      for (const item of items || []) {
+        const startPage = await resolveOutlinePage(pdf, item.dest);
+        const title = (item.title || '').trim();
+        if (startPage && title) {
+          sections.push({ title, level, start_page: startPage });
+        }
+        await visit(item.items, level + 1);
+      }
+    };
+    
+    await visit(outline, 1);
+    return sections;
   } catch (error) {
-    console.error(`Error calling Gemini API: ${error.message}`);
-    throw error;
+    console.error(`Error reading PDF outline: ${error.message}`);
+    return [];
   }
 }
 
-// Function to generate a quiz based on content
-async function generateQuiz(content: string, relevantChunks: any[]) {
-  const context = relevantChunks.map(chunk => chunk.content).join('\n\n');
+// Text summarized per map step, partial summaries combined per reduce step, and model calls run at once
+const SUMMARY_MAP_TOKEN_BUDGET = 6000;
+const SUMMARY_REDUCE_GROUP_SIZE = 8;
+const SUMMARY_CONCURRENCY = 3;
+
+// Function to run a task over each item with a limited number running at once, keeping the results in order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// PostgREST returns at most this many rows per request, so longer reads go a range at a time
+const MAX_ROWS_PER_REQUEST = 1000;
+
+// Function to read the pages of a range in order, a request's worth of rows at a time
+async function loadPageRange(bookId: string, range: PageRange) {
+  const pages = [];
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from('book_pages')
+      .select('page_number, content')
+      .eq('book_id', bookId)
+      .gte('page_number', range.start)
+      .lte('page_number', range.end)
+      .order('page_number', { ascending: true })
+      .range(from, from + MAX_ROWS_PER_REQUEST - 1);
+      
+    if (error) throw error;
+    pages.push(...(data || []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return pages;
+  }
+}
+
+// Function to split pages into consecutive batches that each fit one map step
+function batchPagesForSummary(pages) {
+  const batches = [];
+  let batch = [];
+  let batchTokens = 0;
   
-  const systemPrompt = `You are a helpful teaching assistant that creates engaging quiz questions. 
-  Generate 3 questions based on the provided content with multiple-choice answers. 
-  Format your response as follows:
+  for (const page of pages) {
+    const tokens = estimateTokens(page.content);
+    if (batch.length > 0 && batchTokens + tokens > SUMMARY_MAP_TOKEN_BUDGET) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(page);
+    batchTokens += tokens;
+  }
+  if (batch.length > 0) batches.push(batch);
   
-  Q1: [Question]
-  A) [Option A]
-  B) [Option B]
-  C) [Option C]
-  D) [Option D]
+  return batches;
+}
+
+// Function to summarize a range of pages with map-reduce: each batch of pages is summarized,
+// then the partial summaries are combined a group at a time until one is left
+async function summarizePageRange(bookId: string, range: PageRange, title: string) {
+  const pages = await loadPageRange(bookId, range);
   
-  Q2: [Question]
-  ...
+  const textPages = pages.filter(page => page.content && page.content.trim());
+  if (textPages.length === 0) {
+    throw new Error(`No text found for pages ${range.start}-${range.end}. Process the book first.`);
+  }
   
-  ANSWERS:
-  Q1: [Correct option letter]
-  Q2: [Correct option letter]
-  ...
+  const batches = batchPagesForSummary(textPages);
+  console.log(`Summarizing ${textPages.length} pages of book ${bookId} in ${batches.length} batches`);
   
-  EXPLANATIONS:
-  Q1: [Explanation of correct answer]
-  Q2: [Explanation of correct answer]
-  ...`;
+  let summaries = await mapWithConcurrency(batches, SUMMARY_CONCURRENCY, batch => {
+    const pagesText = batch.map(page => `[p. ${page.page_number}]\n${page.content}`).join('\n\n');
+    return llm.complete(summarizeMapUserPromptTemplate(pagesText, title), "", summarizeMapSystemPrompt);
+  });
   
-  const prompt = "Create a quiz based on the following content.";
+  while (summaries.length > 1) {
+    const groups = [];
+    for (let i = 0; i < summaries.length; i += SUMMARY_REDUCE_GROUP_SIZE) {
+      groups.push(summaries.slice(i, i + SUMMARY_REDUCE_GROUP_SIZE));
+    }
+    
+    summaries = await mapWithConcurrency(groups, SUMMARY_CONCURRENCY, group =>
+      llm.complete(summarizeReduceUserPromptTemplate(group, title), "", summarizeReduceSystemPrompt)
+    );
+  }
   
-  return await callGeminiAPI(prompt, context, systemPrompt);
+  return summaries[0];
+}
+
+// A pending summary not finished in this long is taken to have lost its worker and is started again
+const SUMMARY_STALE_MS = 10 * 60 * 1000;
+
+// Function to write a pending summary, marking it ready with its text or failed with the error
+async function writeSummary(summaryId: string, bookId: string, range: PageRange, title: string) {
+  try {
+    const summaryText = await summarizePageRange(bookId, range, title);
+    
+    const { error } = await supabase
+      .from('book_summaries')
+      .update({ summary: summaryText, status: 'ready', error: null, updated_at: new Date().toISOString() })
+      .eq('id', summaryId);
+      
+    if (error) throw error;
+    console.log(`Summary ${summaryId} of book ${bookId} is ready`);
+  } catch (error) {
+    console.error(`Error writing summary ${summaryId}: ${error.message}`);
+    await supabase
+      .from('book_summaries')
+      .update({ status: 'failed', error: error.message || "Error generating summary" })
+      .eq('id', summaryId);
+  }
+}
+
+// Language of scanned books, as a Tesseract language code (e.g. "eng", "deu", "eng+fra")
+const OCR_LANGUAGE = Deno.env.get("OCR_LANGUAGE") || "eng";
+
+// Function to OCR a page with no text layer. Returns null when the page has no readable
+// image or OCR fails, so the page is stored with whatever text it had.
+async function readScannedPage(ocrReader, page, pageNum) {
+  try {
+    const ocr = await ocrReader.readPage(page, pdfjs.OPS);
+    if (ocr?.text) {
+      console.log(`OCR read page ${pageNum} with ${Math.round(ocr.confidence)}% confidence`);
+      return ocr;
+    }
+  } catch (error) {
+    console.error(`Error running OCR on page ${pageNum}: ${error.message}`);
+  }
+  return null;
 }
 
 // New function to extract text from PDF
-async function extractPdfText(storage, filePath) {
+async function extractPdfText(storage, filePath, fromPage = 1, toPage = Infinity) {
   try {
-    console.log(`Extracting text from PDF: ${filePath}`);
+    console.log(`Extracting text from PDF: ${filePath} (pages ${fromPage}-${toPage})`);
     
     // Download PDF from storage
     const { data: fileData, error: fileError } = await storage
@@ -303,37 +786,58 @@ async function extractPdfText(storage, filePath) {
     const arrayBuffer = await fileData.arrayBuffer();
     
     // Load the PDF document
-    const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+    // Images are decoded to raw pixel data rather than bitmaps so scanned pages can be OCRed
+    const pdf = await pdfjs.getDocument({ data: arrayBuffer, isOffscreenCanvasSupported: false }).promise;
     console.log(`PDF loaded. Total pages: ${pdf.numPages}`);
     
     const pagesData = [];
+    const ocrReader = createOcrReader(OCR_LANGUAGE);
     
-    // Extract text from each page
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    // Extract text from each page in the requested range
+    const lastPage = Math.min(toPage, pdf.numPages);
+    for (let pageNum = fromPage; pageNum <= lastPage; pageNum++) {
       try {
         console.log(`Extracting text from page ${pageNum}/${pdf.numPages}`);
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
-        const pageText = textContent.items.map(item => item.str).join(' ');
+        // Rebuild lines, columns and paragraphs from item positions
+        const layout = layoutPage(textContent.items);
+        
+        const ocr = needsOcr(layout.text) ? await readScannedPage(ocrReader, page, pageNum) : null;
+        if (ocr) {
+          const blocks = textToBlocks(ocr.text);
+          pagesData.push({
+            page_number: pageNum,
+            content: blocks.map(block => block.text).join('\n\n'),
+            blocks,
+            ocr: true,
+            ocr_confidence: ocr.confidence
+          });
+          continue;
+        }
         
         pagesData.push({
           page_number: pageNum,
-          content: pageText
+          content: layout.text,
+          blocks: layout.blocks,
+          ocr: false,
+          ocr_confidence: null
         });
-        
-        // Update processing status for better user feedback
-        if (pageNum % 10 === 0 || pageNum === pdf.numPages) {
-          await updateBookProcessingStatus(`Processing ${pageNum} of ${pdf.numPages} pages`, bookId);
-        }
       } catch (pageError) {
         console.error(`Error extracting text from page ${pageNum}: ${pageError.message}`);
         // Continue with next page even if this one fails
       }
     }
     
+    await ocrReader.terminate();
+    
+    // The outline covers the whole book, so it is only read with the first page range
+    const outline = fromPage === 1 ? await readOutline(pdf) : null;
+    
     return {
       total_pages: pdf.numPages,
-      pages: pagesData
+      pages: pagesData,
+      outline
     };
   } catch (error) {
     console.error(`Error in extractPdfText: ${error.message}`);
@@ -341,6 +845,42 @@ async function extractPdfText(storage, filePath) {
   }
 }
 
+// Function to extract text from an EPUB. Each spine document is one page.
+async function extractEpubText(storage, filePath, fromPage = 1, toPage = Infinity) {
+  try {
+    console.log(`Extracting text from EPUB: ${filePath} (sections ${fromPage}-${toPage})`);
+    
+    const { data: fileData, error: fileError } = await storage
+      .from('books')
+      .download(filePath);
+      
+    if (fileError) {
+      console.error(`Error downloading EPUB: ${fileError.message}`);
+      throw fileError;
+    }
+    
+    const epub = await readEpub(await fileData.arrayBuffer(), fromPage, toPage);
+    console.log(`EPUB loaded. Total sections: ${epub.total_pages}`);
+    
+    return {
+      total_pages: epub.total_pages,
+      pages: epub.pages.map(page => ({ ...page, ocr: false, ocr_confidence: null })),
+      outline: epub.outline
+    };
+  } catch (error) {
+    console.error(`Error in extractEpubText: ${error.message}`);
+    throw new Error(`EPUB text extraction failed: ${error.message}`);
+  }
+}
+
+// Function to extract a range of pages from a book in either format, picked by the book's
+// file_type. Books uploaded before EPUB support have no file_type and are all PDFs.
+function extractBookText(storage, filePath, fileType: string | null, fromPage = 1, toPage = Infinity) {
+  return fileType?.toLowerCase() === EPUB_MIME_TYPE ?
+    extractEpubText(storage, filePath, fromPage, toPage) :
+    extractPdfText(storage, filePath, fromPage, toPage);
+}
+
 // Helper function to update processing status
 async function updateBookProcessingStatus(status, bookId) {
   try {
@@ -362,187 +902,630 @@ async function updateBookProcessingStatus(status, bookId) {
   }
 }
 
-// Function to chunk text into smaller pieces
-function chunkText(text, maxChunkSize = 1000) {
-  if (!text || text.length <= maxChunkSize) {
-    return [text];
-  }
+// Function to hash page text so unchanged pages can be skipped on re-processing
+async function hashContent(content: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Function to work out whether a page needs storing. Returns null for a page whose text is
+// unchanged and already chunked, otherwise the page's hash and chunks.
+async function planPageUpdate(bookId, page) {
+  const contentHash = await hashContent(page.content);
+  const chunks = (page.blocks ? chunkBlocks(page.blocks) : chunkText(page.content))
+    .map((content, chunkIndex) => ({ content, chunkIndex }))
+    .filter(chunk => chunk.content && chunk.content.trim().length >= 10); // Skip empty or very small chunks
+  
+  const { data: existingPage, error: existingError } = await supabase
+    .from('book_pages')
+    .select('id, content_hash')
+    .eq('book_id', bookId)
+    .eq('page_number', page.page_number)
+    .maybeSingle();
+    
+  if (existingError) {
+    throw new Error(`Error looking up page ${page.page_number}: ${existingError.message}`);
+  }
+  
+  if (existingPage && existingPage.content_hash === contentHash) {
+    const { count } = await supabase
+      .from('book_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('page_id', existingPage.id);
+      
+    if (count === chunks.length) {
+      return null;
+    }
+  }
+  
+  return { page, contentHash, chunks };
+}
+
+// Function to store a page and replace its chunks. Pages are upserted by page number, so
+// running it again is safe. Chunks without an embedding are kept for the backfill.
+async function storePage(bookId, userId, plan, embeddings: (number[] | null)[]) {
+  const { page, contentHash, chunks } = plan;
+  
+  const { data: pageData, error: pageError } = await supabase
+    .from('book_pages')
+    .upsert({
+      book_id: bookId,
+      user_id: userId,
+      page_number: page.page_number,
+      content: page.content,
+      content_hash: contentHash,
+      ocr: page.ocr,
+      ocr_confidence: page.ocr_confidence
+    }, { onConflict: 'book_id,page_number' })
+    .select('id')
+    .single();
+    
+  if (pageError) {
+    console.error(`Error storing page ${page.page_number}: ${pageError.message}`);
+    return false;
+  }
+  
+  const pageId = pageData.id;
+  
+  // Replace the page's chunks
+  const { error: deleteError } = await supabase
+    .from('book_chunks')
+    .delete()
+    .eq('page_id', pageId);
+    
+  if (deleteError) {
+    console.error(`Error clearing chunks for page ${page.page_number}: ${deleteError.message}`);
+    return false;
+  }
+  
+  if (chunks.length > 0) {
+    const { error: chunkError } = await supabase
+      .from('book_chunks')
+      .insert(chunks.map((chunk, i) => ({
+        book_id: bookId,
+        page_id: pageId,
+        chunk_index: chunk.chunkIndex,
+        content: chunk.content,
+        embedding: embeddings[i],
+        embedding_model: embeddings[i] ? llm.embeddingModel : null,
+        embedding_dimensions: embeddings[i] ? embeddings[i].length : null
+      })));
+      
+    if (chunkError) {
+      console.error(`Error inserting chunks for page ${page.page_number}: ${chunkError.message}`);
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+// Function to store the text the reader OCRed in the browser for a scanned page, chunked and
+// embedded as the worker stores its own OCR. Pages that already have readable text are kept.
+async function storeReaderOcrPage(bookId, userId, pageNumber: number, text: string, confidence: number) {
+  const { data: existingPage, error: existingError } = await supabase
+    .from('book_pages')
+    .select('content')
+    .eq('book_id', bookId)
+    .eq('page_number', pageNumber)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Error looking up page ${pageNumber}: ${existingError.message}`);
+  }
+
+  if (existingPage?.content && !needsOcr(existingPage.content)) {
+    return false;
+  }
+
+  const blocks = textToBlocks(text);
+  const plan = await planPageUpdate(bookId, {
+    page_number: pageNumber,
+    content: blocks.map(block => block.text).join('\n\n'),
+    blocks,
+    ocr: true,
+    ocr_confidence: confidence
+  });
+  if (!plan) return false;
+
+  const embeddings = await generateEmbeddings(plan.chunks.map(chunk => chunk.content));
+  return storePage(bookId, userId, plan, embeddings);
+}
+
+// Lets background work outlive the response (Supabase edge runtime only)
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Base delay before a failed page range is retried; doubles with each attempt
+const JOB_RETRY_BASE_DELAY_MS = 5000;
+
+// Function to queue a book for processing, reusing the book's queued or running job if it has one
+async function enqueueProcessingJob(bookId, userId, filePath, fromPage = 1, jobType: 'process' | 'reembed' = 'process') {
+  const findActiveJob = () => supabase
+    .from('processing_jobs')
+    .select('id, status, job_type')
+    .eq('book_id', bookId)
+    .in('status', ['queued', 'running'])
+    .maybeSingle();
+  
+  const { data: activeJob, error: activeError } = await findActiveJob();
+  if (activeError) throw activeError;
+  if (activeJob) {
+    console.log(`Book ${bookId} already has ${activeJob.status} job ${activeJob.id}`);
+    return activeJob;
+  }
+  
+  const { data: job, error: jobError } = await supabase
+    .from('processing_jobs')
+    .insert({
+      book_id: bookId,
+      user_id: userId,
+      file_path: filePath,
+      next_page: fromPage,
+      job_type: jobType,
+      embedding_model: llm.embeddingModel
+    })
+    .select('id, status, job_type')
+    .single();
+    
+  if (jobError) {
+    // Another request queued the book at the same moment
+    if (jobError.code === '23505') {
+      const { data: concurrentJob } = await findActiveJob();
+      if (concurrentJob) return concurrentJob;
+    }
+    throw jobError;
+  }
+  
+  // Re-embedding leaves the book searchable, so only processing changes its status
+  if (jobType === 'process') {
+    await supabase
+      .from('books')
+      .update({ 
+        is_processed: false,
+        processing_status: 'Queued for processing'
+      })
+      .eq('id', bookId);
+  }
+  
+  console.log(`Queued ${jobType} job ${job.id} for book ${bookId}${jobType === 'process' ? ` from page ${fromPage}` : ''}`);
+  return job;
+}
+
+// Function to call this function again in a new invocation, so long-running work gets a
+// full edge-function time limit per step
+function invokeSelf(body: Record<string, unknown>) {
+  const request = fetch(`${supabaseUrl}/functions/v1/ai-assistant`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseServiceKey}`
+    },
+    body: JSON.stringify(body)
+  }).catch(error => console.error(`Error invoking ${body.endpoint}: ${error.message}`));
+  
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(request);
+  }
+}
+
+// Function to start a worker run for a job (or any ready job)
+function triggerWorker(jobId?: string) {
+  invokeSelf({ endpoint: 'process-jobs', job_id: jobId });
+}
+
+// Headings at least this much larger than body text are taken as chapters, smaller ones as sections
+const CHAPTER_HEADING_SCALE = 1.5;
+const MAX_HEADING_TITLE_CHARS = 120;
+
+// Function to list the headings found on laid-out pages as sections
+function detectHeadingSections(pages) {
+  return pages.flatMap(page => (page.blocks || [])
+    .filter(block => block.type === 'heading' && block.text.length <= MAX_HEADING_TITLE_CHARS)
+    .map((block, position) => ({
+      title: block.text,
+      level: block.fontScale >= CHAPTER_HEADING_SCALE ? 1 : 2,
+      start_page: page.page_number,
+      position,
+      source: 'headings'
+    })));
+}
+
+// Function to store a book's table of contents. The PDF outline (or EPUB table of contents) is
+// read with the first page range and replaces every section; books without one get the headings detected in each range.
+async function storeBookSections(job, bookData, fromPage, lastPage) {
+  let sections;
+  
+  if (bookData.outline) {
+    // First range: start over, so sections from an earlier version of the file don't linger
+    const { error } = await supabase.from('book_sections').delete().eq('book_id', job.book_id);
+    if (error) {
+      console.error(`Error clearing sections for book ${job.book_id}: ${error.message}`);
+      return;
+    }
+    
+    sections = bookData.outline.length > 0 ?
+      bookData.outline.map((section, position) => ({ ...section, position, source: 'outline' })) :
+      detectHeadingSections(bookData.pages);
+  } else {
+    const { count } = await supabase
+      .from('book_sections')
+      .select('id', { count: 'exact', head: true })
+      .eq('book_id', job.book_id)
+      .eq('source', 'outline');
+      
+    if (count) return;
+    
+    await supabase
+      .from('book_sections')
+      .delete()
+      .eq('book_id', job.book_id)
+      .eq('source', 'headings')
+      .gte('start_page', fromPage)
+      .lte('start_page', lastPage);
+      
+    sections = detectHeadingSections(bookData.pages);
+  }
+  
+  if (sections.length === 0) return;
+  
+  const { error } = await supabase
+    .from('book_sections')
+    .insert(sections.map(section => ({ ...section, book_id: job.book_id, user_id: job.user_id })));
+    
+  if (error) {
+    console.error(`Error storing sections for book ${job.book_id}: ${error.message}`);
+  }
+}
+
+// Function to extract and store the next page range of a job, returning where it got to
+async function processJobPages(job) {
+  const fromPage = job.next_page;
+  const toPage = fromPage + job.pages_per_run - 1;
+  
+  if (fromPage === 1) {
+    await updateBookProcessingStatus('Processing started', job.book_id);
+  }
+  
+  const { data: book, error: bookError } = await supabase
+    .from('books')
+    .select('file_type')
+    .eq('id', job.book_id)
+    .single();
+    
+  if (bookError) throw new Error(`Error loading book ${job.book_id}: ${bookError.message}`);
+  
+  const bookData = await extractBookText(supabase.storage, job.file_path, book.file_type, fromPage, toPage);
+  const lastPage = Math.min(toPage, bookData.total_pages);
+  
+  const plans = [];
+  for (const page of bookData.pages) {
+    const plan = await planPageUpdate(job.book_id, page);
+    if (plan) plans.push(plan);
+  }
+  
+  // Embed every changed page of the range together
+  const embeddings = await generateEmbeddings(plans.flatMap(plan => plan.chunks.map(chunk => chunk.content)));
+  
+  let stored = 0;
+  let missingEmbeddings = 0;
+  let offset = 0;
+  for (const plan of plans) {
+    const pageEmbeddings = embeddings.slice(offset, offset + plan.chunks.length);
+    offset += plan.chunks.length;
+    
+    if (await storePage(job.book_id, job.user_id, plan, pageEmbeddings)) {
+      stored++;
+      missingEmbeddings += pageEmbeddings.filter(embedding => !embedding).length;
+    }
+  }
+  
+  await storeBookSections(job, bookData, fromPage, lastPage);
+  
+  await updateBookProcessingStatus(`Processing ${lastPage} of ${bookData.total_pages} pages`, job.book_id);
+  console.log(`Job ${job.id}: pages ${fromPage}-${lastPage} of ${bookData.total_pages} - ${stored} stored, ${bookData.pages.length - plans.length} unchanged, ${plans.length - stored} failed, ${missingEmbeddings} chunks missing embeddings`);
+  
+  const totalPages = bookData.total_pages;
+  return {
+    isDone: lastPage >= totalPages,
+    progress: { next_page: lastPage + 1, total_pages: totalPages }
+  };
+}
+
+// Function to mark a processed book complete once its last page range is stored
+async function finishBookProcessing(job) {
+  const totalPages = job.total_pages;
+  
+  // Drop pages left over from an earlier, longer version of the file
+  await supabase
+    .from('book_pages')
+    .delete()
+    .eq('book_id', job.book_id)
+    .gt('page_number', totalPages);
+    
+  // Now every section is known, work out where each one ends
+  const { error: sectionsError } = await supabase.rpc('refresh_book_section_ranges', {
+    p_book_id: job.book_id,
+    p_total_pages: totalPages
+  });
+  
+  if (sectionsError) {
+    console.error(`Error updating section ranges for book ${job.book_id}: ${sectionsError.message}`);
+  }
+  
+  await supabase
+    .from('books')
+    .update({ 
+      total_pages: totalPages,
+      is_processed: true,
+      processing_status: 'Complete'
+    })
+    .eq('id', job.book_id);
+    
+  console.log(`Successfully processed book ${job.book_id} with ${totalPages} pages`);
+  
+  // Chunks whose embedding failed were stored without one; fill them in now
+  if (await countMissingEmbeddings(job.book_id) > 0) {
+    invokeSelf({ endpoint: 'backfill-embeddings', book_id: job.book_id });
+  }
+}
+
+// Chunks embedded per re-embed run
+const REEMBED_CHUNKS_PER_RUN = 200;
+
+// Function to stage embeddings from the job's model for the next set of chunks. Searches keep
+// using the old embeddings (through the previous provider) until every chunk is staged, then
+// all of them are switched at once.
+async function reembedJobChunks(job) {
+  const model = job.embedding_model;
+  if (model !== llm.embeddingModel) {
+    throw new Error(`Job is for ${model} but the function is configured for ${llm.embeddingModel}`);
+  }
+  
+  const { data: chunks, error } = await supabase
+    .from('book_chunks')
+    .select('id, book_id, page_id, chunk_index, content')
+    .eq('book_id', job.book_id)
+    .or(`embedding_model.is.null,embedding_model.neq."${model}"`)
+    .or(`next_embedding_model.is.null,next_embedding_model.neq."${model}"`)
+    .limit(REEMBED_CHUNKS_PER_RUN);
+    
+  if (error) throw error;
+  
+  if (!chunks || chunks.length === 0) {
+    const { data: switched, error: activateError } = await supabase.rpc('activate_reembedded_chunks', {
+      p_book_id: job.book_id,
+      p_embedding_model: model
+    });
+    
+    if (activateError) throw activateError;
+    
+    console.log(`Switched ${switched} chunks of book ${job.book_id} to ${model}`);
+    return { isDone: true, progress: {} };
+  }
+  
+  const embeddings = await generateEmbeddings(chunks.map(chunk => chunk.content));
+  const stagedChunks = chunks
+    .map((chunk, i) => ({ ...chunk, next_embedding: embeddings[i], next_embedding_model: model }))
+    .filter(chunk => chunk.next_embedding);
+    
+  if (stagedChunks.length === 0) {
+    throw new Error(`Could not embed any chunks with ${model}`);
+  }
+  
+  const { error: stageError } = await supabase
+    .from('book_chunks')
+    .upsert(stagedChunks, { onConflict: 'id' });
+    
+  if (stageError) throw stageError;
+  
+  console.log(`Job ${job.id}: staged ${stagedChunks.length} ${model} embeddings for book ${job.book_id}`);
+  return { isDone: false, progress: {} };
+}
+
+// Function to mark a job failed for good and report the error on the book
+async function failProcessingJob(job, message) {
+  console.error(`Processing job ${job.id} failed after ${job.attempts} attempts: ${message}`);
   
-  // Split by paragraphs first
-  const paragraphs = text.split(/\n+/).filter(Boolean);
-  const chunks = [];
-  let currentChunk = '';
+  await supabase
+    .from('processing_jobs')
+    .update({ status: 'failed', last_error: message, locked_at: null, updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+    
+  // A failed re-embed leaves the book's current embeddings in place
+  if (job.job_type === 'reembed') return;
   
-  for (const paragraph of paragraphs) {
-    // If paragraph itself exceeds max size, split it by sentences
-    if (paragraph.length > maxChunkSize) {
-      const sentences = paragraph.split(/(?<=[.!?])\s+/);
-      
-      for (const sentence of sentences) {
-        if ((currentChunk + sentence).length <= maxChunkSize) {
-          currentChunk += (currentChunk ? ' ' : '') + sentence;
-        } else {
-          if (currentChunk) {
-            chunks.push(currentChunk);
-            currentChunk = sentence;
-          } else {
-            // Handle very long sentences by hard splitting
-            if (sentence.length > maxChunkSize) {
-              const words = sentence.split(/\s+/);
-              let wordChunk = '';
-              
-              for (const word of words) {
-                if ((wordChunk + ' ' + word).length <= maxChunkSize) {
-                  wordChunk += (wordChunk ? ' ' : '') + word;
-                } else {
-                  if (wordChunk) {
-                    chunks.push(wordChunk);
-                    wordChunk = word;
-                  } else {
-                    // Extreme case: single word exceeds limit, split by characters
-                    for (let i = 0; i < word.length; i += maxChunkSize) {
-                      chunks.push(word.slice(i, i + maxChunkSize));
-                    }
-                    wordChunk = '';
-                  }
-                }
-              }
-              
-              if (wordChunk) {
-                chunks.push(wordChunk);
-              }
-            } else {
-              chunks.push(sentence);
-            }
-          }
-        }
-      }
-    } else if ((currentChunk + paragraph).length <= maxChunkSize) {
-      currentChunk += (currentChunk ? '\n' : '') + paragraph;
-    } else {
-      if (currentChunk) {
-        chunks.push(currentChunk);
-      }
-      currentChunk = paragraph;
-    }
+  await supabase
+    .from('books')
+    .update({ 
+      is_processed: false,
+      processing_status: `Error: ${message}`
+    })
+    .eq('id', job.book_id);
+}
+
+// Function to claim a job and run one step of it (a page range, or a set of chunks to
+// re-embed), then hand the rest to a new run
+async function runProcessingWorker(jobId?: string) {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_processing_job', { p_job_id: jobId || null });
+  
+  if (claimError) {
+    console.error(`Error claiming processing job: ${claimError.message}`);
+    return;
   }
   
-  if (currentChunk) {
-    chunks.push(currentChunk);
+  const job = claimed && claimed[0];
+  if (!job) {
+    console.log("No processing job ready to run");
+    return;
+  }
+  
+  if (job.attempts >= job.max_attempts) {
+    await failProcessingJob(job, job.last_error || "Too many failed attempts");
+    return;
   }
   
-  return chunks;
-}
-
-// Function to process a book's PDF and store text + embeddings
-async function processBook(bookId, userId, filePath) {
   try {
-    console.log(`Starting to process book: ${bookId} for user: ${userId} at path: ${filePath}`);
+    const { isDone, progress } = job.job_type === 'reembed' ?
+      await reembedJobChunks(job) :
+      await processJobPages(job);
     
-    // Update book status to "Processing"
-    await supabase
-      .from('books')
-      .update({ 
-        is_processed: false,
-        processing_status: 'Processing started'
+    const { error: updateError } = await supabase
+      .from('processing_jobs')
+      .update({
+        status: isDone ? 'done' : 'queued',
+        ...progress,
+        locked_at: null,
+        run_after: new Date().toISOString(),
+        updated_at: new Date().toISOString()
       })
-      .eq('id', bookId);
+      .eq('id', job.id);
+      
+    if (updateError) throw updateError;
     
-    // Step 1: Extract text from PDF
-    const pdfData = await extractPdfText(supabase.storage, filePath);
-    console.log(`Extracted ${pdfData.pages.length} pages from PDF`);
+    if (!isDone) {
+      triggerWorker(job.id);
+    } else if (job.job_type === 'process') {
+      await finishBookProcessing({ ...job, ...progress });
+    }
+  } catch (error) {
+    const attempts = job.attempts + 1;
+    const message = error.message || "Unknown error";
     
-    // Step 2: Store each page in the book_pages table
-    for (let i = 0; i < pdfData.pages.length; i++) {
-      const page = pdfData.pages[i];
-      
-      // Update status every 10 pages
-      if (i % 10 === 0 || i === pdfData.pages.length - 1) {
-        await supabase
-          .from('books')
-          .update({ processing_status: `Processing page ${i+1} of ${pdfData.pages.length}` })
-          .eq('id', bookId);
-      }
-      
-      // Insert page data
-      const { data: pageData, error: pageError } = await supabase
-        .from('book_pages')
-        .insert({
-          book_id: bookId,
-          user_id: userId,
-          page_number: page.page_number,
-          content: page.content
-        })
-        .select('id')
-        .single();
-        
-      if (pageError) {
-        console.error(`Error inserting page ${page.page_number}: ${pageError.message}`);
-        continue;
-      }
-      
-      // Step 3: Chunk the page text and create embeddings
-      const pageId = pageData.id;
-      const chunks = chunkText(page.content);
-      
-      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-        const chunk = chunks[chunkIndex];
-        if (!chunk || chunk.trim().length < 10) continue; // Skip empty or very small chunks
-        
-        try {
-          // Generate embedding for this chunk
-          const embedding = await generateEmbedding(chunk);
-          if (!embedding) {
-            console.error(`Failed to generate embedding for chunk ${chunkIndex} of page ${page.page_number}`);
-            continue;
-          }
-          
-          // Insert chunk with its embedding into book_chunks table
-          const { error: chunkError } = await supabase
-            .from('book_chunks')
-            .insert({
-              book_id: bookId,
-              page_id: pageId,
-              chunk_index: chunkIndex,
-              content: chunk,
-              embedding: embedding
-            });
-            
-          if (chunkError) {
-            console.error(`Error inserting chunk ${chunkIndex} for page ${page.page_number}: ${chunkError.message}`);
-          }
-        } catch (chunkError) {
-          console.error(`Error processing chunk ${chunkIndex} of page ${page.page_number}: ${chunkError.message}`);
-        }
-      }
+    if (attempts >= job.max_attempts) {
+      await failProcessingJob({ ...job, attempts }, message);
+      return;
     }
     
-    // Step 4: Update the book with total pages and processing status
-    await supabase
-      .from('books')
-      .update({ 
-        total_pages: pdfData.pages.length,
-        is_processed: true,
-        processing_status: 'Complete'
-      })
-      .eq('id', bookId);
-      
-    console.log(`Successfully processed book ${bookId} with ${pdfData.pages.length} pages`);
-    return { success: true, pages: pdfData.pages.length };
-  } catch (error) {
-    console.error(`Error in processBook: ${error.message}`);
+    // Put the range back in the queue after a backoff; the scheduled process-jobs run
+    // claims it again once run_after has passed
+    const delay = JOB_RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+    console.error(`Job ${job.id} attempt ${attempts} failed, retrying in ${delay}ms: ${message}`);
     
-    // Update book status to reflect the error
     await supabase
-      .from('books')
-      .update({ 
-        is_processed: false,
-        processing_status: `Error: ${error.message}`
+      .from('processing_jobs')
+      .update({
+        status: 'queued',
+        attempts,
+        last_error: message,
+        locked_at: null,
+        run_after: new Date(Date.now() + delay).toISOString(),
+        updated_at: new Date().toISOString()
       })
-      .eq('id', bookId);
+      .eq('id', job.id);
+  }
+}
+
+// Chunks embedded per backfill run; runs repeat until nothing is missing or no progress is made
+const BACKFILL_CHUNK_LIMIT = 200;
+
+// Function to count a book's chunks that have no embedding yet
+async function countMissingEmbeddings(bookId: string) {
+  const { count, error } = await supabase
+    .from('book_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('book_id', bookId)
+    .is('embedding', null);
+    
+  if (error) {
+    console.error(`Error counting missing embeddings: ${error.message}`);
+    return 0;
+  }
+  
+  return count || 0;
+}
+
+// Function to embed chunks that were stored without an embedding
+async function backfillEmbeddings(bookId: string) {
+  const { data: chunks, error } = await supabase
+    .from('book_chunks')
+    .select('id, book_id, page_id, chunk_index, content')
+    .eq('book_id', bookId)
+    .is('embedding', null)
+    .limit(BACKFILL_CHUNK_LIMIT);
+    
+  if (error) {
+    console.error(`Error loading chunks to backfill: ${error.message}`);
+    return;
+  }
+  
+  if (!chunks || chunks.length === 0) {
+    return;
+  }
+  
+  const embeddings = await generateEmbeddings(chunks.map(chunk => chunk.content));
+  const filledChunks = chunks
+    .map((chunk, i) => ({
+      ...chunk,
+      embedding: embeddings[i],
+      embedding_model: llm.embeddingModel,
+      embedding_dimensions: EMBEDDING_DIMENSIONS
+    }))
+    .filter(chunk => chunk.embedding);
+    
+  if (filledChunks.length > 0) {
+    const { error: updateError } = await supabase
+      .from('book_chunks')
+      .upsert(filledChunks, { onConflict: 'id' });
       
-    return { success: false, error: error.message };
+    if (updateError) {
+      console.error(`Error saving backfilled embeddings: ${updateError.message}`);
+      return;
+    }
+  }
+  
+  const remaining = await countMissingEmbeddings(bookId);
+  console.log(`Backfilled ${filledChunks.length} embeddings for book ${bookId}, ${remaining} still missing`);
+  
+  // Keep going while there is progress; a provider that is still failing is left for a later backfill
+  if (remaining > 0 && filledChunks.length > 0) {
+    invokeSelf({ endpoint: 'backfill-embeddings', book_id: bookId });
+  }
+}
+
+// The bearer token a request was sent with, if any
+function bearerToken(req: Request): string {
+  return (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+}
+
+// Whether a request comes from this function itself or the scheduled worker, which both
+// send the service role key
+function isServiceRoleCall(req: Request): boolean {
+  return Boolean(supabaseServiceKey) && bearerToken(req) === supabaseServiceKey;
+}
+
+// Function to check that the caller may work on a book, returning the owner's id or null when
+// they may not. The function's own calls and the scheduled worker send the service role key;
+// anyone else must be signed in as the book's owner.
+async function authorizeBookAccess(req: Request, bookId: string): Promise<string | null> {
+  const { data: book, error } = await supabase
+    .from('books')
+    .select('user_id')
+    .eq('id', bookId)
+    .maybeSingle();
+    
+  if (error) throw error;
+  if (!book) return null;
+  
+  if (isServiceRoleCall(req)) return book.user_id;
+  
+  const token = bearerToken(req);
+  if (!token) return null;
+  
+  const { data: caller, error: authError } = await supabase.auth.getUser(token);
+  if (authError || caller?.user?.id !== book.user_id) {
+    console.log(`Refused access to book ${bookId} for ${caller?.user?.id || 'an unauthenticated caller'}`);
+    return null;
   }
+  
+  return book.user_id;
+}
+
+// Response for callers that may not work on the requested book
+function bookAccessDenied() {
+  return new Response(
+    JSON.stringify({ success: false, error: "You don't have access to this book" }),
+    { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } }
+  );
 }
 
 serve(async (req) => {
@@ -570,7 +1553,7 @@ serve(async (req) => {
     }
     
     // Check environment variables
-    console.log(`GOOGLE_API_KEY exists: ${Boolean(googleApiKey)}`);
+    console.log(`LLM provider: ${llm.name} (chat: ${llm.chatModel}, embeddings: ${llm.embeddingModel})`);
     console.log(`SUPABASE_URL exists: ${Boolean(supabaseUrl)}`);
     console.log(`SUPABASE_SERVICE_ROLE_KEY exists: ${Boolean(supabaseServiceKey)}`);
     
@@ -584,7 +1567,11 @@ serve(async (req) => {
     const conversationId = body.conversationId || false;
     const userQuestion = body.userQuestion || false;
     const bookContent = body.bookContent || false;
-    const searchScope = body.searchScope || 'book'; // 'page' or 'book'
+    const searchScope: SearchScope = ['page', 'chapter', 'range', 'book'].includes(body.searchScope) ? body.searchScope : 'book';
+    const pageRange = parsePageRange(body.pageRange); // Pages searched for 'chapter' and 'range' scopes
+    const selectedText = body.selectedText || false;
+    const stream = body.stream === true;
+    const numQuestions = Math.min(Math.max(parseInt(body.numQuestions) || 3, 1), 10);
     
     console.log("Extracted parameters:", {
       endpoint,
@@ -596,28 +1583,36 @@ serve(async (req) => {
       conversationId,
       userQuestion,
       bookContent,
-      searchScope
+      searchScope,
+      pageRange,
+      selectedText
     });
     
-    // Handle PDF text extraction endpoint
+    // Handle PDF text extraction endpoint: queue the book and let the worker process it
     if (endpoint === "extract-pdf-text") {
-      if (!bookId || !userId || !filePath) {
+      if (!bookId || !filePath) {
         throw new Error("Missing required parameters for PDF extraction");
       }
       
+      const ownerId = await authorizeBookAccess(req, bookId);
+      if (!ownerId) return bookAccessDenied();
+      
       try {
-        const result = await processBook(bookId, userId, filePath);
+        const fromPage = Math.max(parseInt(body.fromPage || body.from_page) || 1, 1);
+        const job = await enqueueProcessingJob(bookId, ownerId, filePath, fromPage);
+        triggerWorker(job.id);
+        
         return new Response(
-          JSON.stringify(result),
+          JSON.stringify({ success: true, job_id: job.id, status: job.status, job_type: job.job_type }),
           { 
-            status: 200, 
+            status: 202, 
             headers: { "Content-Type": "application/json", ...corsHeaders } 
           }
         );
       } catch (error) {
-        console.error("Error processing PDF:", error);
+        console.error("Error queueing PDF processing:", error);
         return new Response(
-          JSON.stringify({ success: false, error: error.message || "Error processing PDF" }),
+          JSON.stringify({ success: false, error: error.message || "Error queueing PDF processing" }),
           { 
             status: 500, 
             headers: { "Content-Type": "application/json", ...corsHeaders } 
@@ -626,6 +1621,119 @@ serve(async (req) => {
       }
     }
     
+    // Handle a worker run: process the next page range of a job (or any ready job).
+    // Can also be called on a schedule to pick up jobs whose worker stopped. Only this
+    // function and the schedule may start a run, as it works on any user's books.
+    if (endpoint === "process-jobs") {
+      if (!isServiceRoleCall(req)) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Unauthorized" }),
+          { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      
+      const work = runProcessingWorker(body.job_id);
+      if (typeof EdgeRuntime !== 'undefined') {
+        EdgeRuntime.waitUntil(work);
+      } else {
+        await work;
+      }
+      
+      return new Response(
+        JSON.stringify({ success: true }),
+        { 
+          status: 202, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
+    // Report the embedding model new embeddings use and the models queries can be embedded with,
+    // so the UI can flag books that need re-embedding
+    if (endpoint === "embedding-config") {
+      return new Response(
+        JSON.stringify({
+          embedding_model: llm.embeddingModel,
+          embedding_dimensions: EMBEDDING_DIMENSIONS,
+          query_embedding_models: [...queryEmbedders.keys()]
+        }),
+        { 
+          status: 200, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
+    // Handle re-embedding: queue a job that moves a book's chunks to the configured embedding model
+    if (endpoint === "reembed") {
+      if (!bookId || !filePath) {
+        throw new Error("Missing required parameters for re-embedding");
+      }
+      
+      const ownerId = await authorizeBookAccess(req, bookId);
+      if (!ownerId) return bookAccessDenied();
+      
+      const job = await enqueueProcessingJob(bookId, ownerId, filePath, 1, 'reembed');
+      triggerWorker(job.id);
+      
+      return new Response(
+        JSON.stringify({ success: true, job_id: job.id, status: job.status, job_type: job.job_type }),
+        { 
+          status: 202, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
+    // Handle embedding backfill: embed chunks of a book that were stored without one
+    if (endpoint === "backfill-embeddings") {
+      if (!bookId) {
+        throw new Error("Missing required parameter: bookId");
+      }
+      
+      if (!await authorizeBookAccess(req, bookId)) return bookAccessDenied();
+      
+      const missing = await countMissingEmbeddings(bookId);
+      if (missing > 0) {
+        const work = backfillEmbeddings(bookId);
+        if (typeof EdgeRuntime !== 'undefined') {
+          EdgeRuntime.waitUntil(work);
+        } else {
+          await work;
+        }
+      }
+      
+      return new Response(
+        JSON.stringify({ success: true, missing_embeddings: missing }),
+        { 
+          status: 202, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
+    // Handle OCR text from the reader: store a scanned page the browser read with Tesseract
+    if (endpoint === "store-page-ocr") {
+      const text = typeof body.text === 'string' ? body.text.trim() : '';
+      const confidence = Number(body.confidence);
+      if (!bookId || !Number.isInteger(pageNumber) || pageNumber < 1 || !text || !Number.isFinite(confidence)) {
+        throw new Error("Missing required parameters for storing page OCR");
+      }
+
+      const ownerId = await authorizeBookAccess(req, bookId);
+      if (!ownerId) return bookAccessDenied();
+
+      const stored = await storeReaderOcrPage(bookId, ownerId, pageNumber, text, confidence);
+
+      return new Response(
+        JSON.stringify({ success: true, stored }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders }
+        }
+      );
+    }
+
     // Handle chat/quiz modes
     if (mode === 'chat' || mode === 'quiz') {
       // Ensure we have all required parameters
@@ -637,29 +1745,70 @@ serve(async (req) => {
         throw new Error("Missing required parameter for chat mode: userQuestion");
       }
 
+      // Include earlier turns so follow-up questions make sense
+      let history: ConversationTurn[] = [];
+      if (mode === 'chat' && conversationId) {
+        history = await loadConversationHistory(conversationId);
+        console.log(`Loaded ${history.length} prior turns for conversation ${conversationId}`);
+      }
+      
       // Find relevant chunks for the query
       let relevantChunks: any[] = [];
       let contextUsed = false;
       
       if (mode === 'chat') {
-        relevantChunks = await findRelevantChunks(userQuestion, bookId, pageNumber, searchScope as 'page' | 'book');
+        // Search with the previous question too, so "explain that more simply" finds the same passages
+        const previousQuestion = [...history].reverse().find(turn => turn.role === 'user' && !turn.isSummary);
+        const retrievalQuery = previousQuestion ? `${previousQuestion.text}\n${userQuestion}` : userQuestion;
+        relevantChunks = await findRelevantChunks(retrievalQuery, bookId, pageNumber, searchScope, pageRange);
       } else if (mode === 'quiz') {
         // For quiz mode, get chunks from the current page or nearby
         if (pageNumber) {
-          relevantChunks = await findRelevantChunks("quiz generation", bookId, pageNumber, searchScope as 'page' | 'book');
+          relevantChunks = await findRelevantChunks("quiz generation", bookId, pageNumber, searchScope, pageRange);
         }
       }
       
+      // Label chat context with page numbers so the answer can cite them
+      let chatContext = '';
+      let sources: ChunkSource[] = [];
+      if (mode === 'chat') {
+        if (relevantChunks && relevantChunks.length > 0) {
+          relevantChunks = await attachPageNumbers(relevantChunks);
+          const neighbors = await fetchNeighborChunks(relevantChunks);
+          const context = buildContext(relevantChunks, neighbors, { tokenBudget: CONTEXT_TOKEN_BUDGET, estimateTokens });
+          console.log(`Built chat context from ${context.hits.length} hits in ${context.blocks.length} blocks (~${context.tokens} tokens)`);
+          chatContext = context.text;
+          sources = buildSources(context.hits);
+        } else if (bookContent) {
+          const currentPageChunk = [{ id: null, page_number: pageNumber || null, content: bookContent, similarity: null }];
+          chatContext = buildContext(currentPageChunk, [], { tokenBudget: CONTEXT_TOKEN_BUDGET, estimateTokens }).text;
+          sources = buildSources(currentPageChunk);
+        }
+      }
+      
+      // Stream chat answers when the client asks for it
+      if (mode === 'chat' && stream) {
+        contextUsed = relevantChunks && relevantChunks.length > 0;
+        
+        console.log(`Streaming chat response. Context used: ${contextUsed ? 'Yes' : 'No - using only current page'}`);
+        return createChatStreamResponse(
+          userQuestion,
+          chatContext,
+          citationInstructions,
+          { context_used: contextUsed, mode: mode, sources },
+          history
+        );
+      }
+      
       let responseText = '';
+      let quizResult: { questions: QuizQuestion[], sourceContent: string } | null = null;
       
       // If we found relevant chunks, use them for context
       if (relevantChunks && relevantChunks.length > 0) {
         contextUsed = true;
-        const context = relevantChunks.map(chunk => chunk.content).join('\n\n');
-        
         if (mode === 'chat') {
           try {
-            responseText = await callGeminiAPI(userQuestion, context);
+            responseText = await llm.complete(userQuestion, chatContext, citationInstructions, { history });
           } catch (error) {
             console.error(`Failed to get AI response: ${error.message}`);
             responseText = "I'm sorry, I encountered an error while processing your question.";
@@ -667,7 +1816,8 @@ serve(async (req) => {
           }
         } else if (mode === 'quiz') {
           try {
-            responseText = await generateQuiz(bookContent, relevantChunks);
+            quizResult = await generateQuiz(llm, relevantChunks, numQuestions);
+            responseText = `Generated ${quizResult.questions.length} quiz questions.`;
           } catch (error) {
             console.error(`Failed to generate quiz: ${error.message}`);
             responseText = "I'm sorry, I couldn't generate a quiz at this time.";
@@ -681,17 +1831,22 @@ serve(async (req) => {
         
         if (mode === 'chat') {
           try {
-            responseText = await callGeminiAPI(userQuestion, bookContent ? bookContent : "");
+            responseText = await llm.complete(userQuestion, chatContext, citationInstructions, { history });
           } catch (error) {
             console.error(`Failed to get AI response: ${error.message}`);
             responseText = "I'm sorry, I encountered an error while processing your question.";
           }
         } else if (mode === 'quiz') {
-          try {
-            responseText = await generateQuiz(bookContent, [{ content: bookContent }]);
-          } catch (error) {
-            console.error(`Failed to generate quiz: ${error.message}`);
-            responseText = "I'm sorry, I couldn't generate a quiz at this time.";
+          if (!bookContent) {
+            responseText = "There is no content on the current page to build a quiz from.";
+          } else {
+            try {
+              quizResult = await generateQuiz(llm, [{ content: bookContent }], numQuestions);
+              responseText = `Generated ${quizResult.questions.length} quiz questions.`;
+            } catch (error) {
+              console.error(`Failed to generate quiz: ${error.message}`);
+              responseText = "I'm sorry, I couldn't generate a quiz at this time.";
+            }
           }
         }
       }
@@ -703,7 +1858,89 @@ serve(async (req) => {
           response: responseText,
           context_used: contextUsed,
           mode: mode,
-          ...(mode === 'quiz' ? { quiz: responseText } : {})
+          ...(mode === 'chat' ? { sources } : {}),
+          ...(mode === 'quiz' ? {
+            quiz: quizResult ? quizResult.questions : [],
+            source_content: quizResult ? quizResult.sourceContent : ''
+          } : {})
+        }),
+        { 
+          status: 200, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
+    // Handle evaluation of a quiz answer
+    if (mode === 'quizEval') {
+      const question = body.question;
+      const options = body.options;
+      const correctIndex = body.correctIndex;
+      const userAnswerIndex = body.userAnswerIndex;
+      
+      if (typeof question !== 'string' || !Array.isArray(options) || options.length < 2) {
+        throw new Error("Missing required parameters for quizEval mode: question and options");
+      }
+      
+      if (!Number.isInteger(correctIndex) || !Number.isInteger(userAnswerIndex) ||
+          correctIndex < 0 || correctIndex >= options.length ||
+          userAnswerIndex < 0 || userAnswerIndex >= options.length) {
+        throw new Error("Invalid answer index for quizEval mode");
+      }
+      
+      const isCorrect = correctIndex === userAnswerIndex;
+      let responseText = '';
+      
+      try {
+        const result = await evaluateQuizAnswer(llm, bookContent || "", question, options, correctIndex, userAnswerIndex);
+        responseText = result.feedback;
+      } catch (error) {
+        console.error(`Failed to evaluate quiz answer: ${error.message}`);
+        responseText = isCorrect ?
+          `**Correct!** The answer is "${options[correctIndex]}".` :
+          `**Not quite.** The correct answer is "${options[correctIndex]}".`;
+      }
+      
+      return new Response(
+        JSON.stringify({
+          response: responseText,
+          is_correct: isCorrect,
+          mode: mode
+        }),
+        { 
+          status: 200, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
+    // Handle explanation of a text selection
+    if (mode === 'explainSelection') {
+      if (!bookId) {
+        throw new Error("Missing required parameter: bookId");
+      }
+      
+      if (!selectedText) {
+        throw new Error("Missing required parameter for explainSelection mode: selectedText");
+      }
+      
+      let responseText = '';
+      let contextUsed = false;
+      
+      try {
+        const result = await explainSelection(selectedText, bookId, pageNumber, bookContent || "");
+        responseText = result.explanation;
+        contextUsed = result.contextUsed;
+      } catch (error) {
+        console.error(`Failed to explain selection: ${error.message}`);
+        responseText = "I'm sorry, I couldn't explain this selection at this time.";
+      }
+      
+      return new Response(
+        JSON.stringify({
+          response: responseText,
+          context_used: contextUsed,
+          mode: mode
         }),
         { 
           status: 200, 
@@ -712,6 +1949,99 @@ serve(async (req) => {
       );
     }
     
+    // Handle summaries of a page range, chapter or the whole book, cached per range and model
+    if (mode === 'summarize') {
+      if (!bookId) {
+        throw new Error("Missing required parameter: bookId");
+      }
+      
+      if (!await authorizeBookAccess(req, bookId)) return bookAccessDenied();
+      
+      const { data: book, error: bookError } = await supabase
+        .from('books')
+        .select('user_id, title, total_pages')
+        .eq('id', bookId)
+        .single();
+        
+      if (bookError) throw bookError;
+      
+      const range = searchScope === 'book' ?
+        (book.total_pages ? { start: 1, end: book.total_pages } : null) :
+        searchScope === 'page' ?
+          (pageNumber ? { start: pageNumber, end: pageNumber } : null) :
+          pageRange;
+          
+      if (!range) {
+        throw new Error("Missing page range for summarize mode");
+      }
+      
+      const title = body.title || (searchScope === 'book' ? book.title : `Pages ${range.start}-${range.end}`);
+      
+      const { data: stored } = await supabase
+        .from('book_summaries')
+        .select('*')
+        .eq('book_id', bookId)
+        .eq('start_page', range.start)
+        .eq('end_page', range.end)
+        .eq('model', llm.chatModel)
+        .maybeSingle();
+        
+      // Reuse a stored summary of the same pages from the same model unless asked to regenerate,
+      // and leave one that is still being written to its worker
+      const isWriting = stored?.status === 'pending' &&
+        Date.now() - new Date(stored.updated_at).getTime() < SUMMARY_STALE_MS;
+        
+      if (isWriting || (stored?.status === 'ready' && body.regenerate !== true)) {
+        return new Response(
+          JSON.stringify({ summary: stored, cached: !isWriting, mode: mode }),
+          { status: isWriting ? 202 : 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      
+      const promptTitle = searchScope === 'book' ?
+        `the book "${book.title}"` :
+        searchScope === 'chapter' ?
+          `the chapter "${title}" of "${book.title}"` :
+          `pages ${range.start}-${range.end} of "${book.title}"`;
+          
+      // Save the summary as pending (keeping any earlier text until the new one is ready) and
+      // write it in the background: a whole book takes many model calls, more than one request
+      // has time for. The client polls the row until it is ready or failed.
+      const { data: summary, error: summaryError } = await supabase
+        .from('book_summaries')
+        .upsert({
+          book_id: bookId,
+          user_id: book.user_id,
+          scope: searchScope,
+          title,
+          start_page: range.start,
+          end_page: range.end,
+          model: llm.chatModel,
+          status: 'pending',
+          error: null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'book_id,start_page,end_page,model' })
+        .select('*')
+        .single();
+        
+      if (summaryError) throw summaryError;
+      
+      const work = writeSummary(summary.id, bookId, range, promptTitle);
+      if (typeof EdgeRuntime !== 'undefined') {
+        EdgeRuntime.waitUntil(work);
+      } else {
+        await work;
+      }
+      
+      return new Response(
+        JSON.stringify({ summary, cached: false, mode: mode }),
+        { 
+          status: 202, 
+          headers: { "Content-Type": "application/json", ...corsHeaders } 
+        }
+      );
+    }
+    
     // If we get here, the request was for an endpoint we don't support
     return new Response(
       JSON.stringify({ error: "Invalid endpoint or mode" }),
@@ -0,0 +1,192 @@
+// OCR for scanned pages.
+//
+// A scanned book has no text layer: each page is one large image, so getTextContent()
+// returns nothing. The edge runtime has no canvas to render pages on, but pdf.js still
+// decodes the page's images, so the largest one is taken from the operator list, encoded
+// as a grayscale PNG and read with Tesseract. The Tesseract worker is started on the first
+// scanned page and reused for the rest of the page range.
+import { createWorker } from "npm:tesseract.js@5.1.1";
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // Tesseract's mean word confidence, 0-100
+}
+
+export interface OcrReader {
+  readPage(page, OPS): Promise<OcrResult | null>;
+  terminate(): Promise<void>;
+}
+
+// A decoded pdf.js image (page.objs entry)
+interface PageImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+// Pages with less text than this are treated as images of text
+export const MIN_PAGE_TEXT_CHARS = 20;
+
+// Images smaller than this (decorations, logos) are not worth reading
+const MIN_OCR_IMAGE_PIXELS = 300 * 300;
+
+// pdf.js ImageKind values
+const IMAGE_KIND_GRAYSCALE_1BPP = 1;
+const IMAGE_KIND_RGB_24BPP = 2;
+const IMAGE_KIND_RGBA_32BPP = 3;
+
+export function needsOcr(text: string) {
+  return (text || '').replace(/\s+/g, '').length < MIN_PAGE_TEXT_CHARS;
+}
+
+// Look up an image by name once the operator list has been loaded. Images shared between
+// pages ("g_" prefix) live in commonObjs.
+function getPageObject(page, name: string) {
+  try {
+    return name.startsWith("g_") ? page.commonObjs.get(name) : page.objs.get(name);
+  } catch {
+    return null;
+  }
+}
+
+// Find the largest image painted on the page
+async function findPageImage(page, OPS): Promise<PageImage | null> {
+  const operatorList = await page.getOperatorList();
+  let largest: PageImage | null = null;
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    let image = null;
+
+    if (fn === OPS.paintImageXObject) {
+      image = getPageObject(page, operatorList.argsArray[i][0]);
+    } else if (fn === OPS.paintInlineImageXObject) {
+      image = operatorList.argsArray[i][0];
+    }
+
+    if (!image?.data || !image.width || !image.height) continue;
+    if (!largest || image.width * image.height > largest.width * largest.height) {
+      largest = image;
+    }
+  }
+
+  return largest && largest.width * largest.height >= MIN_OCR_IMAGE_PIXELS ? largest : null;
+}
+
+// Convert a decoded image to one byte per pixel
+function toGrayscale(image: PageImage): Uint8Array {
+  const { width, height, kind, data } = image;
+  const gray = new Uint8Array(width * height);
+
+  if (kind === IMAGE_KIND_GRAYSCALE_1BPP) {
+    // Packed bits, rows padded to a whole byte; a set bit is white
+    const rowBytes = Math.ceil(width / 8);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+        gray[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return gray;
+  }
+
+  const channels = kind === IMAGE_KIND_RGBA_32BPP ? 4 : kind === IMAGE_KIND_RGB_24BPP ? 3 : 1;
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * channels;
+    gray[i] = channels === 1
+      ? data[offset]
+      : Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+  }
+  return gray;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Encode a grayscale image as an 8-bit PNG, compressed with the runtime's zlib stream
+async function encodeGrayscalePng(gray: Uint8Array, width: number, height: number) {
+  // Each row starts with filter type 0 (none)
+  const rows = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rows.set(gray.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const compressed = new Uint8Array(
+    await new Response(new Blob([rows]).stream().pipeThrough(new CompressionStream("deflate"))).arrayBuffer()
+  );
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 0, 0, 0, 0], 8); // Bit depth 8, grayscale, deflate, no filter, no interlace
+
+  const parts = [
+    new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", compressed),
+    pngChunk("IEND", new Uint8Array(0))
+  ];
+
+  const png = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+/**
+ * Create a reader for the scanned pages of one document. readPage returns null when the
+ * page has no image large enough to hold text. Call terminate when the range is done.
+ */
+export function createOcrReader(language = "eng"): OcrReader {
+  let worker = null;
+
+  return {
+    async readPage(page, OPS) {
+      const image = await findPageImage(page, OPS);
+      if (!image) return null;
+
+      const png = await encodeGrayscalePng(toGrayscale(image), image.width, image.height);
+
+      // Language data is downloaded on first use; /tmp is the only writable directory
+      worker = worker || await createWorker(language, 1, { cachePath: "/tmp" });
+      const { data } = await worker.recognize(png);
+
+      return { text: data.text.trim(), confidence: data.confidence };
+    },
+
+    async terminate() {
+      if (worker) {
+        await worker.terminate();
+        worker = null;
+      }
+    }
+  };
+}
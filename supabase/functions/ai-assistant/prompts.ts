@@ -33,6 +33,20 @@ User's Question/Request: "${userQuestion}"
 Based ONLY on the "Book Text Snippet" provided above, please address the user's question/request.
 `;
 
+/**
+ * Instructions for citing pages in chat answers - context passages are labelled [p. N]
+ */
+export const citationInstructions = `You are an expert AI Reading Companion answering questions about a book.
+
+CITATIONS:
+1. Each passage in the context is labelled with the page it comes from, like [p. 12].
+2. When a sentence of your answer uses information from a passage, cite its page right after that sentence using the same format, e.g. "The narrator leaves home [p. 12]."
+3. Cite several pages as separate markers, e.g. [p. 12] [p. 15].
+4. Only cite pages that appear in the context. Never invent page numbers.
+
+FORMAT:
+- Format your responses using Markdown for clarity and readability.`;
+
 /**
  * Prompt template for quiz mode - generating questions about book content
  */
@@ -47,16 +61,18 @@ RULES TO FOLLOW:
 5. Questions should cover different types of understanding: facts, concepts, implications, themes.
 
 FORMAT:
-Your response MUST be valid JSON that can be parsed with JSON.parse().
-The response should be an array of objects with this exact structure:
-[
-  {
-    "question": "The question text goes here?",
-    "options": ["Option A", "Option B", "Option C", "Option D"],
-    "correctIndex": 2  // Index of the correct option (0-3)
-  },
-  ...more questions
-]`;
+Your response MUST be a valid JSON object that can be parsed with JSON.parse().
+Put the questions in its "questions" array, each with this exact structure, where
+"correctIndex" is the index of the correct option (0-3):
+{
+  "questions": [
+    {
+      "question": "The question text goes here?",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correctIndex": 2
+    }
+  ]
+}`;
 
 export const quizUserPromptTemplate = (bookContent: string, numQuestions: number) => `
 Here is the text content from the book to generate quiz questions about:
@@ -145,3 +161,47 @@ Please explain this selected text clearly and concisely. Focus on providing insi
 2. Any important concepts, terminology, or references
 3. The significance of the ideas presented (if apparent from the selection)
 `;
+
+/**
+ * Prompt templates for summarize mode - map-reduce summaries of a page range, chapter or book
+ */
+export const summarizeMapSystemPrompt = `You are an expert AI Reading Companion summarizing part of a book.
+You will be given consecutive pages of the book, each labelled with its page number like [p. 12].
+
+RULES TO FOLLOW:
+1. Summarize ONLY what the pages say. Do not add outside knowledge or opinions.
+2. Keep the main arguments, events, characters, definitions and conclusions; drop examples and asides unless they matter.
+3. Keep the order in which things happen in the text.
+4. Cite the page of each point using the same format, e.g. "The author defines habit loops [p. 12]."
+
+FORMAT:
+- Concise Markdown bullet points, at most about 200 words.`;
+
+export const summarizeMapUserPromptTemplate = (pagesText: string, title: string) => `
+Pages from ${title}:
+"""
+${pagesText}
+"""
+
+Summarize these pages.
+`;
+
+export const summarizeReduceSystemPrompt = `You are an expert AI Reading Companion writing a summary of a book or part of a book.
+You will be given partial summaries of consecutive parts of the text, in reading order. Each point cites its page like [p. 12].
+
+RULES TO FOLLOW:
+1. Combine the partial summaries into one coherent summary. Use ONLY the information they contain.
+2. Merge repeated points and keep the overall structure and progression of the text.
+3. Keep the page citations of the points you keep, in the same [p. N] format.
+
+FORMAT:
+- Use Markdown: a one-paragraph overview, then the key points as bullets or short sections with headings.
+- Aim for about 300-500 words.`;
+
+export const summarizeReduceUserPromptTemplate = (partialSummaries: string[], title: string) => `
+Partial summaries of ${title}, in order:
+
+${partialSummaries.map((summary, index) => `--- Part ${index + 1} ---\n${summary}`).join('\n\n')}
+
+Combine these into a single summary of ${title}.
+`;
@@ -0,0 +1,391 @@
+// LLM providers for the ai-assistant function.
+//
+// Every provider offers the same three operations - embeddings, a blocking chat
+// completion and a streamed chat completion - so the rest of the function does not
+// care which model server it talks to. The provider is chosen by LLM_PROVIDER:
+//
+//   gemini    Google Gemini (default)          GOOGLE_API_KEY, GEMINI_CHAT_MODEL, GEMINI_EMBEDDING_MODEL
+//   openai    Any OpenAI-compatible API        OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_CHAT_MODEL, OPENAI_EMBEDDING_MODEL
+//   ollama    Local Ollama server              OLLAMA_BASE_URL, OLLAMA_CHAT_MODEL, OLLAMA_EMBEDDING_MODEL
+//   llamacpp  Local llama.cpp server           LLAMACPP_BASE_URL, LLAMACPP_CHAT_MODEL, LLAMACPP_EMBEDDING_MODEL
+//   fake      Deterministic responses, no network - for tests
+//
+// Embeddings must match the vector(768) columns in book_pages and book_chunks;
+// EMBEDDING_DIMENSIONS is sent to APIs that can shorten their embeddings.
+//
+// While books are re-embedded after an embedding model switch, PREVIOUS_LLM_PROVIDER and
+// PREVIOUS_-prefixed copies of the variables above (e.g. PREVIOUS_GEMINI_EMBEDDING_MODEL)
+// describe the old model, so books not yet switched can still be searched by meaning.
+
+// A previous turn of the conversation, in Gemini's role naming
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
+  isSummary?: boolean;
+}
+
+export interface ChatOptions {
+  responseMimeType?: string;
+  history?: ConversationTurn[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  chatModel: string;
+  embeddingModel: string;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+  complete(prompt: string, context: string, systemPrompt?: string, options?: ChatOptions): Promise<string>;
+  stream(prompt: string, context: string, systemPrompt?: string, options?: ChatOptions): AsyncGenerator<string>;
+}
+
+type Env = { get(key: string): string | undefined };
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+// Retries for rate-limited (429) and server-error (5xx) responses, with exponential backoff
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Function to wrap the question in the retrieved context, shared by every provider
+function buildUserPrompt(prompt: string, context: string) {
+  return context ?
+    `CONTEXT:\n${context}\n\nQUESTION:\n${prompt}\n\nAnswer based on the provided context only. If the question cannot be answered based on the context, say so.` :
+    prompt;
+}
+
+// Function to read `data:` lines from a server-sent events body
+async function* readSseData(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim();
+      }
+    }
+  }
+}
+
+// Function to decide how long to wait before retrying, preferring the server's Retry-After
+function retryDelay(response: Response, attempt: number) {
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+  }
+  
+  const backoff = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+  return Math.min(backoff + Math.random() * RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+}
+
+// Function to POST JSON to a provider, retrying 429/5xx responses and failing with the status code otherwise
+async function postJson(providerName: string, url: string, payload: unknown, headers: Record<string, string> = {}, signal?: AbortSignal) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(payload),
+      signal
+    });
+    
+    if (response.ok && response.body) {
+      return response;
+    }
+    
+    const errorText = await response.text();
+    const isRetryable = response.status === 429 || response.status >= 500;
+    
+    if (isRetryable && attempt < MAX_RETRIES && !signal?.aborted) {
+      const delay = retryDelay(response, attempt);
+      console.warn(`${providerName} API returned ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      continue;
+    }
+    
+    console.error(`${providerName} API error: ${response.status} - ${errorText}`);
+    throw new Error(`${providerName} API error: ${response.status}`);
+  }
+}
+
+// Google Gemini through the generativelanguage API
+function createGeminiProvider(env: Env): LLMProvider {
+  const apiKey = env.get("GOOGLE_API_KEY") || "";
+  const chatModel = env.get("GEMINI_CHAT_MODEL") || "gemini-1.5-flash";
+  const embeddingModel = env.get("GEMINI_EMBEDDING_MODEL") || "embedding-001";
+  const baseUrl = "https://generativelanguage.googleapis.com/v1beta/models";
+
+  if (!apiKey) console.error("GOOGLE_API_KEY is missing");
+
+  // Gemini has no system role here, so the system prompt is sent as an acknowledged user turn
+  const buildPayload = (prompt: string, context: string, systemPrompt = "", options: ChatOptions = {}) => {
+    const messages = [];
+
+    if (systemPrompt) {
+      messages.push({ role: "user", parts: [{ text: systemPrompt }] });
+      messages.push({ role: "model", parts: [{ text: "I understand and will respond accordingly." }] });
+    }
+
+    // Add earlier turns of the conversation, merging consecutive turns from the same speaker
+    for (const turn of options.history || []) {
+      const last = messages[messages.length - 1];
+      if (last && last.role === turn.role) {
+        last.parts[0].text += `\n\n${turn.text}`;
+      } else {
+        messages.push({ role: turn.role, parts: [{ text: turn.text }] });
+      }
+    }
+
+    messages.push({ role: "user", parts: [{ text: buildUserPrompt(prompt, context) }] });
+
+    return {
+      contents: messages,
+      generationConfig: {
+        temperature: 0.2,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024,
+        ...(options.responseMimeType ? { responseMimeType: options.responseMimeType } : {})
+      }
+    };
+  };
+
+  return {
+    name: "gemini",
+    chatModel,
+    embeddingModel,
+    async embed(text) {
+      const response = await postJson("Google AI", `${baseUrl}/${embeddingModel}:embedContent?key=${apiKey}`, {
+        model: `models/${embeddingModel}`,
+        content: { parts: [{ text }] }
+      });
+      const data = await response.json();
+      return data.embedding.values;
+    },
+    async embedBatch(texts) {
+      const response = await postJson("Google AI", `${baseUrl}/${embeddingModel}:batchEmbedContents?key=${apiKey}`, {
+        requests: texts.map(text => ({
+          model: `models/${embeddingModel}`,
+          content: { parts: [{ text }] }
+        }))
+      });
+      const data = await response.json();
+      return data.embeddings.map(embedding => embedding.values);
+    },
+    async complete(prompt, context, systemPrompt = "", options = {}) {
+      const response = await postJson(
+        "Google AI",
+        `${baseUrl}/${chatModel}:generateContent?key=${apiKey}`,
+        buildPayload(prompt, context, systemPrompt, options),
+        {},
+        options.signal
+      );
+      const data = await response.json();
+      return data.candidates[0].content.parts[0].text;
+    },
+    async *stream(prompt, context, systemPrompt = "", options = {}) {
+      const response = await postJson(
+        "Google AI",
+        `${baseUrl}/${chatModel}:streamGenerateContent?alt=sse&key=${apiKey}`,
+        buildPayload(prompt, context, systemPrompt, options),
+        {},
+        options.signal
+      );
+      for await (const data of readSseData(response.body)) {
+        const text = JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  };
+}
+
+// Any server speaking the OpenAI chat/completions and embeddings API: OpenAI itself,
+// and the /v1 endpoints of Ollama and llama.cpp
+function createOpenAICompatibleProvider(
+  name: string,
+  config: { baseUrl: string; apiKey?: string; chatModel: string; embeddingModel: string; sendDimensions?: boolean }
+): LLMProvider {
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const buildPayload = (prompt: string, context: string, systemPrompt = "", options: ChatOptions = {}) => {
+    const messages = [];
+
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+    for (const turn of options.history || []) {
+      messages.push({ role: turn.role === 'model' ? "assistant" : "user", content: turn.text });
+    }
+    messages.push({ role: "user", content: buildUserPrompt(prompt, context) });
+
+    return {
+      model: config.chatModel,
+      messages,
+      temperature: 0.2,
+      top_p: 0.8,
+      max_tokens: 1024,
+      ...(options.responseMimeType === "application/json" ? { response_format: { type: "json_object" } } : {})
+    };
+  };
+
+  return {
+    name,
+    chatModel: config.chatModel,
+    embeddingModel: config.embeddingModel,
+    async embed(text) {
+      const [embedding] = await this.embedBatch([text]);
+      return embedding;
+    },
+    async embedBatch(texts) {
+      const response = await postJson(name, `${config.baseUrl}/embeddings`, {
+        model: config.embeddingModel,
+        input: texts,
+        ...(config.sendDimensions ? { dimensions: EMBEDDING_DIMENSIONS } : {})
+      }, headers);
+      const data = await response.json();
+      // Results carry their input position; keep them in input order
+      return [...data.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    },
+    async complete(prompt, context, systemPrompt = "", options = {}) {
+      const response = await postJson(
+        name,
+        `${config.baseUrl}/chat/completions`,
+        buildPayload(prompt, context, systemPrompt, options),
+        headers,
+        options.signal
+      );
+      const data = await response.json();
+      return data.choices[0].message.content;
+    },
+    async *stream(prompt, context, systemPrompt = "", options = {}) {
+      const response = await postJson(
+        name,
+        `${config.baseUrl}/chat/completions`,
+        { ...buildPayload(prompt, context, systemPrompt, options), stream: true },
+        headers,
+        options.signal
+      );
+      for await (const data of readSseData(response.body)) {
+        if (data === '[DONE]') break;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  };
+}
+
+// Deterministic provider for tests: no network, same input always gives the same output
+function createFakeProvider(): LLMProvider {
+  const hash = (text: string) => {
+    let value = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+      value = Math.imul(value ^ text.charCodeAt(i), 16777619);
+    }
+    return value >>> 0;
+  };
+
+  const answer = (prompt: string, options: ChatOptions = {}) => {
+    if (options.responseMimeType === "application/json") {
+      return JSON.stringify({
+        questions: [{
+          question: "What is this passage about?",
+          options: ["The provided context", "Something else", "Nothing", "Unknown"],
+          correctIndex: 0
+        }]
+      });
+    }
+    return `Fake response to: ${prompt.slice(0, 200)}`;
+  };
+
+  return {
+    name: "fake",
+    chatModel: "fake-chat",
+    embeddingModel: "fake-embedding",
+    async embedBatch(texts) {
+      return Promise.all(texts.map(text => this.embed(text)));
+    },
+    async embed(text) {
+      // Seeded pseudo-random unit vector
+      let seed = hash(text);
+      const values = Array.from({ length: EMBEDDING_DIMENSIONS }, () => {
+        seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+        return seed / 4294967296 - 0.5;
+      });
+      const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+      return values.map(value => value / norm);
+    },
+    async complete(prompt, _context, _systemPrompt = "", options = {}) {
+      return answer(prompt, options);
+    },
+    async *stream(prompt, _context, _systemPrompt = "", options = {}) {
+      for (const word of answer(prompt, options).split(/(?<= )/)) {
+        if (options.signal?.aborted) return;
+        yield word;
+      }
+    }
+  };
+}
+
+// Function to create the provider selected by LLM_PROVIDER
+export function createProvider(env: Env = Deno.env): LLMProvider {
+  const providerName = (env.get("LLM_PROVIDER") || "gemini").toLowerCase();
+
+  switch (providerName) {
+    case "gemini":
+      return createGeminiProvider(env);
+    case "openai": {
+      const apiKey = env.get("OPENAI_API_KEY") || "";
+      const baseUrl = env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1";
+      if (!apiKey && baseUrl.includes("api.openai.com")) console.error("OPENAI_API_KEY is missing");
+      return createOpenAICompatibleProvider("openai", {
+        baseUrl,
+        apiKey,
+        chatModel: env.get("OPENAI_CHAT_MODEL") || "gpt-4o",
+        embeddingModel: env.get("OPENAI_EMBEDDING_MODEL") || "text-embedding-3-small",
+        sendDimensions: true
+      });
+    }
+    case "ollama":
+      return createOpenAICompatibleProvider("ollama", {
+        baseUrl: `${env.get("OLLAMA_BASE_URL") || "http://localhost:11434"}/v1`,
+        chatModel: env.get("OLLAMA_CHAT_MODEL") || "llama3.1",
+        embeddingModel: env.get("OLLAMA_EMBEDDING_MODEL") || "nomic-embed-text"
+      });
+    case "llamacpp":
+      return createOpenAICompatibleProvider("llamacpp", {
+        baseUrl: `${env.get("LLAMACPP_BASE_URL") || "http://localhost:8080"}/v1`,
+        chatModel: env.get("LLAMACPP_CHAT_MODEL") || "default",
+        embeddingModel: env.get("LLAMACPP_EMBEDDING_MODEL") || "default"
+      });
+    case "fake":
+      return createFakeProvider();
+    default:
+      console.error(`Unknown LLM_PROVIDER "${providerName}", falling back to gemini`);
+      return createGeminiProvider(env);
+  }
+}
+
+// Function to create the provider of the embedding model used before the last switch, or
+// null when none is configured. Unprefixed variables (API keys, base URLs) are shared.
+export function createPreviousEmbeddingProvider(env: Env = Deno.env): LLMProvider | null {
+  if (!env.get("PREVIOUS_LLM_PROVIDER")) {
+    return null;
+  }
+
+  return createProvider({ get: (key) => env.get(`PREVIOUS_${key}`) ?? env.get(key) });
+}
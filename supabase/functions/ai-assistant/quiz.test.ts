@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createProvider } from "./providers.ts";
+import { evaluateQuizAnswer, generateQuiz, MAX_QUIZ_SOURCE_CHARS, parseQuizQuestions } from "./quiz.ts";
+
+const fake = createProvider({ get: key => (key === "LLM_PROVIDER" ? "fake" : undefined) });
+
+const question = (text: string, correctIndex = 0) => ({
+  question: text,
+  options: ["A", "B", "C", "D"],
+  correctIndex
+});
+
+describe("parseQuizQuestions", () => {
+  it("reads the questions array of a JSON object", () => {
+    const text = JSON.stringify({ questions: [question("First?"), question("Second?", 3)] });
+
+    expect(parseQuizQuestions(text)).toEqual([question("First?"), question("Second?", 3)]);
+  });
+
+  it("accepts a bare array inside code fences", () => {
+    expect(parseQuizQuestions("```json\n[" + JSON.stringify(question("Fenced?")) + "]\n```")).toEqual([question("Fenced?")]);
+  });
+
+  it("ignores inline comments and trims text", () => {
+    const text = `{
+      "questions": [
+        { "question": "  Spaced?  ", "options": [" A ", "B"], "correctIndex": 1 } // the second option
+      ]
+    }`;
+
+    expect(parseQuizQuestions(text)).toEqual([{ question: "Spaced?", options: ["A", "B"], correctIndex: 1 }]);
+  });
+
+  it("drops malformed questions", () => {
+    const text = JSON.stringify({
+      questions: [
+        question("Kept?"),
+        { ...question("Answer out of range?"), correctIndex: 4 },
+        { ...question("One option?"), options: ["Only"] },
+        { ...question("Empty option?"), options: ["A", " "] },
+        { options: ["A", "B"], correctIndex: 0 }
+      ]
+    });
+
+    expect(parseQuizQuestions(text).map(item => item.question)).toEqual(["Kept?"]);
+  });
+
+  it("rejects output without usable questions", () => {
+    expect(() => parseQuizQuestions("I can't write a quiz about this.")).toThrow("did not contain JSON");
+    expect(() => parseQuizQuestions('{ "quiz": [] }')).toThrow("no questions array");
+    expect(() => parseQuizQuestions('{ "questions": [] }')).toThrow("no valid questions");
+  });
+});
+
+describe("generateQuiz", () => {
+  it("parses the fake provider's JSON-mode answer", async () => {
+    const quiz = await generateQuiz(fake, [{ content: "First passage." }, { content: "Second passage." }]);
+
+    expect(quiz.questions).toEqual([{
+      question: "What is this passage about?",
+      options: ["The provided context", "Something else", "Nothing", "Unknown"],
+      correctIndex: 0
+    }]);
+    expect(quiz.sourceContent).toBe("First passage.\n\nSecond passage.");
+  });
+
+  it("keeps only the start of long source text for answer evaluation", async () => {
+    const quiz = await generateQuiz(fake, [{ content: "x".repeat(MAX_QUIZ_SOURCE_CHARS + 500) }]);
+
+    expect(quiz.sourceContent).toHaveLength(MAX_QUIZ_SOURCE_CHARS);
+  });
+});
+
+describe("evaluateQuizAnswer", () => {
+  it("marks the answer by the correct index and returns the model's feedback", async () => {
+    const right = await evaluateQuizAnswer(fake, "Text.", "Question?", ["A", "B"], 1, 1);
+    const wrong = await evaluateQuizAnswer(fake, "Text.", "Question?", ["A", "B"], 1, 0);
+
+    expect(right.isCorrect).toBe(true);
+    expect(wrong.isCorrect).toBe(false);
+    expect(right.feedback).toMatch(/^Fake response to: /);
+  });
+});
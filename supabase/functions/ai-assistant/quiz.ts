@@ -0,0 +1,103 @@
+// Quiz generation and answer evaluation for quiz and quizEval modes.
+//
+// The model is asked for multiple-choice questions as JSON; parseQuizQuestions reads them and
+// drops malformed ones. Each call takes the provider to use, so tests can pass the fake one.
+import { quizEvalSystemPrompt, quizEvalUserPromptTemplate, quizSystemPrompt, quizUserPromptTemplate } from "./prompts.ts";
+import { LLMProvider } from "./providers.ts";
+
+// Shape of a single multiple-choice question returned by quiz mode
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  correctIndex: number;
+}
+
+// Maximum amount of source text sent along with a quiz, used later for answer evaluation
+export const MAX_QUIZ_SOURCE_CHARS = 8000;
+
+// Function to parse and validate the model's quiz output. The prompt asks for an object with a
+// "questions" array, which JSON mode allows; a bare array from a model without it is accepted too.
+export function parseQuizQuestions(text: string): QuizQuestion[] {
+  // Strip markdown code fences and any inline comments a model adds to its JSON
+  const cleaned = text
+    .replace(/```(?:json)?/gi, '')
+    .replace(/\/\/[^\n"]*$/gm, '')
+    .trim();
+  
+  const jsonStart = cleaned.search(/[[{]/);
+  const jsonEnd = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+  if (jsonStart === -1 || jsonEnd <= jsonStart) {
+    throw new Error("Quiz response did not contain JSON");
+  }
+  
+  const parsed = JSON.parse(cleaned.slice(jsonStart, jsonEnd + 1));
+  const items = Array.isArray(parsed) ? parsed : parsed?.questions;
+  if (!Array.isArray(items)) {
+    throw new Error("Quiz response has no questions array");
+  }
+  
+  const questions = items
+    .filter(item =>
+      item &&
+      typeof item.question === 'string' &&
+      item.question.trim().length > 0 &&
+      Array.isArray(item.options) &&
+      item.options.length >= 2 &&
+      item.options.every(option => typeof option === 'string' && option.trim().length > 0) &&
+      Number.isInteger(item.correctIndex) &&
+      item.correctIndex >= 0 &&
+      item.correctIndex < item.options.length
+    )
+    .map(item => ({
+      question: item.question.trim(),
+      options: item.options.map(option => option.trim()),
+      correctIndex: item.correctIndex
+    }));
+  
+  if (questions.length === 0) {
+    throw new Error("Quiz response contained no valid questions");
+  }
+  
+  return questions;
+}
+
+// Function to generate a quiz based on content
+export async function generateQuiz(llm: LLMProvider, relevantChunks: { content: string }[], numQuestions = 3) {
+  const context = relevantChunks.map(chunk => chunk.content).join('\n\n');
+  const prompt = quizUserPromptTemplate(context, numQuestions);
+  
+  // Retry once if the model returns malformed JSON
+  let lastError;
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    try {
+      const responseText = await llm.complete(prompt, "", quizSystemPrompt, { responseMimeType: "application/json" });
+      const questions = parseQuizQuestions(responseText);
+      return {
+        questions: questions.slice(0, numQuestions),
+        sourceContent: context.slice(0, MAX_QUIZ_SOURCE_CHARS)
+      };
+    } catch (error) {
+      console.error(`Quiz generation attempt ${attempt} failed: ${error.message}`);
+      lastError = error;
+    }
+  }
+  
+  throw lastError;
+}
+
+// Function to evaluate a reader's answer to a quiz question
+export async function evaluateQuizAnswer(
+  llm: LLMProvider,
+  bookContent: string,
+  question: string,
+  options: string[],
+  correctIndex: number,
+  userAnswerIndex: number
+) {
+  const prompt = quizEvalUserPromptTemplate(bookContent, question, options, correctIndex, userAnswerIndex);
+  const feedback = await llm.complete(prompt, "", quizEvalSystemPrompt);
+  return {
+    feedback,
+    isCorrect: correctIndex === userAnswerIndex
+  };
+}
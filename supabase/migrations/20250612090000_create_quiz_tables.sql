@@ -0,0 +1,99 @@
+-- Create quizzes table: one row per generated quiz
+CREATE TABLE IF NOT EXISTS public.quizzes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+    page_id UUID REFERENCES public.book_pages(id) ON DELETE SET NULL,
+    page_number INTEGER,
+    search_scope TEXT NOT NULL DEFAULT 'page',
+    source_content TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create quiz_questions table: the multiple-choice questions of a quiz
+CREATE TABLE IF NOT EXISTS public.quiz_questions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    question_index INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    options JSONB NOT NULL,
+    correct_index INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    UNIQUE(quiz_id, question_index)
+);
+
+-- Create quiz_attempts table: each answer a reader gives to a question
+CREATE TABLE IF NOT EXISTS public.quiz_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID NOT NULL REFERENCES public.quiz_questions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+    selected_index INTEGER NOT NULL,
+    is_correct BOOLEAN NOT NULL,
+    evaluation TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Add indexes for better query performance
+CREATE INDEX IF NOT EXISTS quizzes_user_book_idx ON public.quizzes (user_id, book_id);
+CREATE INDEX IF NOT EXISTS quiz_questions_quiz_id_idx ON public.quiz_questions (quiz_id);
+CREATE INDEX IF NOT EXISTS quiz_attempts_question_id_idx ON public.quiz_attempts (question_id);
+CREATE INDEX IF NOT EXISTS quiz_attempts_user_book_idx ON public.quiz_attempts (user_id, book_id);
+
+-- Add row level security policies
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY quizzes_select_policy ON public.quizzes
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY quizzes_insert_policy ON public.quizzes
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY quizzes_delete_policy ON public.quizzes
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY quiz_questions_select_policy ON public.quiz_questions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY quiz_questions_insert_policy ON public.quiz_questions
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY quiz_attempts_select_policy ON public.quiz_attempts
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY quiz_attempts_insert_policy ON public.quiz_attempts
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY quiz_attempts_update_policy ON public.quiz_attempts
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.quizzes TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.quiz_questions TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.quiz_attempts TO authenticated;
+
+-- Per-book comprehension score, computed from every answered question
+CREATE OR REPLACE VIEW public.book_quiz_scores
+WITH (security_invoker = true) AS
+SELECT
+    qa.user_id,
+    qa.book_id,
+    COUNT(*)::INTEGER AS attempts,
+    COUNT(*) FILTER (WHERE qa.is_correct)::INTEGER AS correct,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE qa.is_correct) / COUNT(*))::INTEGER AS score_percent,
+    MAX(qa.created_at) AS last_attempt_at
+FROM public.quiz_attempts qa
+GROUP BY qa.user_id, qa.book_id;
+
+GRANT SELECT ON public.book_quiz_scores TO authenticated;
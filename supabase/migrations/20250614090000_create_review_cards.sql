@@ -0,0 +1,148 @@
+-- Create review_cards table: spaced-repetition cards built from quiz misses and highlights
+CREATE TABLE IF NOT EXISTS public.review_cards (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+    source_type TEXT NOT NULL CHECK (source_type IN ('quiz', 'highlight')),
+    quiz_question_id UUID REFERENCES public.quiz_questions(id) ON DELETE CASCADE,
+    highlight_id UUID REFERENCES public.highlights(id) ON DELETE CASCADE,
+    page_number INTEGER,
+    front TEXT NOT NULL,
+    back TEXT,
+    ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    lapses INTEGER NOT NULL DEFAULT 0,
+    due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    last_reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    UNIQUE(user_id, quiz_question_id),
+    UNIQUE(user_id, highlight_id)
+);
+
+-- Add indexes for better query performance
+CREATE INDEX IF NOT EXISTS review_cards_user_due_idx ON public.review_cards (user_id, due_at);
+CREATE INDEX IF NOT EXISTS review_cards_book_id_idx ON public.review_cards (book_id);
+
+-- Add row level security policies
+ALTER TABLE public.review_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY review_cards_select_policy ON public.review_cards
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY review_cards_insert_policy ON public.review_cards
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY review_cards_update_policy ON public.review_cards
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY review_cards_delete_policy ON public.review_cards
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.review_cards TO authenticated;
+
+-- Create a review card whenever a quiz question is answered incorrectly
+CREATE OR REPLACE FUNCTION public.create_review_card_from_quiz_attempt()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_correct THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.review_cards (
+        user_id,
+        book_id,
+        source_type,
+        quiz_question_id,
+        page_number,
+        front,
+        back
+    )
+    SELECT
+        NEW.user_id,
+        NEW.book_id,
+        'quiz',
+        qq.id,
+        q.page_number,
+        qq.question,
+        qq.options ->> qq.correct_index
+    FROM public.quiz_questions qq
+    JOIN public.quizzes q ON q.id = qq.quiz_id
+    WHERE qq.id = NEW.question_id
+    ON CONFLICT (user_id, quiz_question_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS quiz_attempts_review_card_trigger ON public.quiz_attempts;
+CREATE TRIGGER quiz_attempts_review_card_trigger
+    AFTER INSERT ON public.quiz_attempts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.create_review_card_from_quiz_attempt();
+
+-- Create a review card for every new highlight
+CREATE OR REPLACE FUNCTION public.create_review_card_from_highlight()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.review_cards (
+        user_id,
+        book_id,
+        source_type,
+        highlight_id,
+        page_number,
+        front,
+        back
+    ) VALUES (
+        NEW.user_id,
+        NEW.book_id::UUID,
+        'highlight',
+        NEW.id,
+        NEW.page_number,
+        NEW.text,
+        NEW.note
+    )
+    ON CONFLICT (user_id, highlight_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS highlights_review_card_trigger ON public.highlights;
+CREATE TRIGGER highlights_review_card_trigger
+    AFTER INSERT ON public.highlights
+    FOR EACH ROW
+    EXECUTE FUNCTION public.create_review_card_from_highlight();
+
+-- Backfill cards for existing quiz misses and highlights
+INSERT INTO public.review_cards (user_id, book_id, source_type, quiz_question_id, page_number, front, back)
+SELECT DISTINCT ON (qa.user_id, qq.id)
+    qa.user_id,
+    qa.book_id,
+    'quiz',
+    qq.id,
+    q.page_number,
+    qq.question,
+    qq.options ->> qq.correct_index
+FROM public.quiz_attempts qa
+JOIN public.quiz_questions qq ON qq.id = qa.question_id
+JOIN public.quizzes q ON q.id = qq.quiz_id
+WHERE NOT qa.is_correct
+ON CONFLICT (user_id, quiz_question_id) DO NOTHING;
+
+INSERT INTO public.review_cards (user_id, book_id, source_type, highlight_id, page_number, front, back)
+SELECT
+    h.user_id,
+    h.book_id::UUID,
+    'highlight',
+    h.id,
+    h.page_number,
+    h.text,
+    h.note
+FROM public.highlights h
+ON CONFLICT (user_id, highlight_id) DO NOTHING;
@@ -0,0 +1,4 @@
+-- Store a rolling summary of older chat turns so long conversations fit the model's context
+ALTER TABLE IF EXISTS public.ai_conversations
+ADD COLUMN IF NOT EXISTS summary TEXT,
+ADD COLUMN IF NOT EXISTS summarized_until TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,76 @@
+-- Create processing_jobs table: book processing runs as a queue of jobs, a page range at a time
+CREATE TABLE IF NOT EXISTS public.processing_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    file_path TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'failed', 'done')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    last_error TEXT,
+    next_page INTEGER NOT NULL DEFAULT 1,
+    total_pages INTEGER,
+    pages_per_run INTEGER NOT NULL DEFAULT 10,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Only one queued or running job per book, so repeated requests cannot process a book twice
+CREATE UNIQUE INDEX IF NOT EXISTS processing_jobs_active_book_idx ON public.processing_jobs (book_id)
+    WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS processing_jobs_status_run_after_idx ON public.processing_jobs (status, run_after);
+
+-- Add row level security policies; jobs are written by the edge function with the service role
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY processing_jobs_select_policy ON public.processing_jobs
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.processing_jobs TO authenticated;
+
+-- Claim the next job that is ready to run. Running jobs whose worker stopped reporting
+-- (edge function timeout or crash) are reclaimed after the lock timeout and count as a failed attempt.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(
+    p_job_id UUID DEFAULT NULL,
+    p_lock_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    claimed_id UUID;
+BEGIN
+    SELECT j.id INTO claimed_id
+    FROM public.processing_jobs j
+    WHERE (p_job_id IS NULL OR j.id = p_job_id)
+      AND (
+          (j.status = 'queued' AND j.run_after <= now())
+          OR (j.status = 'running' AND j.locked_at < now() - p_lock_timeout)
+      )
+    ORDER BY j.run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF claimed_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.processing_jobs j
+    SET attempts = CASE WHEN j.status = 'running' THEN j.attempts + 1 ELSE j.attempts END,
+        last_error = CASE WHEN j.status = 'running' THEN 'Worker stopped before finishing its page range' ELSE j.last_error END,
+        status = 'running',
+        locked_at = now(),
+        updated_at = now()
+    WHERE j.id = claimed_id
+    RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_processing_job(UUID, INTERVAL) TO service_role;
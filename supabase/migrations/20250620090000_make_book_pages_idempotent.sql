@@ -0,0 +1,15 @@
+-- Make book processing idempotent: one row per book page, with a hash of its text
+ALTER TABLE public.book_pages
+    ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Remove duplicate pages left by earlier re-processing, keeping the newest copy (its chunks cascade)
+DELETE FROM public.book_pages older
+USING public.book_pages newer
+WHERE older.book_id = newer.book_id
+  AND older.page_number = newer.page_number
+  AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+-- Pages are upserted on (book_id, page_number); databases created from the older
+-- migration already have this as book_pages_book_id_page_number_key
+CREATE UNIQUE INDEX IF NOT EXISTS book_pages_book_id_page_number_key
+    ON public.book_pages (book_id, page_number);
@@ -0,0 +1,17 @@
+-- Chunks whose embedding request failed are stored with a NULL embedding and filled in by a backfill pass
+CREATE INDEX IF NOT EXISTS book_chunks_missing_embedding_idx ON public.book_chunks (book_id)
+    WHERE embedding IS NULL;
+
+-- Per-book count of chunks still waiting for an embedding
+CREATE OR REPLACE VIEW public.book_embedding_status
+WITH (security_invoker = true) AS
+SELECT
+    b.id AS book_id,
+    b.user_id,
+    COUNT(bc.id)::INTEGER AS chunk_count,
+    COUNT(bc.id) FILTER (WHERE bc.embedding IS NULL)::INTEGER AS missing_embeddings
+FROM public.books b
+LEFT JOIN public.book_chunks bc ON bc.book_id = b.id
+GROUP BY b.id, b.user_id;
+
+GRANT SELECT ON public.book_embedding_status TO authenticated;
@@ -0,0 +1,177 @@
+-- Reconcile embedding dimensions: every provider is configured for 768-dimensional embeddings
+-- (embedding-001 returns 768 floats). Databases built from the 20240613 migration have
+-- vector(3072); those embeddings can't be compared with 768-dimensional queries, so they are
+-- cleared and refilled by the embedding backfill.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM pg_attribute
+        WHERE attrelid = 'public.book_chunks'::regclass
+          AND attname = 'embedding'
+          AND atttypmod <> 768
+    ) THEN
+        DROP INDEX IF EXISTS public.book_chunks_embedding_idx;
+        UPDATE public.book_chunks SET embedding = NULL;
+        ALTER TABLE public.book_chunks ALTER COLUMN embedding TYPE vector(768);
+    END IF;
+END;
+$$;
+
+-- Record which model produced each embedding. next_embedding holds embeddings from a
+-- re-embed job until every chunk of the book has one, then they are swapped in together.
+ALTER TABLE public.book_chunks
+    ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+    ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER,
+    ADD COLUMN IF NOT EXISTS next_embedding vector(768),
+    ADD COLUMN IF NOT EXISTS next_embedding_model TEXT;
+
+-- Existing embeddings all came from Gemini's embedding-001
+UPDATE public.book_chunks
+SET embedding_model = 'embedding-001',
+    embedding_dimensions = 768
+WHERE embedding IS NOT NULL
+  AND embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS book_chunks_book_id_embedding_model_idx ON public.book_chunks (book_id, embedding_model);
+
+-- Match functions only compare embeddings from the query's model
+DROP FUNCTION IF EXISTS public.match_book_chunks(vector, double precision, integer, uuid);
+DROP FUNCTION IF EXISTS public.match_page_chunks(vector, uuid, double precision, integer);
+
+CREATE OR REPLACE FUNCTION public.match_book_chunks(
+    query_embedding vector(768),
+    match_threshold float,
+    match_count int,
+    p_book_id uuid,
+    p_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    book_id UUID,
+    page_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        bc.id,
+        bc.book_id,
+        bc.page_id,
+        bc.chunk_index,
+        bc.content,
+        1 - (bc.embedding <=> query_embedding) as similarity
+    FROM
+        book_chunks bc
+    WHERE
+        bc.book_id = p_book_id
+        AND bc.embedding IS NOT NULL
+        AND (p_embedding_model IS NULL OR bc.embedding_model = p_embedding_model)
+        AND 1 - (bc.embedding <=> query_embedding) > match_threshold
+    ORDER BY
+        similarity DESC
+    LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_page_chunks(
+    query_embedding vector(768),
+    page_id_param uuid,
+    match_threshold float,
+    match_count int,
+    p_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    book_id UUID,
+    page_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        bc.id,
+        bc.book_id,
+        bc.page_id,
+        bc.chunk_index,
+        bc.content,
+        1 - (bc.embedding <=> query_embedding) as similarity
+    FROM
+        book_chunks bc
+    WHERE
+        bc.page_id = page_id_param
+        AND bc.embedding IS NOT NULL
+        AND (p_embedding_model IS NULL OR bc.embedding_model = p_embedding_model)
+        AND 1 - (bc.embedding <=> query_embedding) > match_threshold
+    ORDER BY
+        bc.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+-- Processing jobs can also re-embed a book with a new model
+ALTER TABLE public.processing_jobs
+    ADD COLUMN IF NOT EXISTS job_type TEXT NOT NULL DEFAULT 'process' CHECK (job_type IN ('process', 'reembed')),
+    ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+-- Swap a book's staged embeddings in once every chunk has one, in a single statement so
+-- searches never see a half-migrated book. Returns the number of chunks switched.
+CREATE OR REPLACE FUNCTION public.activate_reembedded_chunks(
+    p_book_id UUID,
+    p_embedding_model TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    switched INTEGER;
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM public.book_chunks
+        WHERE book_id = p_book_id
+          AND embedding_model IS DISTINCT FROM p_embedding_model
+          AND next_embedding_model IS DISTINCT FROM p_embedding_model
+    ) THEN
+        RAISE EXCEPTION 'Book % still has chunks without a % embedding', p_book_id, p_embedding_model;
+    END IF;
+
+    UPDATE public.book_chunks
+    SET embedding = next_embedding,
+        embedding_model = next_embedding_model,
+        embedding_dimensions = vector_dims(next_embedding),
+        next_embedding = NULL,
+        next_embedding_model = NULL
+    WHERE book_id = p_book_id
+      AND next_embedding_model = p_embedding_model;
+
+    GET DIAGNOSTICS switched = ROW_COUNT;
+    RETURN switched;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.activate_reembedded_chunks(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.activate_reembedded_chunks(UUID, TEXT) TO service_role;
+
+-- Report which models a book's embeddings come from, so the UI can flag stale books
+CREATE OR REPLACE VIEW public.book_embedding_status
+WITH (security_invoker = true) AS
+SELECT
+    b.id AS book_id,
+    b.user_id,
+    COUNT(bc.id)::INTEGER AS chunk_count,
+    COUNT(bc.id) FILTER (WHERE bc.embedding IS NULL)::INTEGER AS missing_embeddings,
+    COALESCE(ARRAY_AGG(DISTINCT bc.embedding_model) FILTER (WHERE bc.embedding_model IS NOT NULL), '{}') AS embedding_models
+FROM public.books b
+LEFT JOIN public.book_chunks bc ON bc.book_id = b.id
+GROUP BY b.id, b.user_id;
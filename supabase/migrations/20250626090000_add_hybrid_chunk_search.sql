@@ -0,0 +1,84 @@
+-- Full-text search over chunks, kept in sync with their content
+ALTER TABLE public.book_chunks
+    ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS book_chunks_content_tsv_idx ON public.book_chunks USING GIN (content_tsv);
+
+-- Hybrid search: rank chunks by full-text relevance and by vector similarity separately, then
+-- merge the two rankings with reciprocal rank fusion (score = sum of weight / (rrf_k + rank)).
+-- Pass p_page_id to search a single page. query_embedding may be NULL for full-text only search.
+CREATE OR REPLACE FUNCTION public.search_book_chunks_hybrid(
+    p_book_id UUID,
+    query_text TEXT,
+    query_embedding vector(768) DEFAULT NULL,
+    match_count INT DEFAULT 10,
+    p_page_id UUID DEFAULT NULL,
+    p_embedding_model TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.0,
+    full_text_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    book_id UUID,
+    page_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity FLOAT,
+    text_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    -- Match any of the query's words rather than all of them, as questions rarely repeat the text verbatim
+    WITH query AS (
+        SELECT to_tsquery('english', replace(plainto_tsquery('english', query_text)::TEXT, '&', '|')) AS tsq
+    ),
+    full_text AS (
+        SELECT
+            bc.id,
+            ts_rank_cd(bc.content_tsv, query.tsq) AS text_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(bc.content_tsv, query.tsq) DESC) AS rank_ix
+        FROM public.book_chunks bc, query
+        WHERE bc.book_id = p_book_id
+          AND (p_page_id IS NULL OR bc.page_id = p_page_id)
+          AND bc.content_tsv @@ query.tsq
+        ORDER BY rank_ix
+        LIMIT match_count * 2
+    ),
+    semantic AS (
+        SELECT
+            bc.id,
+            1 - (bc.embedding <=> query_embedding) AS similarity,
+            ROW_NUMBER() OVER (ORDER BY bc.embedding <=> query_embedding) AS rank_ix
+        FROM public.book_chunks bc
+        WHERE query_embedding IS NOT NULL
+          AND bc.book_id = p_book_id
+          AND (p_page_id IS NULL OR bc.page_id = p_page_id)
+          AND bc.embedding IS NOT NULL
+          AND (p_embedding_model IS NULL OR bc.embedding_model = p_embedding_model)
+          AND 1 - (bc.embedding <=> query_embedding) > match_threshold
+        ORDER BY rank_ix
+        LIMIT match_count * 2
+    )
+    SELECT
+        bc.id,
+        bc.book_id,
+        bc.page_id,
+        bc.chunk_index,
+        bc.content,
+        semantic.similarity,
+        full_text.text_rank,
+        COALESCE(full_text_weight / (rrf_k + full_text.rank_ix), 0.0) +
+            COALESCE(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) AS score
+    FROM full_text
+    FULL OUTER JOIN semantic ON full_text.id = semantic.id
+    JOIN public.book_chunks bc ON bc.id = COALESCE(full_text.id, semantic.id)
+    ORDER BY score DESC
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_book_chunks_hybrid(UUID, TEXT, vector, INT, UUID, TEXT, FLOAT, FLOAT, FLOAT, INT) TO authenticated, service_role;
@@ -0,0 +1,58 @@
+-- Create book_sections table: a book's table of contents, read from the PDF outline or, for
+-- PDFs without one, detected from heading font sizes while the book is processed
+CREATE TABLE IF NOT EXISTS public.book_sections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    level INTEGER NOT NULL DEFAULT 1,
+    start_page INTEGER NOT NULL,
+    end_page INTEGER,
+    position INTEGER NOT NULL DEFAULT 0,
+    source TEXT NOT NULL DEFAULT 'outline' CHECK (source IN ('outline', 'headings')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Add indexes for better query performance
+CREATE INDEX IF NOT EXISTS book_sections_book_id_start_page_idx ON public.book_sections (book_id, start_page, position);
+
+-- Add row level security policies; sections are written by the edge function with the service role
+ALTER TABLE public.book_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY book_sections_select_policy ON public.book_sections
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.book_sections TO authenticated;
+
+-- Fill in where each section ends: the page before the next section at the same or a higher
+-- level starts, or the last page of the book. Sections past the end of the book are removed.
+CREATE OR REPLACE FUNCTION public.refresh_book_section_ranges(
+    p_book_id UUID,
+    p_total_pages INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.book_sections
+    WHERE book_id = p_book_id
+      AND start_page > p_total_pages;
+
+    UPDATE public.book_sections s
+    SET end_page = COALESCE((
+        SELECT GREATEST(MIN(n.start_page) - 1, s.start_page)
+        FROM public.book_sections n
+        WHERE n.book_id = s.book_id
+          AND n.source = s.source
+          AND n.level <= s.level
+          AND (n.start_page, n.position) > (s.start_page, s.position)
+    ), p_total_pages)
+    WHERE s.book_id = p_book_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_book_section_ranges(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_book_section_ranges(UUID, INTEGER) TO service_role;
@@ -0,0 +1,81 @@
+-- Hybrid search limited to a range of pages, for questions about one chapter or section.
+-- Ranks chunks the same way as search_book_chunks_hybrid, but only on pages p_start_page to p_end_page.
+CREATE OR REPLACE FUNCTION public.search_book_chunks_in_page_range(
+    p_book_id UUID,
+    query_text TEXT,
+    p_start_page INT,
+    p_end_page INT,
+    query_embedding vector(768) DEFAULT NULL,
+    match_count INT DEFAULT 10,
+    p_embedding_model TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.0,
+    full_text_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    book_id UUID,
+    page_id UUID,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity FLOAT,
+    text_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', replace(plainto_tsquery('english', query_text)::TEXT, '&', '|')) AS tsq
+    ),
+    range_chunks AS (
+        SELECT bc.*, bp.page_number
+        FROM public.book_chunks bc
+        JOIN public.book_pages bp ON bp.id = bc.page_id
+        WHERE bc.book_id = p_book_id
+          AND bp.page_number BETWEEN p_start_page AND p_end_page
+    ),
+    full_text AS (
+        SELECT
+            rc.id,
+            ts_rank_cd(rc.content_tsv, query.tsq) AS text_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(rc.content_tsv, query.tsq) DESC) AS rank_ix
+        FROM range_chunks rc, query
+        WHERE rc.content_tsv @@ query.tsq
+        ORDER BY rank_ix
+        LIMIT match_count * 2
+    ),
+    semantic AS (
+        SELECT
+            rc.id,
+            1 - (rc.embedding <=> query_embedding) AS similarity,
+            ROW_NUMBER() OVER (ORDER BY rc.embedding <=> query_embedding) AS rank_ix
+        FROM range_chunks rc
+        WHERE query_embedding IS NOT NULL
+          AND rc.embedding IS NOT NULL
+          AND (p_embedding_model IS NULL OR rc.embedding_model = p_embedding_model)
+          AND 1 - (rc.embedding <=> query_embedding) > match_threshold
+        ORDER BY rank_ix
+        LIMIT match_count * 2
+    )
+    SELECT
+        rc.id,
+        rc.book_id,
+        rc.page_id,
+        rc.page_number,
+        rc.chunk_index,
+        rc.content,
+        semantic.similarity,
+        full_text.text_rank,
+        COALESCE(full_text_weight / (rrf_k + full_text.rank_ix), 0.0) +
+            COALESCE(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) AS score
+    FROM full_text
+    FULL OUTER JOIN semantic ON full_text.id = semantic.id
+    JOIN range_chunks rc ON rc.id = COALESCE(full_text.id, semantic.id)
+    ORDER BY score DESC
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_book_chunks_in_page_range(UUID, TEXT, INT, INT, vector, INT, TEXT, FLOAT, FLOAT, FLOAT, INT) TO authenticated, service_role;
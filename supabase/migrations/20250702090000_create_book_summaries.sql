@@ -0,0 +1,58 @@
+-- Create book_summaries table: cached summaries of a page range, chapter or whole book,
+-- one per range and model. Summaries are written by the edge function with the service role.
+CREATE TABLE IF NOT EXISTS public.book_summaries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL DEFAULT 'range' CHECK (scope IN ('page', 'chapter', 'range', 'book')),
+    title TEXT,
+    start_page INTEGER NOT NULL,
+    end_page INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+
+    UNIQUE(book_id, start_page, end_page, model)
+);
+
+-- Add indexes for better query performance
+CREATE INDEX IF NOT EXISTS book_summaries_user_book_idx ON public.book_summaries (user_id, book_id);
+
+-- Add row level security policies
+ALTER TABLE public.book_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY book_summaries_select_policy ON public.book_summaries
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY book_summaries_delete_policy ON public.book_summaries
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+GRANT SELECT, DELETE ON public.book_summaries TO authenticated;
+
+-- Drop cached summaries covering a page whose text changed or was removed when the book was reprocessed
+CREATE OR REPLACE FUNCTION public.invalidate_book_summaries()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.book_summaries
+    WHERE book_id = OLD.book_id
+      AND OLD.page_number BETWEEN start_page AND end_page;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS book_pages_summary_update_trigger ON public.book_pages;
+CREATE TRIGGER book_pages_summary_update_trigger
+    AFTER UPDATE OF content_hash ON public.book_pages
+    FOR EACH ROW
+    WHEN (OLD.content_hash IS DISTINCT FROM NEW.content_hash)
+    EXECUTE FUNCTION public.invalidate_book_summaries();
+
+DROP TRIGGER IF EXISTS book_pages_summary_delete_trigger ON public.book_pages;
+CREATE TRIGGER book_pages_summary_delete_trigger
+    AFTER DELETE ON public.book_pages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.invalidate_book_summaries();
@@ -0,0 +1,5 @@
+-- Record which pages were read with OCR. Scanned books have no text layer, so the edge
+-- function OCRs image-only pages; ocr_confidence is Tesseract's mean word confidence (0-100).
+ALTER TABLE public.book_pages
+    ADD COLUMN IF NOT EXISTS ocr BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS ocr_confidence REAL;
@@ -0,0 +1,107 @@
+-- Notes are saved to the notes table with the same anchor JSON as highlights.position.
+-- page_number may be null: notes copied out of chat history below only get a page when
+-- their selected text can be found in the book's pages.
+ALTER TABLE public.notes
+    ADD COLUMN IF NOT EXISTS position TEXT,
+    ALTER COLUMN page_number DROP NOT NULL;
+
+-- The chat message a note was copied from, so the copy runs once per message and the
+-- messages can be removed from the chat once the copies have been checked
+ALTER TABLE public.notes
+    ADD COLUMN IF NOT EXISTS source_message_id UUID REFERENCES public.ai_messages(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS notes_source_message_idx ON public.notes (source_message_id)
+    WHERE source_message_id IS NOT NULL;
+
+-- Notes used to be saved as user messages in the book's AI conversation, written as
+-- "<title>\n\n<note>\n\nSelected text: <selection>" with a one-line title and a note without
+-- blank lines. Such a message only counts as a note in a conversation the note dialog
+-- created (titled after its first message's note) and when no answer follows it, as chat
+-- questions are always answered. Matching messages are copied and left in place.
+WITH conversations AS (
+    SELECT c.id, c.user_id, c.book_id
+    FROM public.ai_conversations c
+    WHERE c.title = (
+        SELECT split_part(earliest.content, E'\n\n', 1)
+        FROM public.ai_messages earliest
+        WHERE earliest.conversation_id = c.id
+        ORDER BY earliest.created_at, earliest.role = 'assistant'
+        LIMIT 1
+    )
+),
+fields AS (
+    SELECT
+        m.id AS message_id,
+        c.user_id,
+        c.book_id::TEXT AS book_id,
+        m.created_at,
+        parts[1] AS title,
+        parts[2] AS content,
+        parts[3] AS selected_text
+    FROM public.ai_messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    CROSS JOIN LATERAL regexp_match(
+        m.content,
+        E'^([^\\n]+)\\n\\n((?:[^\\n]|\\n(?!\\n))*)\\n\\nSelected text: (.+)$'
+    ) AS parts
+    WHERE m.role = 'user'
+      AND NOT EXISTS (
+          SELECT 1
+          FROM public.ai_messages reply
+          WHERE reply.conversation_id = m.conversation_id
+            AND reply.role = 'assistant'
+            AND reply.created_at >= m.created_at
+            AND NOT EXISTS (
+                SELECT 1
+                FROM public.ai_messages later
+                WHERE later.conversation_id = m.conversation_id
+                  AND later.role = 'user'
+                  AND later.created_at > m.created_at
+                  AND later.created_at < reply.created_at
+            )
+      )
+)
+INSERT INTO public.notes (user_id, book_id, page_number, selected_text, title, content, color, source_message_id, created_at, updated_at)
+SELECT
+    f.user_id,
+    f.book_id,
+    (
+        SELECT bp.page_number
+        FROM public.book_pages bp
+        WHERE bp.book_id::TEXT = f.book_id
+          AND strpos(regexp_replace(bp.content, '\s+', ' ', 'g'), regexp_replace(f.selected_text, '\s+', ' ', 'g')) > 0
+        ORDER BY bp.page_number
+        LIMIT 1
+    ),
+    f.selected_text,
+    f.title,
+    NULLIF(f.content, ''),
+    'bg-yellow-200 dark:bg-yellow-800/50',
+    f.message_id,
+    f.created_at,
+    f.created_at
+FROM fields f
+ON CONFLICT (source_message_id) WHERE source_message_id IS NOT NULL DO NOTHING;
+
+-- Once the copied notes have been checked, run SELECT public.remove_copied_note_messages();
+-- to take the original messages out of the chat history. Returns how many were removed.
+CREATE OR REPLACE FUNCTION public.remove_copied_note_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    removed INTEGER;
+BEGIN
+    DELETE FROM public.ai_messages m
+    USING public.notes n
+    WHERE n.source_message_id = m.id;
+
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    RETURN removed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.remove_copied_note_messages() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_copied_note_messages() TO service_role;
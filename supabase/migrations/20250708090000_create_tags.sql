@@ -0,0 +1,116 @@
+-- Tags for highlights and notes. tags and highlight_tags already exist in deployed databases
+-- without a migration, so they are only created here when missing.
+CREATE TABLE IF NOT EXISTS public.tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    color TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.highlight_tags (
+    highlight_id UUID NOT NULL REFERENCES public.highlights(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+
+    PRIMARY KEY (highlight_id, tag_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.note_tags (
+    note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+
+    PRIMARY KEY (note_id, tag_id)
+);
+
+-- A user's tag names are unique regardless of case; renaming onto an existing name is a merge
+CREATE UNIQUE INDEX IF NOT EXISTS tags_user_name_idx ON public.tags (user_id, lower(name));
+
+-- Add indexes for better query performance
+CREATE INDEX IF NOT EXISTS highlight_tags_tag_id_idx ON public.highlight_tags (tag_id);
+CREATE INDEX IF NOT EXISTS note_tags_tag_id_idx ON public.note_tags (tag_id);
+
+-- Add row level security policies
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.highlight_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.note_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tags_select_policy ON public.tags;
+CREATE POLICY tags_select_policy ON public.tags
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS tags_insert_policy ON public.tags;
+CREATE POLICY tags_insert_policy ON public.tags
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS tags_update_policy ON public.tags;
+CREATE POLICY tags_update_policy ON public.tags
+    FOR UPDATE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS tags_delete_policy ON public.tags;
+CREATE POLICY tags_delete_policy ON public.tags
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Links are visible and editable when both the tag and the tagged highlight or note are the user's
+DROP POLICY IF EXISTS highlight_tags_policy ON public.highlight_tags;
+CREATE POLICY highlight_tags_policy ON public.highlight_tags
+    FOR ALL
+    USING (
+        EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM public.highlights h WHERE h.id = highlight_id AND h.user_id = auth.uid())
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM public.highlights h WHERE h.id = highlight_id AND h.user_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS note_tags_policy ON public.note_tags;
+CREATE POLICY note_tags_policy ON public.note_tags
+    FOR ALL
+    USING (
+        EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id AND n.user_id = auth.uid())
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id AND n.user_id = auth.uid())
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tags TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.highlight_tags TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.note_tags TO authenticated;
+
+-- Merge one of the user's tags into another: everything tagged with the source gets the
+-- target tag, and the source tag is deleted. Runs with the caller's rights, so RLS applies.
+CREATE OR REPLACE FUNCTION public.merge_tags(
+    p_source_tag_id UUID,
+    p_target_tag_id UUID
+) RETURNS VOID AS $$
+BEGIN
+    IF p_source_tag_id = p_target_tag_id THEN
+        RETURN;
+    END IF;
+
+    IF (SELECT count(*) FROM public.tags
+        WHERE id IN (p_source_tag_id, p_target_tag_id) AND user_id = auth.uid()) <> 2 THEN
+        RAISE EXCEPTION 'Tag not found';
+    END IF;
+
+    INSERT INTO public.highlight_tags (highlight_id, tag_id)
+    SELECT highlight_id, p_target_tag_id
+    FROM public.highlight_tags
+    WHERE tag_id = p_source_tag_id
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.note_tags (note_id, tag_id)
+    SELECT note_id, p_target_tag_id
+    FROM public.note_tags
+    WHERE tag_id = p_source_tag_id
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM public.tags WHERE id = p_source_tag_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
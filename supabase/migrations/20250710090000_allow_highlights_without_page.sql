@@ -0,0 +1,4 @@
+-- Imported highlights whose quote can't be found in the book's pages are saved without a
+-- page, like notes moved out of chat history
+ALTER TABLE public.highlights
+    ALTER COLUMN page_number DROP NOT NULL;
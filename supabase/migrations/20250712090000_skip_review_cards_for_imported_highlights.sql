@@ -0,0 +1,35 @@
+-- Record which reader an imported highlight came from (NULL for highlights made here)
+ALTER TABLE public.highlights
+    ADD COLUMN IF NOT EXISTS imported_from TEXT;
+
+-- Only highlights made while reading get a review card: an import can bring in hundreds of
+-- highlights at once, which would flood the review queue
+CREATE OR REPLACE FUNCTION public.create_review_card_from_highlight()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.imported_from IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.review_cards (
+        user_id,
+        book_id,
+        source_type,
+        highlight_id,
+        page_number,
+        front,
+        back
+    ) VALUES (
+        NEW.user_id,
+        NEW.book_id::UUID,
+        'highlight',
+        NEW.id,
+        NEW.page_number,
+        NEW.text,
+        NEW.note
+    )
+    ON CONFLICT (user_id, highlight_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,17 @@
+-- A question and its answer are saved in one insert, so with now() they shared a created_at
+-- and a turn could come back answer first. clock_timestamp() is read per row, giving each
+-- row of the insert a later timestamp than the one before it
+ALTER TABLE IF EXISTS public.ai_messages
+ALTER COLUMN created_at SET DEFAULT clock_timestamp();
+
+-- Put answers already saved with their question's timestamp just after it
+UPDATE public.ai_messages answer
+SET created_at = answer.created_at + INTERVAL '1 millisecond'
+WHERE answer.role = 'assistant'
+  AND EXISTS (
+    SELECT 1
+    FROM public.ai_messages question
+    WHERE question.conversation_id = answer.conversation_id
+      AND question.role = 'user'
+      AND question.created_at = answer.created_at
+  );
@@ -0,0 +1,3 @@
+-- Keep the pages an answer cites with the message, so citations survive reloading the chat
+ALTER TABLE IF EXISTS public.ai_messages
+ADD COLUMN IF NOT EXISTS sources JSONB;
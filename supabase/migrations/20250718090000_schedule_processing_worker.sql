@@ -0,0 +1,23 @@
+-- Run the processing worker every minute. Workers hand each job to the next run themselves,
+-- so this only picks up jobs waiting out a retry backoff (run_after) and jobs whose worker
+-- stopped. Needs the project URL and service role key in Vault as project_url and
+-- service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'process-jobs';
+
+SELECT cron.schedule(
+    'process-jobs',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/ai-assistant',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"endpoint": "process-jobs"}'::jsonb
+    )
+    $$
+);
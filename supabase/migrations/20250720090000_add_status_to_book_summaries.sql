@@ -0,0 +1,9 @@
+-- Summaries are written in the background: the row is saved as 'pending' when a summary is
+-- requested, and the client polls it until the edge function marks it 'ready' or 'failed'.
+-- A regenerated summary keeps its old text while pending; a new one has none yet.
+ALTER TABLE public.book_summaries
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'ready' CHECK (status IN ('pending', 'ready', 'failed')),
+    ADD COLUMN IF NOT EXISTS error TEXT;
+
+ALTER TABLE public.book_summaries
+    ALTER COLUMN summary DROP NOT NULL;